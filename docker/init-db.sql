@@ -15,4 +15,92 @@ CREATE INDEX IF NOT EXISTS idx_event_store_event_id ON event_store(event_id);
 CREATE INDEX IF NOT EXISTS idx_event_store_aggregate_id ON event_store(aggregate_id);
 CREATE INDEX IF NOT EXISTS idx_event_store_event_type ON event_store(event_type);
 CREATE INDEX IF NOT EXISTS idx_event_store_occurred_on ON event_store(occurred_on);
-CREATE INDEX IF NOT EXISTS idx_event_store_aggregate_type_id ON event_store(aggregate_type, aggregate_id); 
\ No newline at end of file
+CREATE INDEX IF NOT EXISTS idx_event_store_aggregate_type_id ON event_store(aggregate_type, aggregate_id); 
+
+-- Pedidos
+CREATE TABLE IF NOT EXISTS orders (
+    id VARCHAR(255) PRIMARY KEY,
+    customer_id VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'completed', 'cancelled')),
+    total NUMERIC(12, 2) NOT NULL CHECK (total >= 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS order_items (
+    id SERIAL PRIMARY KEY,
+    order_id VARCHAR(255) NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    product_id VARCHAR(255) NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    unit_price NUMERIC(12, 2) NOT NULL CHECK (unit_price >= 0),
+    total_price NUMERIC(12, 2) NOT NULL CHECK (total_price >= 0)
+);
+
+CREATE TABLE IF NOT EXISTS order_addresses (
+    order_id VARCHAR(255) NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    type VARCHAR(20) NOT NULL CHECK (type IN ('shipping', 'billing')),
+    street VARCHAR(255) NOT NULL,
+    number VARCHAR(50) NOT NULL,
+    complement VARCHAR(255),
+    neighborhood VARCHAR(255) NOT NULL,
+    city VARCHAR(255) NOT NULL,
+    state VARCHAR(255) NOT NULL,
+    zip_code VARCHAR(20) NOT NULL,
+    country VARCHAR(255) NOT NULL,
+    PRIMARY KEY (order_id, type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_customer_id ON orders(customer_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+
+-- Eventos já processados (idempotência por event_id)
+CREATE TABLE IF NOT EXISTS processed_events (
+    event_id UUID PRIMARY KEY,
+    event_type VARCHAR(255) NOT NULL,
+    processed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_processed_events_processed_at ON processed_events(processed_at);
+
+-- Histórico da Dead Letter Queue (sobrevive ao TTL e ao limite de tamanho da fila)
+CREATE TABLE IF NOT EXISTS dead_letter_queue (
+    id SERIAL PRIMARY KEY,
+    event_id UUID NOT NULL,
+    event_type VARCHAR(255) NOT NULL,
+    aggregate_id VARCHAR(255) NOT NULL,
+    event_data JSONB NOT NULL,
+    event_version INTEGER NOT NULL DEFAULT 1,
+    occurred_on TIMESTAMP WITH TIME ZONE NOT NULL,
+    error_message TEXT NOT NULL,
+    error_stack TEXT,
+    retry_count INTEGER NOT NULL,
+    failed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    source VARCHAR(255) NOT NULL,
+    can_retry BOOLEAN NOT NULL,
+    error_class VARCHAR(20) CHECK (error_class IN ('retryable', 'non-retryable', 'poison')),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'replayed', 'discarded', 'resolved')),
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letter_queue_event_id ON dead_letter_queue(event_id);
+CREATE INDEX IF NOT EXISTS idx_dead_letter_queue_status ON dead_letter_queue(status);
+CREATE INDEX IF NOT EXISTS idx_dead_letter_queue_failed_at ON dead_letter_queue(failed_at);
+
+-- Outbox transacional: eventos de pedidos gravados na mesma transação do pedido e publicados pelo relay
+CREATE TABLE IF NOT EXISTS outbox (
+    id BIGSERIAL PRIMARY KEY,
+    event_id UUID NOT NULL UNIQUE,
+    event_type VARCHAR(255) NOT NULL,
+    aggregate_id VARCHAR(255) NOT NULL,
+    event_data JSONB NOT NULL,
+    event_version INTEGER NOT NULL DEFAULT 1,
+    occurred_on TIMESTAMP WITH TIME ZONE NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_pending ON outbox(id) WHERE sent_at IS NULL;
@@ -43,11 +43,11 @@ create_order() {
     
     # Vary the products and prices for different orders
     local products=(
-        '{"productId": "PROD-001", "name": "Smartphone XYZ", "quantity": 1, "unitPrice": 1999.99}'
-        '{"productId": "PROD-002", "name": "Laptop ABC", "quantity": 1, "unitPrice": 2999.99}'
-        '{"productId": "PROD-003", "name": "Tablet DEF", "quantity": 2, "unitPrice": 899.99}'
-        '{"productId": "PROD-004", "name": "Headphones GHI", "quantity": 1, "unitPrice": 299.99}'
-        '{"productId": "PROD-005", "name": "Smart Watch JKL", "quantity": 1, "unitPrice": 599.99}'
+        '{"productId": "PROD-001", "name": "Smartphone XYZ", "quantity": 1, "unitPrice": 1999.99, "totalPrice": 1999.99}'
+        '{"productId": "PROD-002", "name": "Laptop ABC", "quantity": 1, "unitPrice": 2999.99, "totalPrice": 2999.99}'
+        '{"productId": "PROD-003", "name": "Tablet DEF", "quantity": 2, "unitPrice": 899.99, "totalPrice": 1799.98}'
+        '{"productId": "PROD-004", "name": "Headphones GHI", "quantity": 1, "unitPrice": 299.99, "totalPrice": 299.99}'
+        '{"productId": "PROD-005", "name": "Smart Watch JKL", "quantity": 1, "unitPrice": 599.99, "totalPrice": 599.99}'
     )
     
     local product_index=$((order_num % ${#products[@]}))
@@ -70,8 +70,8 @@ create_order() {
     "eventType": "OrderCreated",
     "aggregateId": "${order_id}",
     "aggregateType": "Order",
-    "version": 1,
-    "occurredAt": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
+    "version": 2,
+    "occurredOn": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
     "data": {
         "orderId": "${order_id}",
         "customerId": "${customer_id}",
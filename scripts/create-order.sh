@@ -35,8 +35,8 @@ ORDER_PAYLOAD=$(cat <<EOF
     "eventType": "OrderCreated",
     "aggregateId": "${ORDER_ID}",
     "aggregateType": "Order",
-    "version": 1,
-    "occurredAt": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
+    "version": 2,
+    "occurredOn": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
     "data": {
         "orderId": "${ORDER_ID}",
         "customerId": "CUST-$(date +%s)",
@@ -45,13 +45,15 @@ ORDER_PAYLOAD=$(cat <<EOF
                 "productId": "PROD-001",
                 "name": "Smartphone XYZ",
                 "quantity": 1,
-                "unitPrice": 1999.99
+                "unitPrice": 1999.99,
+                "totalPrice": 1999.99
             },
             {
                 "productId": "PROD-002",
                 "name": "Capa Protetora",
                 "quantity": 2,
-                "unitPrice": 49.99
+                "unitPrice": 49.99,
+                "totalPrice": 99.98
             }
         ],
         "total": 2099.97,
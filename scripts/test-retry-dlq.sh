@@ -41,7 +41,7 @@ FAILING_PAYLOAD=$(cat <<EOF
     "eventType": "OrderCreated",
     "aggregateId": "${FAILING_ORDER_ID}",
     "version": 1,
-    "occurredAt": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
+    "occurredOn": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
     "data": {
         "orderId": "${FAILING_ORDER_ID}",
         "customerId": null,
@@ -61,7 +61,7 @@ docker compose exec rabbitmq rabbitmqadmin publish exchange=orders_exchange rout
 echo "✅ Evento com falha criado!"
 echo ""
 echo "🔍 Acompanhe o processamento nos logs para ver:"
-echo "   1. ⚠️  Tentativas de retry (3 tentativas)"
+echo "   1. ⏳ Tentativas de retry (3 tentativas) agendadas nas filas order_events.retry.*"
 echo "   2. 📮 Envio para Dead Letter Queue após falhas"
 echo "   3. ❌ Logs de erro detalhados"
 echo ""
@@ -88,7 +88,7 @@ for i in {1..3}; do
     "eventType": "OrderCreated",
     "aggregateId": "${FAILING_ORDER_ID}",
     "version": 1,
-    "occurredAt": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
+    "occurredOn": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
     "data": {
         "orderId": "${FAILING_ORDER_ID}",
         "customerId": null,
@@ -109,4 +109,4 @@ done
 echo ""
 echo "✅ Teste de Retry e DLQ configurado!"
 echo "🔍 Monitore os logs para ver o sistema de retry em ação:"
-echo "   docker compose logs app -f | grep -E '(🔄|⚠️|❌|📮)'" 
\ No newline at end of file
+echo "   docker compose logs app -f | grep -E '(🔄|⏳|🔁|❌|📮)'" 
\ No newline at end of file
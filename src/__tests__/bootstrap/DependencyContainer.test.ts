@@ -7,6 +7,14 @@ import { ConsoleLogger, Logger } from '../../shared/application/logging/logger';
 import { OrderProcessingStrategy } from '../../order/infrastructure/event-processing/OrderProcessingStrategy';
 import { NotificationObserver } from '../../shared/application/patterns/observer/NotificationObserver';
 import { EventProcessingService } from '../../shared/infrastructure/event-processing/EventProcessingService';
+import { HttpServer } from '../../shared/infrastructure/http/HttpServer';
+import { HealthService } from '../../shared/infrastructure/health/HealthService';
+import { RabbitMQOrderEventPublisher } from '../../order/infrastructure/events/RabbitMQOrderEventPublisher';
+import { CreateOrderUseCase } from '../../order/application/use-cases/create-order/CreateOrderUseCase';
+import { GetOrderUseCase } from '../../order/application/use-cases/get-order/GetOrderUseCase';
+import { ListOrdersUseCase } from '../../order/application/use-cases/list-order/ListOrdersUseCase';
+import { CancelOrderUseCase } from '../../order/application/use-cases/cancel-order/CancelOrderUseCase';
+import { CompleteOrderUseCase } from '../../order/application/use-cases/complete-order/CompleteOrderUseCase';
 
 describe('DependencyContainer', () => {
   let container: DependencyContainer;
@@ -78,6 +86,21 @@ describe('DependencyContainer', () => {
     expect(service).toBeInstanceOf(EventProcessingService);
   });
 
+  it('should get HttpServer with the health routes', () => {
+    const server = container.get<HttpServer>('HttpServer');
+    expect(server).toBeInstanceOf(HttpServer);
+    expect(container.get<HealthService>('HealthService')).toBeInstanceOf(HealthService);
+  });
+
+  it('should get the order event publisher and use cases', () => {
+    expect(container.get('OrderEventPublisher')).toBeInstanceOf(RabbitMQOrderEventPublisher);
+    expect(container.get('CreateOrderUseCase')).toBeInstanceOf(CreateOrderUseCase);
+    expect(container.get('GetOrderUseCase')).toBeInstanceOf(GetOrderUseCase);
+    expect(container.get('ListOrdersUseCase')).toBeInstanceOf(ListOrdersUseCase);
+    expect(container.get('CancelOrderUseCase')).toBeInstanceOf(CancelOrderUseCase);
+    expect(container.get('CompleteOrderUseCase')).toBeInstanceOf(CompleteOrderUseCase);
+  });
+
   it('should return the same instance for singleton services', () => {
     const logger1 = container.get<Logger>('Logger');
     const logger2 = container.get<Logger>('Logger');
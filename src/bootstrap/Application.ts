@@ -7,6 +7,10 @@ import { ConsoleLogger, Logger } from '../shared/application/logging/logger';
 import { OrderProcessingStrategy } from '../order/infrastructure/event-processing/OrderProcessingStrategy';
 import { NotificationObserver } from '../shared/application/patterns/observer/NotificationObserver';
 import { EventProcessingService } from '../shared/infrastructure/event-processing/EventProcessingService';
+import { Database } from '../shared/infrastructure/database/Database';
+import { HttpServer } from '../shared/infrastructure/http/HttpServer';
+import { RabbitMQOrderEventPublisher } from '../order/infrastructure/events/RabbitMQOrderEventPublisher';
+import { OutboxRelay } from '../shared/infrastructure/outbox/OutboxRelay';
 import { DependencyContainer } from './DependencyContainer';
 
 /**
@@ -18,13 +22,17 @@ import { DependencyContainer } from './DependencyContainer';
 export class Application {
   private readonly config: AppConfig;
   private readonly logger: Logger;
+  private readonly database: Database;
   private readonly rabbitMQClient: RabbitMQClient;
   private readonly batchProcessor: BatchProcessor;
   private readonly retryMechanism: RetryMechanism;
   private readonly dlqService: RabbitMQDeadLetterQueueService;
   private readonly orderProcessingStrategy: OrderProcessingStrategy;
   private readonly notificationObserver: NotificationObserver;
+  private readonly orderEventPublisher: RabbitMQOrderEventPublisher;
+  private readonly outboxRelay: OutboxRelay;
   private readonly eventProcessingService: EventProcessingService;
+  private readonly httpServer: HttpServer;
   private readonly container: DependencyContainer;
 
   constructor() {
@@ -35,13 +43,17 @@ export class Application {
     // Resolve dependencies from container
     this.config = this.container.get<AppConfig>('AppConfig');
     this.logger = this.container.get<Logger>('Logger');
+    this.database = this.container.get<Database>('Database');
     this.rabbitMQClient = this.container.get<RabbitMQClient>('RabbitMQClient');
     this.batchProcessor = this.container.get<BatchProcessor>('BatchProcessor');
     this.retryMechanism = this.container.get<RetryMechanism>('RetryMechanism');
     this.dlqService = this.container.get<RabbitMQDeadLetterQueueService>('DeadLetterQueueService');
     this.orderProcessingStrategy = this.container.get<OrderProcessingStrategy>('OrderProcessingStrategy');
     this.notificationObserver = this.container.get<NotificationObserver>('NotificationObserver');
+    this.orderEventPublisher = this.container.get<RabbitMQOrderEventPublisher>('OrderEventPublisher');
+    this.outboxRelay = this.container.get<OutboxRelay>('OutboxRelay');
     this.eventProcessingService = this.container.get<EventProcessingService>('EventProcessingService');
+    this.httpServer = this.container.get<HttpServer>('HttpServer');
   }
 
   /**
@@ -51,18 +63,26 @@ export class Application {
     try {
       this.logger.info('Starting application...');
 
+      // Serve the probes first: live right away, ready once everything below is up
+      await this.httpServer.start();
+
+      // Connect to PostgreSQL
+      await this.database.connect();
+
       // Connect to RabbitMQ
       await this.rabbitMQClient.connect();
 
       // Initialize Dead Letter Queue Service
       await this.dlqService.initialize();
 
+      // Connect the publisher of the order events and relay them from the outbox
+      await this.orderEventPublisher.initialize();
+      this.outboxRelay.start();
+
       // Register strategies with batch processor
       this.batchProcessor.registerStrategy('OrderCreated', this.orderProcessingStrategy);
       this.batchProcessor.registerStrategy('OrderCancelled', this.orderProcessingStrategy);
       this.batchProcessor.registerStrategy('OrderCompleted', this.orderProcessingStrategy);
-      this.batchProcessor.registerStrategy('OrderConfirmed', this.orderProcessingStrategy);
-      this.batchProcessor.registerStrategy('OrderShipped', this.orderProcessingStrategy);
 
       // Start event processing service
       await this.eventProcessingService.start();
@@ -86,6 +106,15 @@ export class Application {
 
       // Disconnect from RabbitMQ
       await this.rabbitMQClient.disconnect();
+      await this.dlqService.disconnect();
+      await this.outboxRelay.stop();
+      await this.orderEventPublisher.disconnect();
+
+      // Close the database connection pool
+      await this.database.disconnect();
+
+      // Last, so probes see the service as not ready until the very end
+      await this.httpServer.stop();
 
       this.logger.info('Application stopped successfully');
     } catch (error) {
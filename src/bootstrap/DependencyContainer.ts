@@ -1,8 +1,17 @@
 import { ConfigFactory, AppConfig } from '../shared/infrastructure/config/AppConfig';
 import { RabbitMQClient } from '../shared/infrastructure/messaging/RabbitMQClient';
+import { loadMessagingTopology } from '../shared/infrastructure/topology/loadMessagingTopology';
 import { BatchProcessor } from '../shared/infrastructure/batch/BatchProcessor';
 import { RetryMechanism } from '../shared/infrastructure/retry/RetryMechanism';
+import { DefaultErrorClassifier } from '../shared/infrastructure/retry/ErrorClassifier';
+import { CircuitBreakerRegistry } from '../shared/infrastructure/circuit-breaker/CircuitBreakerRegistry';
+import { HttpServer } from '../shared/infrastructure/http/HttpServer';
+import { HealthService } from '../shared/infrastructure/health/HealthService';
+import { HealthController } from '../shared/infrastructure/health/HealthController';
+import { PipelineMetrics } from '../shared/infrastructure/metrics/PipelineMetrics';
+import { MetricsController } from '../shared/infrastructure/metrics/MetricsController';
 import { RabbitMQDeadLetterQueueService } from '../shared/infrastructure/retry/DeadLetterQueueService';
+import { PostgresDeadLetterRepository } from '../shared/infrastructure/retry/PostgresDeadLetterRepository';
 import { ConsoleLogger, Logger } from '../shared/application/logging/logger';
 import { OrderProcessingStrategy } from '../order/infrastructure/event-processing/OrderProcessingStrategy';
 import { NotificationObserver } from '../shared/application/patterns/observer/NotificationObserver';
@@ -10,8 +19,30 @@ import { EventProcessingService, EventProcessingSubject, CompositeMessageHandler
 import { OrderMapper } from '../order/infrastructure/mappers/OrderMapper';
 import { IOrderMapper } from '../order/infrastructure/mappers/IOrderMapper';
 import { PostgresOrderRepository } from '../order/infrastructure/persistence/PostgresOrderRepository';
+import { OrderModel } from '../order/infrastructure/persistence/OrderModel';
+import { RabbitMQOrderEventPublisher } from '../order/infrastructure/events/RabbitMQOrderEventPublisher';
+import { PostgresOutboxStore } from '../shared/infrastructure/outbox/PostgresOutboxStore';
+import { OutboxRelay } from '../shared/infrastructure/outbox/OutboxRelay';
+import { OrderController } from '../order/infrastructure/http/OrderController';
+import { CreateOrderUseCase } from '../order/application/use-cases/create-order/CreateOrderUseCase';
+import { GetOrderUseCase } from '../order/application/use-cases/get-order/GetOrderUseCase';
+import { ListOrdersUseCase } from '../order/application/use-cases/list-order/ListOrdersUseCase';
+import { CancelOrderUseCase } from '../order/application/use-cases/cancel-order/CancelOrderUseCase';
+import { CompleteOrderUseCase } from '../order/application/use-cases/complete-order/CompleteOrderUseCase';
+import { Database } from '../shared/infrastructure/database/Database';
+import { PostgresEventStore } from '../shared/infrastructure/event-store/PostgresEventStore';
+import { EventSchemaRegistry } from '../shared/infrastructure/schema/EventSchemaRegistry';
+import { ORDER_EVENT_SCHEMAS } from '../order/infrastructure/schemas/OrderEventSchemas';
+import { EventUpcasterChain } from '../shared/infrastructure/upcasting/EventUpcasterChain';
+import { ORDER_EVENT_UPCASTERS } from '../order/infrastructure/upcasting/OrderEventUpcasters';
+import { EventSerializer } from '../shared/infrastructure/serialization/EventSerializer';
+import { ORDER_EVENT_TYPES } from '../order/infrastructure/serialization/OrderEventTypes';
 import { BatchFlushStrategy } from '../shared/infrastructure/batch/BatchFlushStrategy';
 import { RetryableMessageHandler } from '../shared/infrastructure/messaging/RetryableMessageHandler';
+import { IdempotentMessageHandler } from '../shared/infrastructure/messaging/IdempotentMessageHandler';
+import { IProcessedEventLedger } from '../shared/infrastructure/idempotency/IProcessedEventLedger';
+import { InMemoryProcessedEventLedger } from '../shared/infrastructure/idempotency/InMemoryProcessedEventLedger';
+import { PostgresProcessedEventLedger } from '../shared/infrastructure/idempotency/PostgresProcessedEventLedger';
 
 /**
  * Simple Dependency Injection Container
@@ -57,20 +88,55 @@ export class DependencyContainer {
     this.dependencies.set('ConsoleLogger', logger);
 
     // Initialize infrastructure services
-    const rabbitMQClient = new RabbitMQClient(config.rabbitmq, logger);
+    const database = new Database(config.database, logger);
+    this.dependencies.set('Database', database);
+
+    // Pipeline metrics, scraped by Prometheus from /metrics
+    const metrics = new PipelineMetrics();
+    this.dependencies.set('PipelineMetrics', metrics);
+
+    // Exchanges, queues and bindings declared by every connection on (re)connect
+    const messagingTopology = loadMessagingTopology(config);
+    this.dependencies.set('MessagingTopology', messagingTopology);
+
+    // Maps events to broker messages and consumed messages back to typed events
+    const eventSerializer = new EventSerializer().register(...ORDER_EVENT_TYPES);
+    this.dependencies.set('EventSerializer', eventSerializer);
+
+    const rabbitMQClient = new RabbitMQClient(
+      config.rabbitmq,
+      logger,
+      config.worker,
+      metrics,
+      messagingTopology,
+      eventSerializer
+    );
     this.dependencies.set('RabbitMQClient', rabbitMQClient);
 
-    const batchProcessor = new BatchProcessor(logger, config.batch);
+    // Decides which failures are worth retrying, for the batch and the retry mechanism alike
+    const errorClassifier = new DefaultErrorClassifier();
+    this.dependencies.set('ErrorClassifier', errorClassifier);
+
+    // Circuits of downstream dependencies, shared by the strategies and the consumer
+    const circuitBreakers = new CircuitBreakerRegistry(logger, config.circuitBreaker, errorClassifier);
+    this.dependencies.set('CircuitBreakerRegistry', circuitBreakers);
+
+    const batchProcessor = new BatchProcessor(logger, config.batch, errorClassifier, metrics);
     this.dependencies.set('BatchProcessor', batchProcessor);
+    metrics.gauge('batch_pending_events', 'Events waiting in the current batch', () => batchProcessor.getBatchSize());
 
-    const dlqService = new RabbitMQDeadLetterQueueService(logger, config.dlq);
+    const deadLetterRepository = new PostgresDeadLetterRepository(database);
+    this.dependencies.set('DeadLetterRepository', deadLetterRepository);
+
+    const dlqService = new RabbitMQDeadLetterQueueService(logger, config.dlq, deadLetterRepository, messagingTopology);
     this.dependencies.set('DeadLetterQueueService', dlqService);
 
-    const retryMechanism = new RetryMechanism(logger, config.retry, dlqService);
+    // Failed events wait for their retry in the broker's delayed retry queues
+    const retryMechanism = new RetryMechanism(logger, config.retry, dlqService, rabbitMQClient, errorClassifier, metrics);
     this.dependencies.set('RetryMechanism', retryMechanism);
 
     // Initialize application services
-    const orderProcessingStrategy = new OrderProcessingStrategy(logger);
+    const orderProcessingStrategy = new OrderProcessingStrategy(logger, circuitBreakers);
     this.dependencies.set('OrderProcessingStrategy', orderProcessingStrategy);
 
     const notificationObserver = new NotificationObserver(logger);
@@ -81,27 +147,87 @@ export class DependencyContainer {
     this.dependencies.set('OrderMapper', orderMapper);
 
     // Initialize repositories
-    const orderRepository = new PostgresOrderRepository(orderMapper);
+    // Order events are stored with the order and published by the outbox relay
+    const outboxStore = new PostgresOutboxStore(database);
+    this.dependencies.set('OutboxStore', outboxStore);
+
+    OrderModel.initialize(database.getSequelize());
+    const orderRepository = new PostgresOrderRepository(orderMapper, outboxStore);
     this.dependencies.set('OrderRepository', orderRepository);
 
+    const orderEventPublisher = new RabbitMQOrderEventPublisher(
+      logger,
+      config.rabbitmq,
+      messagingTopology,
+      eventSerializer
+    );
+    this.dependencies.set('OrderEventPublisher', orderEventPublisher);
+
+    const outboxRelay = new OutboxRelay(logger, outboxStore, orderEventPublisher, config.outbox);
+    this.dependencies.set('OutboxRelay', outboxRelay);
+
+    // Initialize order application layer
+    const createOrderUseCase = new CreateOrderUseCase(orderRepository, logger);
+    this.dependencies.set('CreateOrderUseCase', createOrderUseCase);
+
+    const getOrderUseCase = new GetOrderUseCase(orderRepository, logger);
+    this.dependencies.set('GetOrderUseCase', getOrderUseCase);
+
+    const listOrdersUseCase = new ListOrdersUseCase(orderRepository, logger);
+    this.dependencies.set('ListOrdersUseCase', listOrdersUseCase);
+
+    const cancelOrderUseCase = new CancelOrderUseCase(orderRepository, logger);
+    this.dependencies.set('CancelOrderUseCase', cancelOrderUseCase);
+
+    const completeOrderUseCase = new CompleteOrderUseCase(orderRepository, logger);
+    this.dependencies.set('CompleteOrderUseCase', completeOrderUseCase);
+
     // Initialize event processing components
-    const eventSubject = new EventProcessingSubject(logger);
+    const eventSubject = new EventProcessingSubject(logger, metrics);
     this.dependencies.set('EventProcessingSubject', eventSubject);
 
+    const eventStore = new PostgresEventStore(logger, database);
+    this.dependencies.set('EventStore', eventStore);
+
     const batchFlushStrategy = new BatchFlushStrategy(logger);
     this.dependencies.set('BatchFlushStrategy', batchFlushStrategy);
 
+    const eventSchemaRegistry = new EventSchemaRegistry(logger, config.schemas)
+      .register(...ORDER_EVENT_SCHEMAS);
+    this.dependencies.set('EventSchemaRegistry', eventSchemaRegistry);
+
+    const eventUpcasterChain = new EventUpcasterChain(logger)
+      .register(...ORDER_EVENT_UPCASTERS);
+    this.dependencies.set('EventUpcasterChain', eventUpcasterChain);
+
     const compositeMessageHandler = new CompositeMessageHandler(
       logger,
       batchProcessor,
-      eventSubject
+      eventSubject,
+      eventStore,
+      eventSchemaRegistry,
+      eventUpcasterChain
     );
     this.dependencies.set('CompositeMessageHandler', compositeMessageHandler);
 
+    const processedEventLedger: IProcessedEventLedger = config.idempotency.store === 'memory'
+      ? new InMemoryProcessedEventLedger(config.idempotency.retentionMs)
+      : new PostgresProcessedEventLedger(database, config.idempotency.retentionMs);
+    this.dependencies.set('ProcessedEventLedger', processedEventLedger);
+
+    const idempotentMessageHandler = new IdempotentMessageHandler(
+      logger,
+      processedEventLedger,
+      compositeMessageHandler,
+      metrics
+    );
+    this.dependencies.set('IdempotentMessageHandler', idempotentMessageHandler);
+
     const retryableMessageHandler = new RetryableMessageHandler(
       logger,
       retryMechanism,
-      compositeMessageHandler
+      idempotentMessageHandler,
+      eventSerializer
     );
     this.dependencies.set('RetryableMessageHandler', retryableMessageHandler);
 
@@ -116,10 +242,32 @@ export class DependencyContainer {
       eventSubject,
       compositeMessageHandler,
       batchFlushStrategy,
-      retryableMessageHandler
+      retryableMessageHandler,
+      circuitBreakers
     );
     this.dependencies.set('EventProcessingService', eventProcessingService);
 
+    // Readiness: every connection is up and the service is not shutting down
+    const healthService = new HealthService(logger);
+    healthService.registerReadinessCheck('rabbitmq', () => rabbitMQClient.isConnected());
+    healthService.registerReadinessCheck('deadLetterQueue', () => dlqService.isConnected());
+    healthService.registerReadinessCheck('database', () => database.ping());
+    healthService.registerReadinessCheck('orderEventPublisher', () => orderEventPublisher.isConnected());
+    healthService.registerReadinessCheck('eventProcessing', () => eventProcessingService.isRunning());
+    this.dependencies.set('HealthService', healthService);
+
+    const httpServer = new HttpServer(logger, config.app.port);
+    new HealthController(healthService).register(httpServer);
+    new MetricsController(metrics.registry).register(httpServer);
+    new OrderController(
+      createOrderUseCase,
+      getOrderUseCase,
+      listOrdersUseCase,
+      cancelOrderUseCase,
+      completeOrderUseCase
+    ).register(httpServer);
+    this.dependencies.set('HttpServer', httpServer);
+
     this.initialized = true;
   }
 
@@ -0,0 +1,47 @@
+import { parseArgs, toFilter } from '../dlq';
+
+describe('dlq CLI', () => {
+  describe('parseArgs', () => {
+    it('should split command, positionals and flags', () => {
+      const args = parseArgs(['replay', 'e1', 'e2', '--event-type', 'OrderCreated', '--json']);
+
+      expect(args).toEqual({
+        command: 'replay',
+        positional: ['e1', 'e2'],
+        flags: { 'event-type': 'OrderCreated', json: true }
+      });
+    });
+
+    it('should treat boolean flags as switches', () => {
+      const args = parseArgs(['replay', '--all', 'e1']);
+
+      expect(args.flags).toEqual({ all: true });
+      expect(args.positional).toEqual(['e1']);
+    });
+  });
+
+  describe('toFilter', () => {
+    it('should build a filter from flags', () => {
+      const filter = toFilter({
+        'event-type': 'OrderCreated',
+        error: 'timeout',
+        since: '2024-01-01T00:00:00Z',
+        until: '2024-01-31T00:00:00Z',
+        limit: '5'
+      });
+
+      expect(filter).toEqual({
+        eventType: 'OrderCreated',
+        errorContains: 'timeout',
+        failedAfter: new Date('2024-01-01T00:00:00Z'),
+        failedBefore: new Date('2024-01-31T00:00:00Z'),
+        limit: 5
+      });
+    });
+
+    it('should reject invalid dates and limits', () => {
+      expect(() => toFilter({ since: 'yesterday' })).toThrow('--since must be an ISO-8601 date');
+      expect(() => toFilter({ limit: '0' })).toThrow('--limit must be a positive integer');
+    });
+  });
+});
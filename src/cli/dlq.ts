@@ -0,0 +1,233 @@
+import { ConfigFactory } from '../shared/infrastructure/config/AppConfig';
+import { Logger } from '../shared/application/logging/logger';
+import { Database } from '../shared/infrastructure/database/Database';
+import { loadMessagingTopology } from '../shared/infrastructure/topology/loadMessagingTopology';
+import { PostgresDeadLetterRepository } from '../shared/infrastructure/retry/PostgresDeadLetterRepository';
+import {
+  DeadLetterEntry,
+  DeadLetterFilter,
+  DeadLetterQueueManager
+} from '../shared/infrastructure/retry/DeadLetterQueueManager';
+
+/**
+ * Dead Letter Queue CLI
+ *
+ * On-call tooling to inspect and replay dead-lettered events against the
+ * broker configured through the usual environment variables.
+ *
+ *   npm run dlq -- list [--event-type OrderCreated] [--error timeout] [--since ISO] [--until ISO] [--limit N] [--json]
+ *   npm run dlq -- show <eventId>
+ *   npm run dlq -- replay <eventId...>
+ *   npm run dlq -- replay --all [filters]
+ *   npm run dlq -- purge --yes [filters]
+ */
+
+const USAGE = `Usage: dlq <command> [options]
+
+Commands:
+  list                 List dead-lettered events
+  show <eventId>       Show a single dead-lettered event
+  replay <eventId...>  Re-publish events to the main exchange
+  replay --all         Re-publish every event matching the filters
+  purge --yes          Remove events matching the filters (all when no filter)
+
+Filters:
+  --event-type <type>  Only events of this type
+  --error <text>       Only failures whose error message contains text
+  --since <iso-date>   Only events that failed at or after this time
+  --until <iso-date>   Only events that failed at or before this time
+  --limit <n>          At most n events
+
+Options:
+  --json               Print raw JSON instead of a table`;
+
+export interface ParsedArgs {
+  command: string | undefined;
+  positional: string[];
+  flags: Record<string, string | boolean>;
+}
+
+export function parseArgs(argv: string[]): ParsedArgs {
+  const [command, ...rest] = argv;
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]!;
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const name = arg.slice(2);
+    const next = rest[i + 1];
+    if (next !== undefined && !next.startsWith('--') && !['all', 'yes', 'json'].includes(name)) {
+      flags[name] = next;
+      i++;
+    } else {
+      flags[name] = true;
+    }
+  }
+
+  return { command, positional, flags };
+}
+
+export function toFilter(flags: Record<string, string | boolean>): DeadLetterFilter {
+  const filter: DeadLetterFilter = {};
+
+  if (typeof flags['event-type'] === 'string') {
+    filter.eventType = flags['event-type'];
+  }
+  if (typeof flags['error'] === 'string') {
+    filter.errorContains = flags['error'];
+  }
+  if (typeof flags['since'] === 'string') {
+    filter.failedAfter = parseDate(flags['since'], '--since');
+  }
+  if (typeof flags['until'] === 'string') {
+    filter.failedBefore = parseDate(flags['until'], '--until');
+  }
+  if (typeof flags['limit'] === 'string') {
+    const limit = parseInt(flags['limit'], 10);
+    if (isNaN(limit) || limit < 1) {
+      throw new Error('--limit must be a positive integer');
+    }
+    filter.limit = limit;
+  }
+
+  return filter;
+}
+
+function parseDate(value: string, flag: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`${flag} must be an ISO-8601 date`);
+  }
+  return date;
+}
+
+function printEntries(entries: DeadLetterEntry[], json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+
+  if (entries.length === 0) {
+    console.log('No dead-lettered events found');
+    return;
+  }
+
+  console.table(entries.map(entry => ({
+    eventId: entry.originalEvent.eventId,
+    eventType: entry.originalEvent.eventType,
+    aggregateId: entry.originalEvent.aggregateId,
+    failedAt: entry.failureInfo.failedAt,
+    retries: entry.failureInfo.retryCount,
+    canRetry: entry.metadata.canRetry,
+    error: entry.failureInfo.errorMessage
+  })));
+}
+
+const COMMANDS = ['list', 'show', 'replay', 'purge'];
+
+async function run(
+  args: ParsedArgs,
+  filter: DeadLetterFilter,
+  manager: DeadLetterQueueManager
+): Promise<number> {
+  switch (args.command) {
+    case 'list': {
+      printEntries(await manager.list(filter), args.flags['json'] === true);
+      return 0;
+    }
+    case 'show': {
+      const eventId = args.positional[0];
+      if (!eventId) {
+        throw new Error('show requires an eventId');
+      }
+      const entry = await manager.getByEventId(eventId);
+      if (!entry) {
+        console.error(`Event ${eventId} not found in the dead letter queue`);
+        return 1;
+      }
+      console.log(JSON.stringify(entry, null, 2));
+      return 0;
+    }
+    case 'replay': {
+      let replayed: number;
+      if (args.flags['all'] === true) {
+        replayed = await manager.replayMatching(filter);
+      } else if (args.positional.length > 0) {
+        replayed = await manager.replay(args.positional);
+      } else {
+        throw new Error('replay requires eventIds or --all');
+      }
+      console.log(`Replayed ${replayed} event(s)`);
+      return 0;
+    }
+    case 'purge': {
+      if (args.flags['yes'] !== true) {
+        throw new Error('purge is destructive - pass --yes to confirm');
+      }
+      const hasFilter = Object.keys(filter).length > 0;
+      const removed = await manager.purge(hasFilter ? filter : undefined);
+      console.log(`Purged ${removed} event(s)`);
+      return 0;
+    }
+    default:
+      return 1;
+  }
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.command || !COMMANDS.includes(args.command)) {
+    console.log(USAGE);
+    process.exitCode = args.command ? 1 : 0;
+    return;
+  }
+
+  let filter: DeadLetterFilter;
+  try {
+    filter = toFilter(args.flags);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+    return;
+  }
+
+  const config = ConfigFactory.create();
+
+  // Keep stdout for command output; only surface problems on stderr
+  const logger: Logger = {
+    info: () => undefined,
+    debug: () => undefined,
+    warn: (message, meta) => console.error(`[WARN] ${message}`, meta ? meta : ''),
+    error: (message, meta) => console.error(`[ERROR] ${message}`, meta ? meta : '')
+  };
+
+  // Replays and purges are also recorded in the dead letter history table
+  const database = new Database(config.database, logger);
+  const manager = new DeadLetterQueueManager(
+    logger,
+    config.dlq,
+    config.rabbitmq,
+    new PostgresDeadLetterRepository(database),
+    loadMessagingTopology(config)
+  );
+
+  try {
+    await manager.connect();
+    process.exitCode = await run(args, filter, manager);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await manager.disconnect().catch(() => undefined);
+    await database.disconnect().catch(() => undefined);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -1,8 +1,8 @@
 import { CancelOrderUseCase } from '../CancelOrderUseCase';
 import { CancelOrderDTO } from '../CancelOrderDTO';
 import { IOrderRepository } from '@order/domain/repositories/IOrderRepository';
-import { IOrderEventPublisher } from '@order/domain/repositories/IOrderEventPublisher';
 import { Logger } from '@shared/application/logging/logger';
+import { DomainEvent } from '@shared/domain/events/DomainEvent';
 import { Order } from '@order/domain/entities/Order';
 import { Money } from '@order/domain/value-objects/Money';
 import { Address } from '@order/domain/value-objects/Address';
@@ -12,7 +12,6 @@ import { OrderCancelledEvent } from '@order/domain/events/OrderCancelledEvent';
 describe('CancelOrderUseCase', () => {
   let useCase: CancelOrderUseCase;
   let mockOrderRepository: jest.Mocked<IOrderRepository>;
-  let mockOrderEventPublisher: jest.Mocked<IOrderEventPublisher>;
   let mockLogger: jest.Mocked<Logger>;
 
   const cancelOrderDTO: CancelOrderDTO = {
@@ -62,10 +61,6 @@ describe('CancelOrderUseCase', () => {
       delete: jest.fn()
     };
 
-    mockOrderEventPublisher = {
-      publish: jest.fn()
-    };
-
     mockLogger = {
       info: jest.fn(),
       error: jest.fn(),
@@ -75,7 +70,6 @@ describe('CancelOrderUseCase', () => {
 
     useCase = new CancelOrderUseCase(
       mockOrderRepository,
-      mockOrderEventPublisher,
       mockLogger
     );
   });
@@ -86,7 +80,6 @@ describe('CancelOrderUseCase', () => {
       const mockOrder = createMockOrder();
       mockOrderRepository.findById.mockResolvedValue(mockOrder);
       mockOrderRepository.update.mockResolvedValue();
-      mockOrderEventPublisher.publish.mockResolvedValue();
 
       // Act
       const result = await useCase.execute(cancelOrderDTO);
@@ -95,9 +88,11 @@ describe('CancelOrderUseCase', () => {
       expect(result.status).toBe('cancelled');
       expect(mockOrderRepository.findById).toHaveBeenCalledWith('order-123');
       expect(mockOrderRepository.update).toHaveBeenCalledTimes(1);
-      expect(mockOrderEventPublisher.publish).toHaveBeenCalledTimes(1);
       expect(mockLogger.info).toHaveBeenCalledWith('Cancelling order', { orderId: 'order-123' });
-      expect(mockLogger.info).toHaveBeenCalledWith('Order cancelled successfully', { orderId: 'order-123' });
+      expect(mockLogger.info).toHaveBeenCalledWith('Order cancelled successfully', {
+        orderId: 'order-123',
+        events: ['OrderCancelled']
+      });
     });
 
     it('should throw error when order not found', async () => {
@@ -127,36 +122,39 @@ describe('CancelOrderUseCase', () => {
       });
     });
 
-    it('should handle event publisher error', async () => {
-      // Arrange
-      const mockOrder = createMockOrder();
-      mockOrderRepository.findById.mockResolvedValue(mockOrder);
-      mockOrderRepository.update.mockResolvedValue();
-      const publishError = new Error('Event publishing failed');
-      mockOrderEventPublisher.publish.mockRejectedValue(publishError);
 
-      // Act & Assert
-      await expect(useCase.execute(cancelOrderDTO)).rejects.toThrow('Event publishing failed');
-      expect(mockLogger.error).toHaveBeenCalledWith('Error cancelling order', { 
-        error: publishError, 
-        dto: cancelOrderDTO 
+    it('should store the cancelled event with the order and then drain it', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(createMockOrder());
+      let storedOrder: Order | undefined;
+      let storedEvents: readonly DomainEvent[] = [];
+      mockOrderRepository.update.mockImplementation(async order => {
+        storedOrder = order;
+        storedEvents = order.domainEvents;
       });
+
+      // Act
+      await useCase.execute(cancelOrderDTO);
+
+      // Assert
+      expect(storedEvents).toEqual([expect.any(OrderCancelledEvent)]);
+      expect(storedOrder?.domainEvents).toHaveLength(0);
     });
 
-    it('should publish order cancelled event', async () => {
+    it('should keep the events pending when the order could not be stored', async () => {
       // Arrange
-      const mockOrder = createMockOrder();
-      mockOrderRepository.findById.mockResolvedValue(mockOrder);
-      mockOrderRepository.update.mockResolvedValue();
-      mockOrderEventPublisher.publish.mockResolvedValue();
+      mockOrderRepository.findById.mockResolvedValue(createMockOrder());
+      let storedOrder: Order | undefined;
+      mockOrderRepository.update.mockImplementation(async order => {
+        storedOrder = order;
+        throw new Error('Database unavailable');
+      });
 
       // Act
-      await useCase.execute(cancelOrderDTO);
+      await expect(useCase.execute(cancelOrderDTO)).rejects.toThrow('Database unavailable');
 
       // Assert
-      expect(mockOrderEventPublisher.publish).toHaveBeenCalledWith(
-        expect.any(OrderCancelledEvent)
-      );
+      expect(storedOrder?.domainEvents).toEqual([expect.any(OrderCancelledEvent)]);
     });
   });
 }); 
\ No newline at end of file
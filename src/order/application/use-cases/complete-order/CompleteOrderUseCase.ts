@@ -1,13 +1,12 @@
 import { IOrderRepository } from '@order/domain/repositories/IOrderRepository';
-import { IOrderEventPublisher } from '@order/domain/repositories/IOrderEventPublisher';
 import { CompleteOrderDTO } from './CompleteOrderDTO';
 import { OrderResponseDTO } from '@order/application/use-cases/create-order/OrderResponseDTO';
 import { Logger } from '@shared/application/logging/logger';
+import { NotFoundError } from '@shared/domain/errors/NotFoundError';
 
 export class CompleteOrderUseCase {
   constructor(
     private readonly orderRepository: IOrderRepository,
-    private readonly orderEventPublisher: IOrderEventPublisher,
     private readonly logger: Logger
   ) {}
 
@@ -18,21 +17,22 @@ export class CompleteOrderUseCase {
       // Find order
       const order = await this.orderRepository.findById(dto.orderId);
       if (!order) {
-        throw new Error(`Order not found: ${dto.orderId}`);
+        throw new NotFoundError(`Order not found: ${dto.orderId}`);
       }
 
       // Complete order
       order.complete();
 
-      // Update order
+      // Update order (its events go to the outbox in the same transaction)
       await this.orderRepository.update(order);
 
-      // Publish events
-      for (const event of order.events) {
-        await this.orderEventPublisher.publish(event);
-      }
+      // Drain the stored events so a later save does not store them again
+      const events = order.pullDomainEvents();
 
-      this.logger.info('Order completed successfully', { orderId: order.id });
+      this.logger.info('Order completed successfully', {
+        orderId: order.id,
+        events: events.map(event => event.eventType)
+      });
 
       // Return response
       return {
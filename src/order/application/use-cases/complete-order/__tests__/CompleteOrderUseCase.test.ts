@@ -1,8 +1,8 @@
 import { CompleteOrderUseCase } from '../CompleteOrderUseCase';
 import { CompleteOrderDTO } from '../CompleteOrderDTO';
 import { IOrderRepository } from '@order/domain/repositories/IOrderRepository';
-import { IOrderEventPublisher } from '@order/domain/repositories/IOrderEventPublisher';
 import { Logger } from '@shared/application/logging/logger';
+import { DomainEvent } from '@shared/domain/events/DomainEvent';
 import { Order } from '@order/domain/entities/Order';
 import { Money } from '@order/domain/value-objects/Money';
 import { Address } from '@order/domain/value-objects/Address';
@@ -12,7 +12,6 @@ import { OrderCompletedEvent } from '@order/domain/events/OrderCompletedEvent';
 describe('CompleteOrderUseCase', () => {
   let useCase: CompleteOrderUseCase;
   let mockOrderRepository: jest.Mocked<IOrderRepository>;
-  let mockOrderEventPublisher: jest.Mocked<IOrderEventPublisher>;
   let mockLogger: jest.Mocked<Logger>;
 
   const completeOrderDTO: CompleteOrderDTO = {
@@ -61,10 +60,6 @@ describe('CompleteOrderUseCase', () => {
       delete: jest.fn()
     };
 
-    mockOrderEventPublisher = {
-      publish: jest.fn()
-    };
-
     mockLogger = {
       info: jest.fn(),
       error: jest.fn(),
@@ -74,7 +69,6 @@ describe('CompleteOrderUseCase', () => {
 
     useCase = new CompleteOrderUseCase(
       mockOrderRepository,
-      mockOrderEventPublisher,
       mockLogger
     );
   });
@@ -85,7 +79,6 @@ describe('CompleteOrderUseCase', () => {
       const mockOrder = createMockOrder();
       mockOrderRepository.findById.mockResolvedValue(mockOrder);
       mockOrderRepository.update.mockResolvedValue();
-      mockOrderEventPublisher.publish.mockResolvedValue();
 
       // Act
       const result = await useCase.execute(completeOrderDTO);
@@ -94,9 +87,11 @@ describe('CompleteOrderUseCase', () => {
       expect(result.status).toBe('completed');
       expect(mockOrderRepository.findById).toHaveBeenCalledWith('order-123');
       expect(mockOrderRepository.update).toHaveBeenCalledTimes(1);
-      expect(mockOrderEventPublisher.publish).toHaveBeenCalledTimes(1);
       expect(mockLogger.info).toHaveBeenCalledWith('Completing order', { orderId: 'order-123' });
-      expect(mockLogger.info).toHaveBeenCalledWith('Order completed successfully', { orderId: 'order-123' });
+      expect(mockLogger.info).toHaveBeenCalledWith('Order completed successfully', {
+        orderId: 'order-123',
+        events: ['OrderCompleted']
+      });
     });
 
     it('should throw error when order not found', async () => {
@@ -126,36 +121,39 @@ describe('CompleteOrderUseCase', () => {
       });
     });
 
-    it('should handle event publisher error', async () => {
-      // Arrange
-      const mockOrder = createMockOrder();
-      mockOrderRepository.findById.mockResolvedValue(mockOrder);
-      mockOrderRepository.update.mockResolvedValue();
-      const publishError = new Error('Event publishing failed');
-      mockOrderEventPublisher.publish.mockRejectedValue(publishError);
 
-      // Act & Assert
-      await expect(useCase.execute(completeOrderDTO)).rejects.toThrow('Event publishing failed');
-      expect(mockLogger.error).toHaveBeenCalledWith('Error completing order', { 
-        error: publishError, 
-        dto: completeOrderDTO 
+    it('should store the completed event with the order and then drain it', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(createMockOrder());
+      let storedOrder: Order | undefined;
+      let storedEvents: readonly DomainEvent[] = [];
+      mockOrderRepository.update.mockImplementation(async order => {
+        storedOrder = order;
+        storedEvents = order.domainEvents;
       });
+
+      // Act
+      await useCase.execute(completeOrderDTO);
+
+      // Assert
+      expect(storedEvents).toEqual([expect.any(OrderCompletedEvent)]);
+      expect(storedOrder?.domainEvents).toHaveLength(0);
     });
 
-    it('should publish order completed event', async () => {
+    it('should keep the events pending when the order could not be stored', async () => {
       // Arrange
-      const mockOrder = createMockOrder();
-      mockOrderRepository.findById.mockResolvedValue(mockOrder);
-      mockOrderRepository.update.mockResolvedValue();
-      mockOrderEventPublisher.publish.mockResolvedValue();
+      mockOrderRepository.findById.mockResolvedValue(createMockOrder());
+      let storedOrder: Order | undefined;
+      mockOrderRepository.update.mockImplementation(async order => {
+        storedOrder = order;
+        throw new Error('Database unavailable');
+      });
 
       // Act
-      await useCase.execute(completeOrderDTO);
+      await expect(useCase.execute(completeOrderDTO)).rejects.toThrow('Database unavailable');
 
       // Assert
-      expect(mockOrderEventPublisher.publish).toHaveBeenCalledWith(
-        expect.any(OrderCompletedEvent)
-      );
+      expect(storedOrder?.domainEvents).toEqual([expect.any(OrderCompletedEvent)]);
     });
   });
 }); 
\ No newline at end of file
@@ -1,5 +1,4 @@
 import { IOrderRepository } from '@order/domain/repositories/IOrderRepository';
-import { IOrderEventPublisher } from '@order/domain/repositories/IOrderEventPublisher';
 import { Order } from '@order/domain/entities/Order';
 import { Money } from '@order/domain/value-objects/Money';
 import { Address } from '@order/domain/value-objects/Address';
@@ -11,7 +10,6 @@ import { Logger } from '@shared/application/logging/logger';
 export class CreateOrderUseCase {
   constructor(
     private readonly orderRepository: IOrderRepository,
-    private readonly orderEventPublisher: IOrderEventPublisher,
     private readonly logger: Logger
   ) {}
 
@@ -46,15 +44,16 @@ export class CreateOrderUseCase {
       // Create order (triggers domain events)
       order.create();
 
-      // Save order
+      // Save order (its events go to the outbox in the same transaction)
       await this.orderRepository.save(order);
 
-      // Publish events
-      for (const event of order.events) {
-        await this.orderEventPublisher.publish(event);
-      }
+      // Drain the stored events so a later save does not store them again
+      const events = order.pullDomainEvents();
 
-      this.logger.info('Order created successfully', { orderId: order.id });
+      this.logger.info('Order created successfully', {
+        orderId: order.id,
+        events: events.map(event => event.eventType)
+      });
 
       // Return response
       return {
@@ -1,8 +1,8 @@
 import { CreateOrderUseCase } from '../CreateOrderUseCase';
 import { CreateOrderDTO } from '../CreateOrderDTO';
 import { IOrderRepository } from '@order/domain/repositories/IOrderRepository';
-import { IOrderEventPublisher } from '@order/domain/repositories/IOrderEventPublisher';
 import { Logger } from '@shared/application/logging/logger';
+import { DomainEvent } from '@shared/domain/events/DomainEvent';
 import { Order } from '@order/domain/entities/Order';
 import { OrderCreatedEvent } from '@order/domain/events/OrderCreatedEvent';
 import { Money } from '@order/domain/value-objects/Money';
@@ -12,7 +12,6 @@ import { OrderItem } from '@order/domain/value-objects/OrderItem';
 describe('CreateOrderUseCase', () => {
   let useCase: CreateOrderUseCase;
   let mockOrderRepository: jest.Mocked<IOrderRepository>;
-  let mockOrderEventPublisher: jest.Mocked<IOrderEventPublisher>;
   let mockLogger: jest.Mocked<Logger>;
 
   const validCreateOrderDTO: CreateOrderDTO = {
@@ -58,10 +57,6 @@ describe('CreateOrderUseCase', () => {
       delete: jest.fn()
     };
 
-    mockOrderEventPublisher = {
-      publish: jest.fn()
-    };
-
     mockLogger = {
       info: jest.fn(),
       error: jest.fn(),
@@ -71,7 +66,6 @@ describe('CreateOrderUseCase', () => {
 
     useCase = new CreateOrderUseCase(
       mockOrderRepository,
-      mockOrderEventPublisher,
       mockLogger
     );
   });
@@ -80,7 +74,6 @@ describe('CreateOrderUseCase', () => {
     it('should create order successfully', async () => {
       // Arrange
       mockOrderRepository.save.mockResolvedValue();
-      mockOrderEventPublisher.publish.mockResolvedValue();
 
       // Act
       const result = await useCase.execute(validCreateOrderDTO);
@@ -122,9 +115,11 @@ describe('CreateOrderUseCase', () => {
       });
 
       expect(mockOrderRepository.save).toHaveBeenCalledTimes(1);
-      expect(mockOrderEventPublisher.publish).toHaveBeenCalledTimes(1);
       expect(mockLogger.info).toHaveBeenCalledWith('Creating new order', { customerId: 'customer-456' });
-      expect(mockLogger.info).toHaveBeenCalledWith('Order created successfully', { orderId: 'order-123' });
+      expect(mockLogger.info).toHaveBeenCalledWith('Order created successfully', {
+        orderId: 'order-123',
+        events: ['OrderCreated']
+      });
     });
 
     it('should handle repository save error', async () => {
@@ -140,24 +135,10 @@ describe('CreateOrderUseCase', () => {
       });
     });
 
-    it('should handle event publisher error', async () => {
-      // Arrange
-      mockOrderRepository.save.mockResolvedValue();
-      const publishError = new Error('Event publishing failed');
-      mockOrderEventPublisher.publish.mockRejectedValue(publishError);
-
-      // Act & Assert
-      await expect(useCase.execute(validCreateOrderDTO)).rejects.toThrow('Event publishing failed');
-      expect(mockLogger.error).toHaveBeenCalledWith('Error creating order', { 
-        error: publishError, 
-        dto: validCreateOrderDTO 
-      });
-    });
 
     it('should create value objects correctly', async () => {
       // Arrange
       mockOrderRepository.save.mockResolvedValue();
-      mockOrderEventPublisher.publish.mockResolvedValue();
 
       // Act
       await useCase.execute(validCreateOrderDTO);
@@ -176,18 +157,36 @@ describe('CreateOrderUseCase', () => {
       );
     });
 
-    it('should publish all order events', async () => {
+    it('should store the created event with the order and then drain it', async () => {
       // Arrange
-      mockOrderRepository.save.mockResolvedValue();
-      mockOrderEventPublisher.publish.mockResolvedValue();
+      let storedOrder: Order | undefined;
+      let storedEvents: readonly DomainEvent[] = [];
+      mockOrderRepository.save.mockImplementation(async order => {
+        storedOrder = order;
+        storedEvents = order.domainEvents;
+      });
 
       // Act
       await useCase.execute(validCreateOrderDTO);
 
       // Assert
-      expect(mockOrderEventPublisher.publish).toHaveBeenCalledWith(
-        expect.any(OrderCreatedEvent)
-      );
+      expect(storedEvents).toEqual([expect.any(OrderCreatedEvent)]);
+      expect(storedOrder?.domainEvents).toHaveLength(0);
+    });
+
+    it('should keep the events pending when the order could not be stored', async () => {
+      // Arrange
+      let storedOrder: Order | undefined;
+      mockOrderRepository.save.mockImplementation(async order => {
+        storedOrder = order;
+        throw new Error('Database unavailable');
+      });
+
+      // Act
+      await expect(useCase.execute(validCreateOrderDTO)).rejects.toThrow('Database unavailable');
+
+      // Assert
+      expect(storedOrder?.domainEvents).toEqual([expect.any(OrderCreatedEvent)]);
     });
   });
 }); 
\ No newline at end of file
@@ -4,7 +4,8 @@ import { OrderItem } from '../value-objects/OrderItem';
 import { OrderCreatedEvent } from '../events/OrderCreatedEvent';
 import { OrderCancelledEvent } from '../events/OrderCancelledEvent';
 import { OrderCompletedEvent } from '../events/OrderCompletedEvent';
-import { DomainEvent } from '../../../shared/domain/events/DomainEvent';
+import { AggregateRoot } from '../../../shared/domain/entities/AggregateRoot';
+import { BusinessRuleError } from '../../../shared/domain/errors/BusinessRuleError';
 
 export type OrderStatus = 'pending' | 'completed' | 'cancelled';
 
@@ -18,7 +19,7 @@ export interface OrderProps {
   billingAddress: Address;
 }
 
-export class Order {
+export class Order extends AggregateRoot {
   private readonly _id: string;
   private readonly _customerId: string;
   private _status: OrderStatus;
@@ -26,9 +27,9 @@ export class Order {
   private readonly _items: OrderItem[];
   private readonly _shippingAddress: Address;
   private readonly _billingAddress: Address;
-  private _events: DomainEvent[] = [];
 
   constructor(props: OrderProps) {
+    super();
     this._id = props.id;
     this._customerId = props.customerId;
     this._status = props.status;
@@ -66,36 +67,32 @@ export class Order {
     return this._billingAddress;
   }
 
-  get events(): DomainEvent[] {
-    return this._events;
-  }
-
   create(): void {
     this._status = 'pending';
-    this._events.push(new OrderCreatedEvent(this));
+    this.addDomainEvent(OrderCreatedEvent.fromOrder(this));
   }
 
   cancel(reason: string): void {
     if (this._status === 'cancelled') {
-      throw new Error('Order is already cancelled');
+      throw new BusinessRuleError('Order is already cancelled');
     }
     if (this._status === 'completed') {
-      throw new Error('Cannot cancel a completed order');
+      throw new BusinessRuleError('Cannot cancel a completed order');
     }
 
     this._status = 'cancelled';
-    this._events.push(new OrderCancelledEvent(this, reason));
+    this.addDomainEvent(OrderCancelledEvent.fromOrder(this, reason));
   }
 
   complete(): void {
     if (this._status === 'completed') {
-      throw new Error('Order is already completed');
+      throw new BusinessRuleError('Order is already completed');
     }
     if (this._status === 'cancelled') {
-      throw new Error('Cannot complete a cancelled order');
+      throw new BusinessRuleError('Cannot complete a cancelled order');
     }
 
     this._status = 'completed';
-    this._events.push(new OrderCompletedEvent(this));
+    this.addDomainEvent(OrderCompletedEvent.fromOrder(this));
   }
 } 
\ No newline at end of file
@@ -57,8 +57,8 @@ describe('Order Entity', () => {
     expect(order.items).toEqual(items);
     expect(order.shippingAddress).toBe(shippingAddress);
     expect(order.billingAddress).toBe(billingAddress);
-    expect(order.events).toHaveLength(1);
-    expect(order.events[0]).toBeInstanceOf(OrderCreatedEvent);
+    expect(order.domainEvents).toHaveLength(1);
+    expect(order.domainEvents[0]).toBeInstanceOf(OrderCreatedEvent);
   });
 
   it('should cancel an order', () => {
@@ -75,8 +75,8 @@ describe('Order Entity', () => {
     order.cancel('Customer requested cancellation');
 
     expect(order.status).toBe('cancelled');
-    expect(order.events).toHaveLength(1);
-    expect(order.events[0]).toBeInstanceOf(OrderCancelledEvent);
+    expect(order.domainEvents).toHaveLength(1);
+    expect(order.domainEvents[0]).toBeInstanceOf(OrderCancelledEvent);
   });
 
   it('should complete an order', () => {
@@ -93,8 +93,8 @@ describe('Order Entity', () => {
     order.complete();
 
     expect(order.status).toBe('completed');
-    expect(order.events).toHaveLength(1);
-    expect(order.events[0]).toBeInstanceOf(OrderCompletedEvent);
+    expect(order.domainEvents).toHaveLength(1);
+    expect(order.domainEvents[0]).toBeInstanceOf(OrderCompletedEvent);
   });
 
   it('should not cancel a completed order', () => {
@@ -152,4 +152,41 @@ describe('Order Entity', () => {
 
     expect(() => order.complete()).toThrow('Order is already completed');
   });
-}); 
\ No newline at end of file
+
+  it('should hand out pending events once when they are pulled', () => {
+    const order = new Order({
+      id: orderId,
+      customerId,
+      status: 'pending',
+      total,
+      items,
+      shippingAddress,
+      billingAddress
+    });
+    order.create();
+    order.cancel('Customer requested cancellation');
+
+    const events = order.pullDomainEvents();
+
+    expect(events.map(event => event.eventType)).toEqual(['OrderCreated', 'OrderCancelled']);
+    expect(order.domainEvents).toHaveLength(0);
+    expect(order.pullDomainEvents()).toEqual([]);
+  });
+
+  it('should not expose its pending events for modification', () => {
+    const order = new Order({
+      id: orderId,
+      customerId,
+      status: 'pending',
+      total,
+      items,
+      shippingAddress,
+      billingAddress
+    });
+    order.create();
+
+    (order.domainEvents as unknown[]).length = 0;
+
+    expect(order.domainEvents).toHaveLength(1);
+  });
+});
@@ -1,17 +1,34 @@
-import { BaseDomainEvent } from '../../../shared/domain/events/DomainEvent';
+import { BaseDomainEvent, DomainEventMetadata } from '../../../shared/domain/events/DomainEvent';
 import { Order } from '../entities/Order';
 
-export class OrderCancelledEvent extends BaseDomainEvent {
-  constructor(order: Order, reason: string) {
+export interface OrderCancelledData {
+  orderId: string;
+  customerId: string;
+  reason?: string;
+  cancelledAt: string;
+}
+
+export class OrderCancelledEvent extends BaseDomainEvent<OrderCancelledData> {
+  /**
+   * @param metadata of an event that already happened, when rebuilding it
+   */
+  constructor(data: OrderCancelledData, metadata?: DomainEventMetadata) {
     super(
       'OrderCancelled',
-      order.id,
-      {
-        orderId: order.id,
-        customerId: order.customerId,
-        reason,
-        cancelledAt: new Date().toISOString()
-      }
+      data.orderId,
+      data,
+      metadata?.version,
+      metadata?.eventId,
+      metadata?.occurredOn
     );
   }
-} 
\ No newline at end of file
+
+  static fromOrder(order: Order, reason: string): OrderCancelledEvent {
+    return new OrderCancelledEvent({
+      orderId: order.id,
+      customerId: order.customerId,
+      reason,
+      cancelledAt: new Date().toISOString()
+    });
+  }
+}
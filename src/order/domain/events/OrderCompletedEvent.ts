@@ -1,17 +1,34 @@
-import { BaseDomainEvent } from '../../../shared/domain/events/DomainEvent';
+import { BaseDomainEvent, DomainEventMetadata } from '../../../shared/domain/events/DomainEvent';
 import { Order } from '../entities/Order';
 
-export class OrderCompletedEvent extends BaseDomainEvent {
-  constructor(order: Order) {
+export interface OrderCompletedData {
+  orderId: string;
+  customerId: string;
+  total: number;
+  completedAt: string;
+}
+
+export class OrderCompletedEvent extends BaseDomainEvent<OrderCompletedData> {
+  /**
+   * @param metadata of an event that already happened, when rebuilding it
+   */
+  constructor(data: OrderCompletedData, metadata?: DomainEventMetadata) {
     super(
       'OrderCompleted',
-      order.id,
-      {
-        orderId: order.id,
-        customerId: order.customerId,
-        total: order.total.getValue(),
-        completedAt: new Date().toISOString()
-      }
+      data.orderId,
+      data,
+      metadata?.version,
+      metadata?.eventId,
+      metadata?.occurredOn
     );
   }
-} 
\ No newline at end of file
+
+  static fromOrder(order: Order): OrderCompletedEvent {
+    return new OrderCompletedEvent({
+      orderId: order.id,
+      customerId: order.customerId,
+      total: order.total.getValue(),
+      completedAt: new Date().toISOString()
+    });
+  }
+}
@@ -1,21 +1,52 @@
-import { BaseDomainEvent } from '../../../shared/domain/events/DomainEvent';
+import { BaseDomainEvent, DomainEventMetadata } from '../../../shared/domain/events/DomainEvent';
 import { Order } from '../entities/Order';
 
-export class OrderCreatedEvent extends BaseDomainEvent {
-  constructor(order: Order) {
+export interface OrderCreatedItem {
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export interface OrderCreatedData {
+  orderId: string;
+  customerId: string;
+  total: number;
+  items: OrderCreatedItem[];
+}
+
+/**
+ * Version 2: items carry `unitPrice` and `totalPrice` (version 1 had a
+ * single `price`, the unit price)
+ */
+export class OrderCreatedEvent extends BaseDomainEvent<OrderCreatedData> {
+  static readonly VERSION = 2;
+
+  /**
+   * @param metadata of an event that already happened, when rebuilding it
+   */
+  constructor(data: OrderCreatedData, metadata?: DomainEventMetadata) {
     super(
       'OrderCreated',
-      order.id,
-      {
-        orderId: order.id,
-        customerId: order.customerId,
-        total: order.total.getValue(),
-        items: order.items.map(item => ({
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.unitPrice.getValue()
-        }))
-      }
+      data.orderId,
+      data,
+      metadata?.version ?? OrderCreatedEvent.VERSION,
+      metadata?.eventId,
+      metadata?.occurredOn
     );
   }
-} 
\ No newline at end of file
+
+  static fromOrder(order: Order): OrderCreatedEvent {
+    return new OrderCreatedEvent({
+      orderId: order.id,
+      customerId: order.customerId,
+      total: order.total.getValue(),
+      items: order.items.map(item => ({
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice.getValue(),
+        totalPrice: item.totalPrice.getValue()
+      }))
+    });
+  }
+}
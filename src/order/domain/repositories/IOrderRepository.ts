@@ -3,7 +3,15 @@ import { Order } from '../entities/Order';
 export interface IOrderRepository {
   findById(id: string): Promise<Order | null>;
   findByCustomerId(customerId: string): Promise<Order[]>;
+  /**
+   * Persists the order together with its pending domain events, atomically;
+   * the events are published once the order is stored. Callers pull the
+   * events after a successful save so they are not stored twice.
+   */
   save(order: Order): Promise<void>;
+  /**
+   * Persists the order's changes together with its pending domain events, atomically
+   */
   update(order: Order): Promise<void>;
   delete(id: string): Promise<void>;
 } 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { ValueObject } from '../../../shared/domain/value-objects/ValueObject';
+import { ValidationError } from '../../../shared/domain/errors/ValidationError';
 
 interface AddressProps {
   street: string;
@@ -20,32 +21,32 @@ export class Address extends ValueObject<AddressProps> {
   private validate(): void {
     const value = this.getValue();
     if (!value.street) {
-      throw new Error('Street is required');
+      throw new ValidationError('Street is required');
     }
     if (!value.number) {
-      throw new Error('Number is required');
+      throw new ValidationError('Number is required');
     }
     if (!value.neighborhood) {
-      throw new Error('Neighborhood is required');
+      throw new ValidationError('Neighborhood is required');
     }
     if (!value.city) {
-      throw new Error('City is required');
+      throw new ValidationError('City is required');
     }
     if (!value.state) {
-      throw new Error('State is required');
+      throw new ValidationError('State is required');
     }
     if (!value.country) {
-      throw new Error('Country is required');
+      throw new ValidationError('Country is required');
     }
     if (!value.zipCode) {
-      throw new Error('Zip code is required');
+      throw new ValidationError('Zip code is required');
     }
     // Validações adicionais
     if (value.street.length < 3) {
-      throw new Error('Street must be at least 3 characters long');
+      throw new ValidationError('Street must be at least 3 characters long');
     }
     if (value.zipCode.length < 5) {
-      throw new Error('Zip code must be at least 5 characters long');
+      throw new ValidationError('Zip code must be at least 5 characters long');
     }
   }
 
@@ -1,4 +1,5 @@
 import { ValueObject } from '../../../shared/domain/value-objects/ValueObject';
+import { ValidationError } from '../../../shared/domain/errors/ValidationError';
 
 export class Money extends ValueObject<number> {
   constructor(value: number) {
@@ -8,7 +9,7 @@ export class Money extends ValueObject<number> {
 
   private validate(): void {
     if (this.getValue() < 0) {
-      throw new Error('Money value cannot be negative');
+      throw new ValidationError('Money value cannot be negative');
     }
   }
 
@@ -1,5 +1,6 @@
 import { ValueObject } from '../../../shared/domain/value-objects/ValueObject';
 import { Money } from './Money';
+import { ValidationError } from '../../../shared/domain/errors/ValidationError';
 
 interface OrderItemProps {
   productId: string;
@@ -16,16 +17,16 @@ export class OrderItem extends ValueObject<OrderItemProps> {
 
   private validate(): void {
     if (!this.getValue().productId) {
-      throw new Error('Product ID is required');
+      throw new ValidationError('Product ID is required');
     }
     if (this.getValue().quantity <= 0) {
-      throw new Error('Quantity must be greater than zero');
+      throw new ValidationError('Quantity must be greater than zero');
     }
     if (!this.getValue().unitPrice) {
-      throw new Error('Unit price is required');
+      throw new ValidationError('Unit price is required');
     }
     if (!this.getValue().totalPrice) {
-      throw new Error('Total price is required');
+      throw new ValidationError('Total price is required');
     }
   }
 
@@ -4,13 +4,19 @@ import { OrderCreatedEvent } from '../../domain/events/OrderCreatedEvent';
 import { OrderCancelledEvent } from '../../domain/events/OrderCancelledEvent';
 import { OrderCompletedEvent } from '../../domain/events/OrderCompletedEvent';
 import { ProcessingStrategy } from '../../../shared/infrastructure/batch/BatchProcessor';
+import { CircuitBreakerRegistry } from '../../../shared/infrastructure/circuit-breaker/CircuitBreakerRegistry';
+
+/** Circuit guarding the payment provider (authorizations and refunds) */
+export const PAYMENT_CIRCUIT = 'payment';
 
 export class OrderProcessingStrategy implements ProcessingStrategy {
   private readonly logger: Logger;
+  private readonly circuitBreakers?: CircuitBreakerRegistry;
   private processedCount: number = 0;
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, circuitBreakers?: CircuitBreakerRegistry) {
     this.logger = logger;
+    this.circuitBreakers = circuitBreakers;
   }
 
   getStrategyName(): string {
@@ -28,22 +34,18 @@ export class OrderProcessingStrategy implements ProcessingStrategy {
     });
 
     try {
-      switch (event.eventType) {
-        case 'OrderCreated':
-          await this.handleOrderCreated(event as OrderCreatedEvent);
-          break;
-        case 'OrderCancelled':
-          await this.handleOrderCancelled(event as OrderCancelledEvent);
-          break;
-        case 'OrderCompleted':
-          await this.handleOrderCompleted(event as OrderCompletedEvent);
-          break;
-        default:
-          this.logger.warn(`Unhandled event type in OrderProcessingStrategy`, {
-            eventType: event.eventType,
-            eventId: event.eventId.value
-          });
-          return;
+      if (event instanceof OrderCreatedEvent) {
+        await this.handleOrderCreated(event);
+      } else if (event instanceof OrderCancelledEvent) {
+        await this.handleOrderCancelled(event);
+      } else if (event instanceof OrderCompletedEvent) {
+        await this.handleOrderCompleted(event);
+      } else {
+        this.logger.warn(`Unhandled event type in OrderProcessingStrategy`, {
+          eventType: event.eventType,
+          eventId: event.eventId.value
+        });
+        return;
       }
 
       this.processedCount++;
@@ -74,40 +76,11 @@ export class OrderProcessingStrategy implements ProcessingStrategy {
       orderId: event.data.orderId,
       customerId: event.data.customerId,
       total: event.data.total,
-      itemCount: event.data.items?.length || 0
+      itemCount: event.data.items.length
     });
 
-    // Step 1: Validate order data
+    // Step 1: Validate order data (the payload already matched its schema on receipt)
     this.logger.info(`🔍 Step 1/5: Validating order data...`);
-    
-
-    
-    // Check for invalid data that should trigger retry and DLQ
-    if (!event.data.customerId || event.data.customerId === null) {
-      this.logger.error(`❌ VALIDATION FAILED: customerId is required`, {
-        customerId: event.data.customerId,
-        type: typeof event.data.customerId
-      });
-      throw new Error('Invalid order: customerId is required');
-    }
-    
-    if (typeof event.data.total !== 'number' || event.data.total <= 0) {
-      this.logger.error(`❌ VALIDATION FAILED: total must be a positive number`, {
-        total: event.data.total,
-        type: typeof event.data.total
-      });
-      throw new Error('Invalid order: total must be a positive number');
-    }
-    
-    if (!Array.isArray(event.data.items) || event.data.items.length === 0) {
-      this.logger.error(`❌ VALIDATION FAILED: items array is required and cannot be empty`, {
-        items: event.data.items,
-        isArray: Array.isArray(event.data.items),
-        length: event.data.items?.length
-      });
-      throw new Error('Invalid order: items array is required and cannot be empty');
-    }
-    
     await this.simulateProcessing('order validation', 800);
 
     // Step 2: Check inventory
@@ -120,7 +93,7 @@ export class OrderProcessingStrategy implements ProcessingStrategy {
 
     // Step 4: Process payment authorization
     this.logger.info(`💳 Step 4/5: Processing payment authorization...`);
-    await this.simulateProcessing('payment authorization', 1500);
+    await this.callDependency(PAYMENT_CIRCUIT, () => this.simulateProcessing('payment authorization', 1500));
 
     // Step 5: Send confirmation
     this.logger.info(`📧 Step 5/5: Sending order confirmation...`);
@@ -148,7 +121,7 @@ export class OrderProcessingStrategy implements ProcessingStrategy {
 
     // Step 3: Process refund
     this.logger.info(`💰 Step 3/4: Processing refund...`);
-    await this.simulateProcessing('refund processing', 1200);
+    await this.callDependency(PAYMENT_CIRCUIT, () => this.simulateProcessing('refund processing', 1200));
 
     // Step 4: Send notification
     this.logger.info(`📧 Step 4/4: Sending cancellation notification...`);
@@ -188,6 +161,19 @@ export class OrderProcessingStrategy implements ProcessingStrategy {
     });
   }
 
+  /**
+   * Calls a downstream dependency through its circuit breaker, if any; an
+   * open circuit fails the event with a CircuitOpenError so it is parked
+   */
+  private async callDependency(circuit: string, call: () => Promise<void>): Promise<void> {
+    if (!this.circuitBreakers) {
+      await call();
+      return;
+    }
+
+    await this.circuitBreakers.get(circuit).execute(call);
+  }
+
   private async simulateProcessing(step: string, delay: number): Promise<void> {
     await new Promise(resolve => setTimeout(resolve, delay));
   }
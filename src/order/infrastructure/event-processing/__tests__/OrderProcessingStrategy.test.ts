@@ -1,4 +1,6 @@
 import { OrderProcessingStrategy } from '../OrderProcessingStrategy';
+import { CircuitBreakerRegistry } from '../../../../shared/infrastructure/circuit-breaker/CircuitBreakerRegistry';
+import { CircuitOpenError } from '../../../../shared/infrastructure/circuit-breaker/CircuitOpenError';
 import { OrderCreatedEvent } from '../../../domain/events/OrderCreatedEvent';
 import { OrderCancelledEvent } from '../../../domain/events/OrderCancelledEvent';
 import { OrderCompletedEvent } from '../../../domain/events/OrderCompletedEvent';
@@ -84,9 +86,9 @@ describe('OrderProcessingStrategy', () => {
     });
 
     // Create events
-    orderCreatedEvent = new OrderCreatedEvent(sampleOrder);
-    orderCancelledEvent = new OrderCancelledEvent(sampleOrder, 'Customer request');
-    orderCompletedEvent = new OrderCompletedEvent(sampleOrder);
+    orderCreatedEvent = OrderCreatedEvent.fromOrder(sampleOrder);
+    orderCancelledEvent = OrderCancelledEvent.fromOrder(sampleOrder, 'Customer request');
+    orderCompletedEvent = OrderCompletedEvent.fromOrder(sampleOrder);
   });
 
   afterEach(() => {
@@ -122,12 +124,13 @@ describe('OrderProcessingStrategy', () => {
 
     it('should not increment count after failed processing', async () => {
       // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      // Override data to make it invalid
-      (invalidEvent as any).data = { ...invalidEvent.data, customerId: null };
+      const failingCircuits = {
+        get: () => ({ execute: () => Promise.reject(new Error('Payment provider unavailable')) })
+      } as unknown as CircuitBreakerRegistry;
+      strategy = new OrderProcessingStrategy(mockLogger, failingCircuits);
 
       // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow();
+      await expect(strategy.process(orderCreatedEvent)).rejects.toThrow();
       expect(strategy.getTotalProcessed()).toBe(0);
     });
   });
@@ -228,18 +231,19 @@ describe('OrderProcessingStrategy', () => {
 
     it('should log error and rethrow when processing fails', async () => {
       // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      // Override data to make it invalid
-      (invalidEvent as any).data = { ...invalidEvent.data, customerId: null };
+      const failingCircuits = {
+        get: () => ({ execute: () => Promise.reject(new Error('Payment provider unavailable')) })
+      } as unknown as CircuitBreakerRegistry;
+      strategy = new OrderProcessingStrategy(mockLogger, failingCircuits);
 
       // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow('Invalid order: customerId is required');
+      await expect(strategy.process(orderCreatedEvent)).rejects.toThrow('Payment provider unavailable');
 
       expect(mockLogger.error).toHaveBeenCalledWith(
         expect.stringContaining('Failed to process order event'),
         expect.objectContaining({
           eventType: 'OrderCreated',
-          error: 'Invalid order: customerId is required'
+          error: 'Payment provider unavailable'
         })
       );
 
@@ -276,101 +280,6 @@ describe('OrderProcessingStrategy', () => {
         })
       );
     });
-
-    it('should throw error when customerId is null', async () => {
-      // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      (invalidEvent as any).data = { ...invalidEvent.data, customerId: null };
-
-      // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow('Invalid order: customerId is required');
-
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        expect.stringContaining('VALIDATION FAILED: customerId is required'),
-        expect.objectContaining({
-          customerId: null
-        })
-      );
-    });
-
-    it('should throw error when customerId is empty string', async () => {
-      // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      (invalidEvent as any).data = { ...invalidEvent.data, customerId: '' };
-
-      // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow('Invalid order: customerId is required');
-    });
-
-    it('should throw error when total is not a number', async () => {
-      // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      (invalidEvent as any).data = { ...invalidEvent.data, total: 'invalid' };
-
-      // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow('Invalid order: total must be a positive number');
-
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        expect.stringContaining('VALIDATION FAILED: total must be a positive number'),
-        expect.objectContaining({
-          total: 'invalid',
-          type: 'string'
-        })
-      );
-    });
-
-    it('should throw error when total is zero', async () => {
-      // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      (invalidEvent as any).data = { ...invalidEvent.data, total: 0 };
-
-      // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow('Invalid order: total must be a positive number');
-    });
-
-    it('should throw error when total is negative', async () => {
-      // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      (invalidEvent as any).data = { ...invalidEvent.data, total: -100 };
-
-      // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow('Invalid order: total must be a positive number');
-    });
-
-    it('should throw error when items is not an array', async () => {
-      // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      (invalidEvent as any).data = { ...invalidEvent.data, items: 'invalid' };
-
-      // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow('Invalid order: items array is required and cannot be empty');
-
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        expect.stringContaining('VALIDATION FAILED: items array is required and cannot be empty'),
-        expect.objectContaining({
-          items: 'invalid',
-          isArray: false
-        })
-      );
-    });
-
-    it('should throw error when items array is empty', async () => {
-      // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      (invalidEvent as any).data = { ...invalidEvent.data, items: [] };
-
-      // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow('Invalid order: items array is required and cannot be empty');
-    });
-
-    it('should throw error when items is null', async () => {
-      // Arrange
-      const invalidEvent = new OrderCreatedEvent(sampleOrder);
-      (invalidEvent as any).data = { ...invalidEvent.data, items: null };
-
-      // Act & Assert
-      await expect(strategy.process(invalidEvent)).rejects.toThrow('Invalid order: items array is required and cannot be empty');
-    });
   });
 
   describe('handleOrderCancelled', () => {
@@ -403,7 +312,7 @@ describe('OrderProcessingStrategy', () => {
 
     it('should handle OrderCancelled event without reason', async () => {
       // Arrange
-      const eventWithoutReason = new OrderCancelledEvent(sampleOrder, '');
+      const eventWithoutReason = OrderCancelledEvent.fromOrder(sampleOrder, '');
       (eventWithoutReason as any).data = { ...eventWithoutReason.data, reason: undefined };
 
       // Act
@@ -477,4 +386,40 @@ describe('OrderProcessingStrategy', () => {
       }
     });
   });
+
+  describe('circuit breakers', () => {
+    let circuitBreakers: CircuitBreakerRegistry;
+
+    beforeEach(() => {
+      circuitBreakers = new CircuitBreakerRegistry(mockLogger, {
+        failureRateThreshold: 1,
+        minimumCalls: 1,
+        windowMs: 60000,
+        openDurationMs: 30000,
+        halfOpenMaxCalls: 1
+      });
+      strategy = new OrderProcessingStrategy(mockLogger, circuitBreakers);
+    });
+
+    it('should authorize payments through the payment circuit', async () => {
+      // Act
+      await strategy.process(orderCreatedEvent);
+
+      // Assert
+      expect(circuitBreakers.get('payment').getState()).toBe('closed');
+      expect(circuitBreakers.getAll()).toHaveLength(1);
+    });
+
+    it('should fail with a CircuitOpenError while the payment circuit is open', async () => {
+      // Arrange
+      await circuitBreakers.get('payment')
+        .execute(async () => { throw new Error('Payment provider unavailable'); })
+        .catch(() => undefined);
+
+      // Act & Assert
+      await expect(strategy.process(orderCreatedEvent)).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(strategy.process(orderCancelledEvent)).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(strategy.process(orderCompletedEvent)).resolves.toBeUndefined();
+    });
+  });
 }); 
\ No newline at end of file
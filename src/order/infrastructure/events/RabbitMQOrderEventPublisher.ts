@@ -1,43 +1,45 @@
 import { DomainEvent } from '../../../shared/domain/events/DomainEvent';
 import { IOrderEventPublisher } from '../../domain/repositories/IOrderEventPublisher';
-import { ConfigFactory } from '../../../shared/infrastructure/config/AppConfig';
 import { Logger } from '../../../shared/application/logging/logger';
-import * as amqp from 'amqplib';
+import { RabbitMQConnection } from '../../../shared/infrastructure/messaging/RabbitMQConnection';
+import { RabbitMQConfig } from '../../../shared/infrastructure/messaging/RabbitMQClient';
+import { MessagingTopology } from '../../../shared/infrastructure/messaging/MessagingTopology';
+import { EventSerializer } from '../../../shared/infrastructure/serialization/EventSerializer';
 
+/**
+ * Publishes order events to the same topology the event processor consumes
+ * from, so events raised by the order use cases are processed too.
+ */
 export class RabbitMQOrderEventPublisher implements IOrderEventPublisher {
-  private channel: any = null;
-  private connection: any = null;
-  private readonly config = ConfigFactory.create();
+  private readonly connection: RabbitMQConnection;
+  private readonly topology: MessagingTopology;
+  private readonly serializer: EventSerializer;
   private readonly logger: Logger;
+  private initialized: boolean = false;
 
-  constructor(logger: Logger) {
+  constructor(
+    logger: Logger,
+    config: RabbitMQConfig,
+    topology: MessagingTopology = new MessagingTopology(config),
+    serializer: EventSerializer = new EventSerializer()
+  ) {
     this.logger = logger;
+    this.topology = topology;
+    this.serializer = serializer;
+    this.connection = new RabbitMQConnection(
+      'Order event publisher',
+      config.url,
+      logger,
+      config.reconnect,
+      config.publish
+    );
+    this.connection.addSetup(channel => this.topology.assert(channel));
   }
 
   async initialize(): Promise<void> {
     try {
-      this.connection = await amqp.connect(this.config.rabbitmq.url);
-      if (!this.connection) {
-        throw new Error('Failed to establish RabbitMQ connection');
-      }
-      
-      this.channel = await this.connection.createChannel();
-      if (!this.channel) {
-        throw new Error('Failed to create RabbitMQ channel');
-      }
-      
-      // Declare exchanges
-      await this.channel.assertExchange('order.events', 'topic', { durable: true });
-      
-      // Declare queues
-      await this.channel.assertQueue('order.created', { durable: true });
-      await this.channel.assertQueue('order.cancelled', { durable: true });
-      await this.channel.assertQueue('order.completed', { durable: true });
-      
-      // Bind queues to exchange
-      await this.channel.bindQueue('order.created', 'order.events', 'order.created');
-      await this.channel.bindQueue('order.cancelled', 'order.events', 'order.cancelled');
-      await this.channel.bindQueue('order.completed', 'order.events', 'order.completed');
+      await this.connection.connect();
+      this.initialized = true;
       
       this.logger.info('RabbitMQ Order Event Publisher initialized successfully');
     } catch (error) {
@@ -46,31 +48,25 @@ export class RabbitMQOrderEventPublisher implements IOrderEventPublisher {
     }
   }
 
+  isConnected(): boolean {
+    return this.connection.isConnected();
+  }
+
   async publish(event: DomainEvent): Promise<void> {
-    if (!this.channel) {
+    if (!this.initialized) {
       await this.initialize();
     }
 
-    if (!this.channel) {
-      throw new Error('Failed to initialize RabbitMQ channel');
-    }
-
     try {
-      const routingKey = this.getRoutingKey(event);
-      const message = JSON.stringify({
-        eventId: event.eventId.value,
-        eventType: event.eventType,
-        aggregateId: event.aggregateId,
-        occurredOn: event.occurredOn,
-        version: event.version,
-        data: event.data
-      });
+      const routingKey = this.topology.routingKeyFor(event.eventType);
+      const message = JSON.stringify(this.serializer.serialize(event));
 
-      await this.channel.publish(
-        'order.events',
+      // Resolves on the broker confirm; buffered while the connection is recovering
+      await this.connection.publish(
+        this.topology.getExchange(),
         routingKey,
         Buffer.from(message),
-        { persistent: true }
+        { persistent: true, mandatory: true }
       );
 
       this.logger.info(`Published event: ${event.eventType}`, {
@@ -89,27 +85,12 @@ export class RabbitMQOrderEventPublisher implements IOrderEventPublisher {
 
   async disconnect(): Promise<void> {
     try {
-      if (this.channel) {
-        await this.channel.close();
-        this.channel = null;
-      }
-      if (this.connection) {
-        await this.connection.close();
-        this.connection = null;
-      }
+      await this.connection.close();
+      this.initialized = false;
       this.logger.info('RabbitMQ Order Event Publisher disconnected');
     } catch (error) {
       this.logger.error('Error disconnecting RabbitMQ Order Event Publisher:', error);
       throw error;
     }
   }
-
-  private getRoutingKey(event: DomainEvent): string {
-    const eventName = event.eventType
-      .replace(/([A-Z])/g, '.$1')
-      .toLowerCase()
-      .substring(1);
-    
-    return `order.${eventName}`;
-  }
 } 
\ No newline at end of file
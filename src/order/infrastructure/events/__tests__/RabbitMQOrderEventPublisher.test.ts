@@ -14,17 +14,6 @@ import * as amqp from 'amqplib';
 jest.mock('amqplib');
 const mockAmqp = amqp as jest.Mocked<typeof amqp>;
 
-// Mock ConfigFactory
-jest.mock('../../../../shared/infrastructure/config/AppConfig', () => ({
-  ConfigFactory: {
-    create: jest.fn(() => ({
-      rabbitmq: {
-        url: 'amqp://localhost:5672'
-      }
-    }))
-  }
-}));
-
 describe('RabbitMQOrderEventPublisher', () => {
   let publisher: RabbitMQOrderEventPublisher;
   let mockLogger: jest.Mocked<Logger>;
@@ -33,6 +22,13 @@ describe('RabbitMQOrderEventPublisher', () => {
   let sampleEvent: DomainEvent;
   let sampleOrder: Order;
 
+  const rabbitmqConfig = {
+    url: 'amqp://localhost:5672',
+    exchange: 'orders_exchange',
+    queue: 'order_events',
+    routingKey: 'order.*'
+  };
+
   beforeEach(() => {
     // Reset all mocks
     jest.clearAllMocks();
@@ -50,19 +46,25 @@ describe('RabbitMQOrderEventPublisher', () => {
       assertExchange: jest.fn().mockResolvedValue({}),
       assertQueue: jest.fn().mockResolvedValue({}),
       bindQueue: jest.fn().mockResolvedValue({}),
-      publish: jest.fn().mockResolvedValue(true),
-      close: jest.fn().mockResolvedValue({})
+      // Confirm channel: the broker ack arrives through the callback
+      publish: jest.fn((_exchange, _routingKey, _content, _options, onConfirm) => {
+        onConfirm(null);
+        return true;
+      }),
+      close: jest.fn().mockResolvedValue({}),
+      on: jest.fn()
     };
 
     mockConnection = {
-      createChannel: jest.fn().mockResolvedValue(mockChannel),
-      close: jest.fn().mockResolvedValue({})
+      createConfirmChannel: jest.fn().mockResolvedValue(mockChannel),
+      close: jest.fn().mockResolvedValue({}),
+      on: jest.fn()
     };
 
     mockAmqp.connect.mockResolvedValue(mockConnection as any);
 
     // Create publisher instance
-    publisher = new RabbitMQOrderEventPublisher(mockLogger);
+    publisher = new RabbitMQOrderEventPublisher(mockLogger, rabbitmqConfig);
 
     // Create sample order and event
     const shippingAddress = new Address({
@@ -104,7 +106,7 @@ describe('RabbitMQOrderEventPublisher', () => {
       billingAddress
     });
 
-    sampleEvent = new OrderCreatedEvent(sampleOrder);
+    sampleEvent = OrderCreatedEvent.fromOrder(sampleOrder);
   });
 
   describe('initialize', () => {
@@ -114,14 +116,10 @@ describe('RabbitMQOrderEventPublisher', () => {
 
       // Assert
       expect(mockAmqp.connect).toHaveBeenCalledWith('amqp://localhost:5672');
-      expect(mockConnection.createChannel).toHaveBeenCalled();
-      expect(mockChannel.assertExchange).toHaveBeenCalledWith('order.events', 'topic', { durable: true });
-      expect(mockChannel.assertQueue).toHaveBeenCalledWith('order.created', { durable: true });
-      expect(mockChannel.assertQueue).toHaveBeenCalledWith('order.cancelled', { durable: true });
-      expect(mockChannel.assertQueue).toHaveBeenCalledWith('order.completed', { durable: true });
-      expect(mockChannel.bindQueue).toHaveBeenCalledWith('order.created', 'order.events', 'order.created');
-      expect(mockChannel.bindQueue).toHaveBeenCalledWith('order.cancelled', 'order.events', 'order.cancelled');
-      expect(mockChannel.bindQueue).toHaveBeenCalledWith('order.completed', 'order.events', 'order.completed');
+      expect(mockConnection.createConfirmChannel).toHaveBeenCalled();
+      expect(mockChannel.assertExchange).toHaveBeenCalledWith('orders_exchange', 'topic', { durable: true });
+      expect(mockChannel.assertQueue).toHaveBeenCalledWith('order_events', { durable: true });
+      expect(mockChannel.bindQueue).toHaveBeenCalledWith('order_events', 'orders_exchange', 'order.*');
       expect(mockLogger.info).toHaveBeenCalledWith('RabbitMQ Order Event Publisher initialized successfully');
     });
 
@@ -146,7 +144,7 @@ describe('RabbitMQOrderEventPublisher', () => {
 
     it('should throw error when channel creation fails', async () => {
       // Arrange
-      mockConnection.createChannel.mockResolvedValue(null);
+      mockConnection.createConfirmChannel.mockResolvedValue(null);
 
       // Act & Assert
       await expect(publisher.initialize()).rejects.toThrow('Failed to create RabbitMQ channel');
@@ -156,7 +154,7 @@ describe('RabbitMQOrderEventPublisher', () => {
     it('should throw error when channel creation throws', async () => {
       // Arrange
       const channelError = new Error('Channel creation failed');
-      mockConnection.createChannel.mockRejectedValue(channelError);
+      mockConnection.createConfirmChannel.mockRejectedValue(channelError);
 
       // Act & Assert
       await expect(publisher.initialize()).rejects.toThrow('Channel creation failed');
@@ -184,10 +182,11 @@ describe('RabbitMQOrderEventPublisher', () => {
 
       // Assert
       expect(mockChannel.publish).toHaveBeenCalledWith(
-        'order.events',
-        'order.order.created',
+        'orders_exchange',
+        'order.created',
         expect.any(Buffer),
-        { persistent: true }
+        expect.objectContaining({ persistent: true, mandatory: true }),
+        expect.any(Function)
       );
 
       // Verify the message content
@@ -200,7 +199,7 @@ describe('RabbitMQOrderEventPublisher', () => {
         eventType: 'OrderCreated',
         aggregateId: 'order-456',
         occurredOn: expect.any(String),
-        version: 1,
+        version: 2,
         data: {
           orderId: 'order-456',
           customerId: 'customer-789',
@@ -209,7 +208,8 @@ describe('RabbitMQOrderEventPublisher', () => {
             expect.objectContaining({
               productId: 'product-123',
               quantity: 2,
-              price: 50
+              unitPrice: 50,
+              totalPrice: 100
             })
           ])
         }
@@ -217,7 +217,7 @@ describe('RabbitMQOrderEventPublisher', () => {
 
       expect(mockLogger.info).toHaveBeenCalledWith('Published event: OrderCreated', {
         eventId: expect.any(String),
-        routingKey: 'order.order.created'
+        routingKey: 'order.created'
       });
     });
 
@@ -244,7 +244,7 @@ describe('RabbitMQOrderEventPublisher', () => {
 
     it('should throw error when channel is still null after initialization', async () => {
       // Arrange
-      mockConnection.createChannel.mockResolvedValue(null);
+      mockConnection.createConfirmChannel.mockResolvedValue(null);
 
       // Act & Assert
       await expect(publisher.publish(sampleEvent)).rejects.toThrow('Failed to create RabbitMQ channel');
@@ -254,7 +254,10 @@ describe('RabbitMQOrderEventPublisher', () => {
       // Arrange
       await publisher.initialize();
       const publishError = new Error('Publish failed');
-      mockChannel.publish.mockRejectedValue(publishError);
+      mockChannel.publish.mockImplementation((...args: any[]) => {
+        args[4](publishError);
+        return true;
+      });
 
       // Act & Assert
       await expect(publisher.publish(sampleEvent)).rejects.toThrow('Publish failed');
@@ -269,7 +272,10 @@ describe('RabbitMQOrderEventPublisher', () => {
       // Arrange
       await publisher.initialize();
       const unknownError = 'Unknown error string';
-      mockChannel.publish.mockRejectedValue(unknownError);
+      mockChannel.publish.mockImplementation((...args: any[]) => {
+        args[4](unknownError);
+        return true;
+      });
 
       // Act & Assert
       await expect(publisher.publish(sampleEvent)).rejects.toBe(unknownError);
@@ -283,34 +289,36 @@ describe('RabbitMQOrderEventPublisher', () => {
     it('should generate correct routing key for different event types', async () => {
       // Arrange
       await publisher.initialize();
-      const cancelledEvent = new OrderCancelledEvent(sampleOrder, 'Customer request');
+      const cancelledEvent = OrderCancelledEvent.fromOrder(sampleOrder, 'Customer request');
 
       // Act
       await publisher.publish(cancelledEvent);
 
       // Assert
       expect(mockChannel.publish).toHaveBeenCalledWith(
-        'order.events',
-        'order.order.cancelled',
+        'orders_exchange',
+        'order.cancelled',
         expect.any(Buffer),
-        { persistent: true }
+        expect.objectContaining({ persistent: true, mandatory: true }),
+        expect.any(Function)
       );
     });
 
     it('should generate routing key for complex event types', async () => {
       // Arrange
       await publisher.initialize();
-      const completedEvent = new OrderCompletedEvent(sampleOrder);
+      const completedEvent = OrderCompletedEvent.fromOrder(sampleOrder);
 
       // Act
       await publisher.publish(completedEvent);
 
       // Assert
       expect(mockChannel.publish).toHaveBeenCalledWith(
-        'order.events',
-        'order.order.completed',
+        'orders_exchange',
+        'order.completed',
         expect.any(Buffer),
-        { persistent: true }
+        expect.objectContaining({ persistent: true, mandatory: true }),
+        expect.any(Function)
       );
     });
   });
@@ -329,19 +337,40 @@ describe('RabbitMQOrderEventPublisher', () => {
       expect(mockLogger.info).toHaveBeenCalledWith('RabbitMQ Order Event Publisher disconnected');
     });
 
-    it('should disconnect successfully when only connection exists', async () => {
+    it('should not reconnect after an intentional disconnect', async () => {
       // Arrange
+      jest.useFakeTimers();
       await publisher.initialize();
-      // Simulate channel being null
-      (publisher as any).channel = null;
+      const onClose = mockConnection.on.mock.calls.find(([event]: [string]) => event === 'close')[1];
 
       // Act
       await publisher.disconnect();
+      onClose();
+      jest.runOnlyPendingTimers();
+      jest.useRealTimers();
 
       // Assert
-      expect(mockChannel.close).not.toHaveBeenCalled();
-      expect(mockConnection.close).toHaveBeenCalled();
-      expect(mockLogger.info).toHaveBeenCalledWith('RabbitMQ Order Event Publisher disconnected');
+      expect(mockAmqp.connect).toHaveBeenCalledTimes(1);
+      expect(publisher.isConnected()).toBe(false);
+    });
+
+    it('should buffer events while the connection is being recovered', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      await publisher.initialize();
+      const onClose = mockConnection.on.mock.calls.find(([event]: [string]) => event === 'close')[1];
+      onClose();
+
+      // Act
+      const pending = publisher.publish(sampleEvent);
+      await jest.advanceTimersByTimeAsync(1000);
+      await pending;
+      jest.useRealTimers();
+
+      // Assert
+      expect(mockAmqp.connect).toHaveBeenCalledTimes(2);
+      expect(mockChannel.assertExchange).toHaveBeenCalledTimes(2);
+      expect(mockChannel.publish).toHaveBeenCalledTimes(1);
     });
 
     it('should handle disconnect when nothing is connected', async () => {
@@ -382,17 +411,18 @@ describe('RabbitMQOrderEventPublisher', () => {
       // Arrange
       await publisher.initialize();
       
-      const createdEvent = new OrderCreatedEvent(sampleOrder);
-      const cancelledEvent = new OrderCancelledEvent(sampleOrder, 'Test cancellation');
-      const completedEvent = new OrderCompletedEvent(sampleOrder);
+      const createdEvent = OrderCreatedEvent.fromOrder(sampleOrder);
+      const cancelledEvent = OrderCancelledEvent.fromOrder(sampleOrder, 'Test cancellation');
+      const completedEvent = OrderCompletedEvent.fromOrder(sampleOrder);
 
       // Act & Assert for OrderCreated
       await publisher.publish(createdEvent);
       expect(mockChannel.publish).toHaveBeenCalledWith(
-        'order.events',
-        'order.order.created',
+        'orders_exchange',
+        'order.created',
         expect.any(Buffer),
-        { persistent: true }
+        expect.objectContaining({ persistent: true, mandatory: true }),
+        expect.any(Function)
       );
 
       mockChannel.publish.mockClear();
@@ -400,10 +430,11 @@ describe('RabbitMQOrderEventPublisher', () => {
       // Act & Assert for OrderCancelled
       await publisher.publish(cancelledEvent);
       expect(mockChannel.publish).toHaveBeenCalledWith(
-        'order.events',
-        'order.order.cancelled',
+        'orders_exchange',
+        'order.cancelled',
         expect.any(Buffer),
-        { persistent: true }
+        expect.objectContaining({ persistent: true, mandatory: true }),
+        expect.any(Function)
       );
 
       mockChannel.publish.mockClear();
@@ -411,10 +442,11 @@ describe('RabbitMQOrderEventPublisher', () => {
       // Act & Assert for OrderCompleted
       await publisher.publish(completedEvent);
       expect(mockChannel.publish).toHaveBeenCalledWith(
-        'order.events',
-        'order.order.completed',
+        'orders_exchange',
+        'order.completed',
         expect.any(Buffer),
-        { persistent: true }
+        expect.objectContaining({ persistent: true, mandatory: true }),
+        expect.any(Function)
       );
     });
   });
@@ -0,0 +1,81 @@
+import { v4 as uuidv4 } from 'uuid';
+import { HttpRequest, HttpResponse, HttpServer } from '../../../shared/infrastructure/http/HttpServer';
+import { validateRequest } from '../../../shared/infrastructure/http/validateRequest';
+import { NotFoundError } from '../../../shared/domain/errors/NotFoundError';
+import { CreateOrderUseCase } from '../../application/use-cases/create-order/CreateOrderUseCase';
+import { GetOrderUseCase } from '../../application/use-cases/get-order/GetOrderUseCase';
+import { ListOrdersUseCase } from '../../application/use-cases/list-order/ListOrdersUseCase';
+import { CancelOrderUseCase } from '../../application/use-cases/cancel-order/CancelOrderUseCase';
+import { CompleteOrderUseCase } from '../../application/use-cases/complete-order/CompleteOrderUseCase';
+import { CreateOrderRequest } from './requests/CreateOrderRequest';
+import { CancelOrderRequest } from './requests/CancelOrderRequest';
+
+/**
+ * Order REST API on top of the order use cases. Invalid requests and domain
+ * errors are answered by the server (400 invalid, 404 unknown order, 409
+ * state conflicts such as cancelling a completed order).
+ */
+export class OrderController {
+  private readonly createOrderUseCase: CreateOrderUseCase;
+  private readonly getOrderUseCase: GetOrderUseCase;
+  private readonly listOrdersUseCase: ListOrdersUseCase;
+  private readonly cancelOrderUseCase: CancelOrderUseCase;
+  private readonly completeOrderUseCase: CompleteOrderUseCase;
+
+  constructor(
+    createOrderUseCase: CreateOrderUseCase,
+    getOrderUseCase: GetOrderUseCase,
+    listOrdersUseCase: ListOrdersUseCase,
+    cancelOrderUseCase: CancelOrderUseCase,
+    completeOrderUseCase: CompleteOrderUseCase
+  ) {
+    this.createOrderUseCase = createOrderUseCase;
+    this.getOrderUseCase = getOrderUseCase;
+    this.listOrdersUseCase = listOrdersUseCase;
+    this.cancelOrderUseCase = cancelOrderUseCase;
+    this.completeOrderUseCase = completeOrderUseCase;
+  }
+
+  register(server: HttpServer): void {
+    server.route('POST', '/orders', request => this.createOrder(request));
+    server.route('GET', '/orders/:id', request => this.getOrder(request));
+    server.route('GET', '/customers/:id/orders', request => this.listOrders(request));
+    server.route('POST', '/orders/:id/cancel', request => this.cancelOrder(request));
+    server.route('POST', '/orders/:id/complete', request => this.completeOrder(request));
+  }
+
+  private async createOrder(request: HttpRequest): Promise<HttpResponse> {
+    const body = await validateRequest(CreateOrderRequest, request.body);
+    const order = await this.createOrderUseCase.execute({ ...body, id: body.id ?? uuidv4() });
+    return { status: 201, body: order, headers: { Location: `/orders/${encodeURIComponent(order.id)}` } };
+  }
+
+  private async getOrder(request: HttpRequest): Promise<HttpResponse> {
+    const orderId = this.param(request, 'id');
+    const order = await this.getOrderUseCase.execute({ orderId });
+    if (!order) {
+      throw new NotFoundError(`Order not found: ${orderId}`);
+    }
+    return { status: 200, body: order };
+  }
+
+  private async listOrders(request: HttpRequest): Promise<HttpResponse> {
+    const orders = await this.listOrdersUseCase.execute({ customerId: this.param(request, 'id') });
+    return { status: 200, body: orders };
+  }
+
+  private async cancelOrder(request: HttpRequest): Promise<HttpResponse> {
+    const { reason } = await validateRequest(CancelOrderRequest, request.body);
+    const order = await this.cancelOrderUseCase.execute({ orderId: this.param(request, 'id'), reason });
+    return { status: 200, body: order };
+  }
+
+  private async completeOrder(request: HttpRequest): Promise<HttpResponse> {
+    const order = await this.completeOrderUseCase.execute({ orderId: this.param(request, 'id') });
+    return { status: 200, body: order };
+  }
+
+  private param(request: HttpRequest, name: string): string {
+    return request.params[name] ?? '';
+  }
+}
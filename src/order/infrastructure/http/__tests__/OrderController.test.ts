@@ -0,0 +1,284 @@
+import { OrderController } from '../OrderController';
+import { HttpServer } from '@shared/infrastructure/http/HttpServer';
+import { Logger } from '@shared/application/logging/logger';
+import { IOrderRepository } from '@order/domain/repositories/IOrderRepository';
+import { CreateOrderUseCase } from '@order/application/use-cases/create-order/CreateOrderUseCase';
+import { GetOrderUseCase } from '@order/application/use-cases/get-order/GetOrderUseCase';
+import { ListOrdersUseCase } from '@order/application/use-cases/list-order/ListOrdersUseCase';
+import { CancelOrderUseCase } from '@order/application/use-cases/cancel-order/CancelOrderUseCase';
+import { CompleteOrderUseCase } from '@order/application/use-cases/complete-order/CompleteOrderUseCase';
+import { Order, OrderStatus } from '@order/domain/entities/Order';
+import { Money } from '@order/domain/value-objects/Money';
+import { Address } from '@order/domain/value-objects/Address';
+import { OrderItem } from '@order/domain/value-objects/OrderItem';
+import { BusinessRuleError } from '@shared/domain/errors/BusinessRuleError';
+
+describe('OrderController', () => {
+  let server: HttpServer;
+  let mockOrderRepository: jest.Mocked<IOrderRepository>;
+
+  const address = {
+    street: 'Rua das Flores',
+    number: '123',
+    neighborhood: 'Centro',
+    city: 'São Paulo',
+    state: 'SP',
+    country: 'Brasil',
+    zipCode: '01234-567'
+  };
+
+  const createOrderBody = {
+    customerId: 'customer-456',
+    total: 299.99,
+    items: [{ productId: 'product-1', quantity: 2, unitPrice: 149.995, totalPrice: 299.99 }],
+    shippingAddress: address,
+    billingAddress: address
+  };
+
+  const createMockOrder = (status: OrderStatus = 'pending') => new Order({
+    id: 'order-123',
+    customerId: 'customer-456',
+    status,
+    total: new Money(299.99),
+    items: [
+      new OrderItem({
+        productId: 'product-1',
+        quantity: 2,
+        unitPrice: new Money(149.995),
+        totalPrice: new Money(299.99)
+      })
+    ],
+    shippingAddress: new Address(address),
+    billingAddress: new Address(address)
+  });
+
+  const request = (method: string, path: string, body?: unknown) =>
+    fetch(`http://127.0.0.1:${server.getPort()}${path}`, {
+      method,
+      ...(body !== undefined && {
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+    });
+
+  beforeEach(async () => {
+    const mockLogger: jest.Mocked<Logger> = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    mockOrderRepository = {
+      save: jest.fn().mockResolvedValue(undefined),
+      findById: jest.fn().mockResolvedValue(null),
+      findByCustomerId: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn()
+    };
+
+    server = new HttpServer(mockLogger, 0);
+    new OrderController(
+      new CreateOrderUseCase(mockOrderRepository, mockLogger),
+      new GetOrderUseCase(mockOrderRepository, mockLogger),
+      new ListOrdersUseCase(mockOrderRepository, mockLogger),
+      new CancelOrderUseCase(mockOrderRepository, mockLogger),
+      new CompleteOrderUseCase(mockOrderRepository, mockLogger)
+    ).register(server);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('POST /orders', () => {
+    it('should create the order and point to it', async () => {
+      // Act
+      const response = await request('POST', '/orders', { ...createOrderBody, id: 'order-123' });
+
+      // Assert
+      expect(response.status).toBe(201);
+      expect(response.headers.get('location')).toBe('/orders/order-123');
+      expect(await response.json()).toEqual(expect.objectContaining({
+        id: 'order-123',
+        customerId: 'customer-456',
+        status: 'pending'
+      }));
+      expect(mockOrderRepository.save).toHaveBeenCalled();
+    });
+
+    it('should generate an id when the client sends none', async () => {
+      // Act
+      const response = await request('POST', '/orders', createOrderBody);
+
+      // Assert
+      expect(response.status).toBe(201);
+      const order = await response.json();
+      expect(order.id).toMatch(/^[0-9a-f-]{36}$/);
+    });
+
+    it('should answer 409 when a retried request reuses an existing id', async () => {
+      // Arrange
+      mockOrderRepository.save.mockRejectedValue(new BusinessRuleError('Order order-123 already exists'));
+
+      // Act
+      const response = await request('POST', '/orders', { ...createOrderBody, id: 'order-123' });
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({ error: 'Order order-123 already exists' });
+    });
+
+    it('should answer 400 with every violated constraint', async () => {
+      // Act
+      const response = await request('POST', '/orders', {
+        ...createOrderBody,
+        customerId: '',
+        items: [{ ...createOrderBody.items[0], quantity: 0 }]
+      });
+
+      // Assert
+      expect(response.status).toBe(400);
+      const { error } = await response.json();
+      expect(error).toContain('customerId should not be empty');
+      expect(error).toContain('items.0.quantity must not be less than 1');
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should answer 400 without an address', async () => {
+      // Arrange
+      const { shippingAddress, ...withoutShippingAddress } = createOrderBody;
+
+      // Act
+      const response = await request('POST', '/orders', withoutShippingAddress);
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain('shippingAddress should not be null or undefined');
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should answer 400 for an order without a total', async () => {
+      // Act
+      const response = await request('POST', '/orders', { ...createOrderBody, total: 0 });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain('total must be a positive number');
+    });
+
+    it('should refuse properties the request does not declare', async () => {
+      // Act
+      const response = await request('POST', '/orders', { ...createOrderBody, status: 'completed' });
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toContain('property status should not exist');
+    });
+
+    it('should answer 400 without a body', async () => {
+      // Act
+      const response = await request('POST', '/orders');
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({ error: 'Request body must be a JSON object' });
+    });
+  });
+
+  describe('GET /orders/:id', () => {
+    it('should return the order', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(createMockOrder());
+
+      // Act
+      const response = await request('GET', '/orders/order-123');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect((await response.json()).id).toBe('order-123');
+      expect(mockOrderRepository.findById).toHaveBeenCalledWith('order-123');
+    });
+
+    it('should answer 404 for an unknown order', async () => {
+      // Act
+      const response = await request('GET', '/orders/missing');
+
+      // Assert
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ error: 'Order not found: missing' });
+    });
+  });
+
+  describe('GET /customers/:id/orders', () => {
+    it('should list the orders of the customer', async () => {
+      // Arrange
+      mockOrderRepository.findByCustomerId.mockResolvedValue([createMockOrder()]);
+
+      // Act
+      const response = await request('GET', '/customers/customer-456/orders');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect(await response.json()).toHaveLength(1);
+      expect(mockOrderRepository.findByCustomerId).toHaveBeenCalledWith('customer-456');
+    });
+  });
+
+  describe('POST /orders/:id/cancel', () => {
+    it('should cancel the order', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(createMockOrder());
+
+      // Act
+      const response = await request('POST', '/orders/order-123/cancel', { reason: 'Customer request' });
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect((await response.json()).status).toBe('cancelled');
+    });
+
+    it('should answer 400 without a reason', async () => {
+      // Act
+      const response = await request('POST', '/orders/order-123/cancel', {});
+
+      // Assert
+      expect(response.status).toBe(400);
+    });
+
+    it('should answer 409 when the order is already completed', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(createMockOrder('completed'));
+
+      // Act
+      const response = await request('POST', '/orders/order-123/cancel', { reason: 'Customer request' });
+
+      // Assert
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({ error: 'Cannot cancel a completed order' });
+    });
+  });
+
+  describe('POST /orders/:id/complete', () => {
+    it('should complete the order', async () => {
+      // Arrange
+      mockOrderRepository.findById.mockResolvedValue(createMockOrder());
+
+      // Act
+      const response = await request('POST', '/orders/order-123/complete');
+
+      // Assert
+      expect(response.status).toBe(200);
+      expect((await response.json()).status).toBe('completed');
+    });
+
+    it('should answer 404 for an unknown order', async () => {
+      // Act
+      const response = await request('POST', '/orders/missing/complete');
+
+      // Assert
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * Body of POST /orders/:id/cancel
+ */
+export class CancelOrderRequest {
+  @IsString()
+  @IsNotEmpty()
+  reason!: string;
+}
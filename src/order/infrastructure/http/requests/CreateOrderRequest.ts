@@ -0,0 +1,107 @@
+import 'reflect-metadata';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDefined,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Min,
+  MinLength,
+  ValidateNested
+} from 'class-validator';
+
+export class AddressRequest {
+  @IsString()
+  @MinLength(3)
+  street!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  number!: string;
+
+  @IsOptional()
+  @IsString()
+  complement?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  neighborhood!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  city!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  state!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  country!: string;
+
+  @IsString()
+  @MinLength(5)
+  zipCode!: string;
+}
+
+export class OrderItemRequest {
+  @IsString()
+  @IsNotEmpty()
+  productId!: string;
+
+  @IsInt()
+  @Min(1)
+  quantity!: number;
+
+  @IsNumber()
+  @Min(0)
+  unitPrice!: number;
+
+  @IsNumber()
+  @Min(0)
+  totalPrice!: number;
+}
+
+/**
+ * Body of POST /orders. The id is optional; clients that retry the request
+ * can send their own to avoid creating the order twice.
+ */
+export class CreateOrderRequest {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  id?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  customerId!: string;
+
+  // The OrderCreated event contract requires a total greater than 0
+  @IsNumber()
+  @IsPositive()
+  total!: number;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => OrderItemRequest)
+  items!: OrderItemRequest[];
+
+  @IsDefined()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AddressRequest)
+  shippingAddress!: AddressRequest;
+
+  @IsDefined()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AddressRequest)
+  billingAddress!: AddressRequest;
+}
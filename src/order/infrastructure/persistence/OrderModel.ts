@@ -1,3 +1,12 @@
+import { Sequelize, Transaction } from 'sequelize';
+import {
+  AddressType,
+  OrderAddressRecord,
+  OrderItemRecord,
+  OrderRecord,
+  defineOrderSchema
+} from './OrderSchema';
+
 export interface OrderModel {
   id: string;
   customerId: string;
@@ -33,28 +42,214 @@ export interface OrderModel {
   updatedAt?: Date;
 }
 
-// Mock implementation for now - replace with actual database implementation
+type OrderAddressModel = OrderModel['shippingAddress'];
+
+export interface OrderQueryOptions {
+  where: { customerId: string };
+}
+
+export interface OrderWhereIdOptions {
+  where: { id: string };
+}
+
+export interface OrderWriteOptions {
+  /** Writes as part of the caller's transaction instead of a transaction of its own */
+  transaction?: Transaction;
+}
+
+/**
+ * Persistence gateway for orders
+ *
+ * Exposes a Sequelize-like static API over the `orders`, `order_items` and
+ * `order_addresses` tables, reading and writing the whole aggregate as one
+ * nested OrderModel. Must be initialized with the application's Sequelize
+ * instance before use. Writes run in a transaction of their own unless one
+ * is passed in, so other rows can be written atomically with the order.
+ */
 export class OrderModel {
-  static async create(data: any): Promise<OrderModel> {
-    // TODO: Implement actual database creation
-    return data as OrderModel;
+  private static sequelize: Sequelize | null = null;
+
+  static initialize(sequelize: Sequelize): void {
+    defineOrderSchema(sequelize);
+    this.sequelize = sequelize;
+  }
+
+  /**
+   * Runs the work inside a managed transaction to pass to create/update
+   */
+  static async transaction<T>(work: (transaction: Transaction) => Promise<T>): Promise<T> {
+    return this.getSequelize().transaction(work);
+  }
+
+  static async create(data: Partial<OrderModel>, options: OrderWriteOptions = {}): Promise<OrderModel> {
+    const order = data as OrderModel;
+
+    await this.inTransaction(options, async (transaction) => {
+      await OrderRecord.create(
+        {
+          id: order.id,
+          customerId: order.customerId,
+          status: order.status,
+          total: order.total
+        },
+        { transaction }
+      );
+      await this.writeChildren(order, transaction);
+    });
+
+    return order;
   }
 
   static async findByPk(id: string): Promise<OrderModel | null> {
-    // TODO: Implement actual database query
-    return null;
+    const record = await OrderRecord.findByPk(id, { include: this.includes() });
+    return record ? this.toModel(record) : null;
+  }
+
+  static async findAll(options: OrderQueryOptions): Promise<OrderModel[]> {
+    const records = await OrderRecord.findAll({
+      where: { customerId: options.where.customerId },
+      include: this.includes(),
+      order: [['createdAt', 'ASC']]
+    });
+    return records.map(record => this.toModel(record));
+  }
+
+  static async update(data: Partial<OrderModel>, options: OrderWhereIdOptions & OrderWriteOptions): Promise<void> {
+    const order = { ...data, id: options.where.id } as OrderModel;
+
+    await this.inTransaction(options, async (transaction) => {
+      const [affectedRows] = await OrderRecord.update(
+        {
+          customerId: order.customerId,
+          status: order.status,
+          total: order.total
+        },
+        { where: { id: order.id }, transaction }
+      );
+
+      if (affectedRows === 0) {
+        throw new Error(`Order not found: ${order.id}`);
+      }
+
+      await OrderItemRecord.destroy({ where: { orderId: order.id }, transaction });
+      await OrderAddressRecord.destroy({ where: { orderId: order.id }, transaction });
+      await this.writeChildren(order, transaction);
+    });
+  }
+
+  static async destroy(options: OrderWhereIdOptions): Promise<void> {
+    await OrderRecord.destroy({ where: { id: options.where.id } });
   }
 
-  static async findAll(options: any): Promise<OrderModel[]> {
-    // TODO: Implement actual database query
-    return [];
+  private static async inTransaction(
+    options: OrderWriteOptions,
+    work: (transaction: Transaction) => Promise<void>
+  ): Promise<void> {
+    if (options.transaction) {
+      await work(options.transaction);
+    } else {
+      await this.getSequelize().transaction(work);
+    }
   }
 
-  static async update(data: any, options: any): Promise<void> {
-    // TODO: Implement actual database update
+  private static async writeChildren(order: OrderModel, transaction: Transaction): Promise<void> {
+    if (order.items && order.items.length > 0) {
+      await OrderItemRecord.bulkCreate(
+        order.items.map(item => ({
+          orderId: order.id,
+          productId: item.productId,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          totalPrice: item.totalPrice
+        })),
+        { transaction }
+      );
+    }
+
+    const addresses = [
+      this.toAddressRow(order.id, 'shipping', order.shippingAddress),
+      this.toAddressRow(order.id, 'billing', order.billingAddress)
+    ].filter((row): row is NonNullable<typeof row> => row !== null);
+
+    if (addresses.length > 0) {
+      await OrderAddressRecord.bulkCreate(addresses, { transaction });
+    }
   }
 
-  static async destroy(options: any): Promise<void> {
-    // TODO: Implement actual database deletion
+  private static toAddressRow(orderId: string, type: AddressType, address?: OrderAddressModel) {
+    if (!address) {
+      return null;
+    }
+
+    return {
+      orderId,
+      type,
+      street: address.street,
+      number: address.number,
+      complement: address.complement ?? null,
+      neighborhood: address.neighborhood,
+      city: address.city,
+      state: address.state,
+      zipCode: address.zipCode,
+      country: address.country
+    };
   }
-} 
\ No newline at end of file
+
+  private static toModel(record: OrderRecord): OrderModel {
+    const addresses = record.addresses || [];
+    const shipping = addresses.find(address => address.type === 'shipping');
+    const billing = addresses.find(address => address.type === 'billing');
+
+    if (!shipping || !billing) {
+      throw new Error(`Order ${record.id} is missing its shipping or billing address`);
+    }
+
+    return {
+      id: record.id,
+      customerId: record.customerId,
+      status: record.status,
+      // DECIMAL columns are returned as strings by pg
+      total: Number(record.total),
+      items: (record.items || [])
+        .slice()
+        .sort((a, b) => a.id - b.id)
+        .map(item => ({
+          productId: item.productId,
+          quantity: item.quantity,
+          unitPrice: Number(item.unitPrice),
+          totalPrice: Number(item.totalPrice)
+        })),
+      shippingAddress: this.toAddressModel(shipping),
+      billingAddress: this.toAddressModel(billing),
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    } as OrderModel;
+  }
+
+  private static toAddressModel(record: OrderAddressRecord): OrderAddressModel {
+    return {
+      street: record.street,
+      number: record.number,
+      complement: record.complement ?? undefined,
+      neighborhood: record.neighborhood,
+      city: record.city,
+      state: record.state,
+      zipCode: record.zipCode,
+      country: record.country
+    };
+  }
+
+  private static includes() {
+    return [
+      { model: OrderItemRecord, as: 'items' },
+      { model: OrderAddressRecord, as: 'addresses' }
+    ];
+  }
+
+  private static getSequelize(): Sequelize {
+    if (!this.sequelize) {
+      throw new Error('OrderModel is not initialized - call OrderModel.initialize() first');
+    }
+    return this.sequelize;
+  }
+}
@@ -0,0 +1,123 @@
+import { DataTypes, Model, Sequelize } from 'sequelize';
+
+export type AddressType = 'shipping' | 'billing';
+
+export interface OrderRecordAttributes {
+  id: string;
+  customerId: string;
+  status: 'pending' | 'completed' | 'cancelled';
+  total: string | number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface OrderItemRecordAttributes {
+  id?: number;
+  orderId: string;
+  productId: string;
+  quantity: number;
+  unitPrice: string | number;
+  totalPrice: string | number;
+}
+
+export interface OrderAddressRecordAttributes {
+  orderId: string;
+  type: AddressType;
+  street: string;
+  number: string;
+  complement?: string | null;
+  neighborhood: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  country: string;
+}
+
+/**
+ * Row in the `orders` table
+ */
+export class OrderRecord extends Model<OrderRecordAttributes> {
+  declare id: string;
+  declare customerId: string;
+  declare status: 'pending' | 'completed' | 'cancelled';
+  declare total: string | number;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+  declare items?: OrderItemRecord[];
+  declare addresses?: OrderAddressRecord[];
+}
+
+/**
+ * Row in the `order_items` table
+ */
+export class OrderItemRecord extends Model<OrderItemRecordAttributes> {
+  declare id: number;
+  declare orderId: string;
+  declare productId: string;
+  declare quantity: number;
+  declare unitPrice: string | number;
+  declare totalPrice: string | number;
+}
+
+/**
+ * Row in the `order_addresses` table (one shipping and one billing address per order)
+ */
+export class OrderAddressRecord extends Model<OrderAddressRecordAttributes> {
+  declare orderId: string;
+  declare type: AddressType;
+  declare street: string;
+  declare number: string;
+  declare complement: string | null;
+  declare neighborhood: string;
+  declare city: string;
+  declare state: string;
+  declare zipCode: string;
+  declare country: string;
+}
+
+/**
+ * Registers the order tables on the given Sequelize instance.
+ * The tables themselves are created by docker/init-db.sql.
+ */
+export function defineOrderSchema(sequelize: Sequelize): void {
+  OrderRecord.init(
+    {
+      id: { type: DataTypes.STRING, primaryKey: true },
+      customerId: { type: DataTypes.STRING, allowNull: false },
+      status: { type: DataTypes.STRING(20), allowNull: false },
+      total: { type: DataTypes.DECIMAL(12, 2), allowNull: false }
+    },
+    { sequelize, tableName: 'orders', underscored: true, timestamps: true }
+  );
+
+  OrderItemRecord.init(
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      orderId: { type: DataTypes.STRING, allowNull: false },
+      productId: { type: DataTypes.STRING, allowNull: false },
+      quantity: { type: DataTypes.INTEGER, allowNull: false },
+      unitPrice: { type: DataTypes.DECIMAL(12, 2), allowNull: false },
+      totalPrice: { type: DataTypes.DECIMAL(12, 2), allowNull: false }
+    },
+    { sequelize, tableName: 'order_items', underscored: true, timestamps: false }
+  );
+
+  OrderAddressRecord.init(
+    {
+      orderId: { type: DataTypes.STRING, primaryKey: true },
+      type: { type: DataTypes.STRING(20), primaryKey: true },
+      street: { type: DataTypes.STRING, allowNull: false },
+      number: { type: DataTypes.STRING, allowNull: false },
+      complement: { type: DataTypes.STRING, allowNull: true },
+      neighborhood: { type: DataTypes.STRING, allowNull: false },
+      city: { type: DataTypes.STRING, allowNull: false },
+      state: { type: DataTypes.STRING, allowNull: false },
+      zipCode: { type: DataTypes.STRING, allowNull: false },
+      country: { type: DataTypes.STRING, allowNull: false }
+    },
+    { sequelize, tableName: 'order_addresses', underscored: true, timestamps: false }
+  );
+
+  OrderRecord.hasMany(OrderItemRecord, { as: 'items', foreignKey: 'orderId', onDelete: 'CASCADE' });
+  OrderRecord.hasMany(OrderAddressRecord, { as: 'addresses', foreignKey: 'orderId', onDelete: 'CASCADE' });
+}
@@ -1,16 +1,40 @@
+import { UniqueConstraintError } from 'sequelize';
 import { Order } from '../../domain/entities/Order';
 import { IOrderRepository } from '../../domain/repositories/IOrderRepository';
 import { OrderModel } from './OrderModel';
 import { IOrderMapper } from '../mappers/IOrderMapper';
+import { IOutboxStore } from '../../../shared/infrastructure/outbox/IOutboxStore';
+import { BusinessRuleError } from '../../../shared/domain/errors/BusinessRuleError';
 
+/**
+ * Orders are written together with the events they raised, which go to the
+ * outbox in the same transaction and are published from there by the relay.
+ */
 export class PostgresOrderRepository implements IOrderRepository {
-  constructor(private readonly orderMapper: IOrderMapper) {}
+  constructor(
+    private readonly orderMapper: IOrderMapper,
+    private readonly outboxStore: IOutboxStore
+  ) {}
 
   async save(order: Order): Promise<void> {
     try {
       const orderData = this.orderMapper.toPersistence(order);
-      await OrderModel.create(orderData);
+      await OrderModel.transaction(async (transaction) => {
+        try {
+          await OrderModel.create(orderData, { transaction });
+        } catch (error) {
+          // A client retrying the creation with its own id
+          if (error instanceof UniqueConstraintError) {
+            throw new BusinessRuleError(`Order ${order.id} already exists`);
+          }
+          throw error;
+        }
+        await this.outboxStore.add(order.domainEvents, transaction);
+      });
     } catch (error) {
+      if (error instanceof BusinessRuleError) {
+        throw error;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to save order: ${errorMessage}`);
     }
@@ -44,8 +68,12 @@ export class PostgresOrderRepository implements IOrderRepository {
   async update(order: Order): Promise<void> {
     try {
       const orderData = this.orderMapper.toPersistence(order);
-      await OrderModel.update(orderData, {
-        where: { id: order.id }
+      await OrderModel.transaction(async (transaction) => {
+        await OrderModel.update(orderData, {
+          where: { id: order.id },
+          transaction
+        });
+        await this.outboxStore.add(order.domainEvents, transaction);
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
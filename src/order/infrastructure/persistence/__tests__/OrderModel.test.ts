@@ -0,0 +1,184 @@
+import { OrderModel } from '../OrderModel';
+import { OrderAddressRecord, OrderItemRecord, OrderRecord } from '../OrderSchema';
+
+// Mock the Sequelize records
+jest.mock('../OrderSchema', () => ({
+  defineOrderSchema: jest.fn(),
+  OrderRecord: { create: jest.fn(), findByPk: jest.fn(), findAll: jest.fn(), update: jest.fn(), destroy: jest.fn() },
+  OrderItemRecord: { bulkCreate: jest.fn(), destroy: jest.fn() },
+  OrderAddressRecord: { bulkCreate: jest.fn(), destroy: jest.fn() }
+}));
+const mockOrderRecord = OrderRecord as jest.Mocked<any>;
+const mockOrderItemRecord = OrderItemRecord as jest.Mocked<any>;
+const mockOrderAddressRecord = OrderAddressRecord as jest.Mocked<any>;
+
+describe('OrderModel', () => {
+  const transaction = { id: 'tx-1' };
+  const mockSequelize = {
+    transaction: jest.fn((work: (t: any) => Promise<any>) => work(transaction))
+  };
+
+  const address = {
+    street: 'Main St',
+    number: '123',
+    complement: 'Suite 100',
+    neighborhood: 'Downtown',
+    city: 'New York',
+    state: 'NY',
+    zipCode: '10001',
+    country: 'USA'
+  };
+
+  const orderData: OrderModel = {
+    id: 'order-123',
+    customerId: 'customer-456',
+    status: 'pending',
+    total: 100,
+    items: [{ productId: 'product-1', quantity: 2, unitPrice: 50, totalPrice: 100 }],
+    shippingAddress: address,
+    billingAddress: { ...address, complement: undefined }
+  } as OrderModel;
+
+  const orderRow = {
+    id: 'order-123',
+    customerId: 'customer-456',
+    status: 'pending',
+    total: '100.00',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    items: [
+      { id: 2, productId: 'product-2', quantity: 1, unitPrice: '10.00', totalPrice: '10.00' },
+      { id: 1, productId: 'product-1', quantity: 2, unitPrice: '45.00', totalPrice: '90.00' }
+    ],
+    addresses: [
+      { type: 'billing', ...address, complement: null },
+      { type: 'shipping', ...address }
+    ]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    OrderModel.initialize(mockSequelize as any);
+  });
+
+  describe('create', () => {
+    it('should insert the order, its items and both addresses in one transaction', async () => {
+      // Act
+      const result = await OrderModel.create(orderData);
+
+      // Assert
+      expect(mockSequelize.transaction).toHaveBeenCalledTimes(1);
+      expect(mockOrderRecord.create).toHaveBeenCalledWith(
+        { id: 'order-123', customerId: 'customer-456', status: 'pending', total: 100 },
+        { transaction }
+      );
+      expect(mockOrderItemRecord.bulkCreate).toHaveBeenCalledWith(
+        [{ orderId: 'order-123', productId: 'product-1', quantity: 2, unitPrice: 50, totalPrice: 100 }],
+        { transaction }
+      );
+      expect(mockOrderAddressRecord.bulkCreate).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ orderId: 'order-123', type: 'shipping', complement: 'Suite 100' }),
+          expect.objectContaining({ orderId: 'order-123', type: 'billing', complement: null })
+        ],
+        { transaction }
+      );
+      expect(result).toBe(orderData);
+    });
+  });
+
+  describe('findByPk', () => {
+    it('should map rows back to a nested order model', async () => {
+      // Arrange
+      mockOrderRecord.findByPk.mockResolvedValue(orderRow);
+
+      // Act
+      const result = await OrderModel.findByPk('order-123');
+
+      // Assert
+      expect(mockOrderRecord.findByPk).toHaveBeenCalledWith('order-123', { include: expect.any(Array) });
+      expect(result).toEqual(expect.objectContaining({
+        id: 'order-123',
+        total: 100,
+        items: [
+          { productId: 'product-1', quantity: 2, unitPrice: 45, totalPrice: 90 },
+          { productId: 'product-2', quantity: 1, unitPrice: 10, totalPrice: 10 }
+        ],
+        shippingAddress: address,
+        billingAddress: { ...address, complement: undefined }
+      }));
+    });
+
+    it('should return null when the order does not exist', async () => {
+      // Arrange
+      mockOrderRecord.findByPk.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(OrderModel.findByPk('missing')).resolves.toBeNull();
+    });
+
+    it('should reject orders without both addresses', async () => {
+      // Arrange
+      mockOrderRecord.findByPk.mockResolvedValue({ ...orderRow, addresses: [] });
+
+      // Act & Assert
+      await expect(OrderModel.findByPk('order-123')).rejects.toThrow('missing its shipping or billing address');
+    });
+  });
+
+  describe('findAll', () => {
+    it('should filter by customer id', async () => {
+      // Arrange
+      mockOrderRecord.findAll.mockResolvedValue([orderRow]);
+
+      // Act
+      const result = await OrderModel.findAll({ where: { customerId: 'customer-456' } });
+
+      // Assert
+      expect(mockOrderRecord.findAll).toHaveBeenCalledWith(expect.objectContaining({
+        where: { customerId: 'customer-456' }
+      }));
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('update', () => {
+    it('should update the order row and replace its children', async () => {
+      // Arrange
+      mockOrderRecord.update.mockResolvedValue([1]);
+
+      // Act
+      await OrderModel.update({ ...orderData, status: 'cancelled' }, { where: { id: 'order-123' } });
+
+      // Assert
+      expect(mockOrderRecord.update).toHaveBeenCalledWith(
+        { customerId: 'customer-456', status: 'cancelled', total: 100 },
+        { where: { id: 'order-123' }, transaction }
+      );
+      expect(mockOrderItemRecord.destroy).toHaveBeenCalledWith({ where: { orderId: 'order-123' }, transaction });
+      expect(mockOrderAddressRecord.destroy).toHaveBeenCalledWith({ where: { orderId: 'order-123' }, transaction });
+      expect(mockOrderItemRecord.bulkCreate).toHaveBeenCalled();
+      expect(mockOrderAddressRecord.bulkCreate).toHaveBeenCalled();
+    });
+
+    it('should fail when no order row was updated', async () => {
+      // Arrange
+      mockOrderRecord.update.mockResolvedValue([0]);
+
+      // Act & Assert
+      await expect(OrderModel.update(orderData, { where: { id: 'order-123' } }))
+        .rejects.toThrow('Order not found: order-123');
+      expect(mockOrderItemRecord.destroy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('destroy', () => {
+    it('should delete the order row', async () => {
+      // Act
+      await OrderModel.destroy({ where: { id: 'order-123' } });
+
+      // Assert
+      expect(mockOrderRecord.destroy).toHaveBeenCalledWith({ where: { id: 'order-123' } });
+    });
+  });
+});
@@ -5,6 +5,9 @@ import { Order } from '../../../domain/entities/Order';
 import { Address } from '../../../domain/value-objects/Address';
 import { Money } from '../../../domain/value-objects/Money';
 import { OrderItem } from '../../../domain/value-objects/OrderItem';
+import { IOutboxStore } from '../../../../shared/infrastructure/outbox/IOutboxStore';
+import { BusinessRuleError } from '../../../../shared/domain/errors/BusinessRuleError';
+import { UniqueConstraintError } from 'sequelize';
 
 // Mock OrderModel
 jest.mock('../OrderModel');
@@ -13,6 +16,8 @@ const mockOrderModel = OrderModel as jest.Mocked<typeof OrderModel>;
 describe('PostgresOrderRepository', () => {
   let repository: PostgresOrderRepository;
   let mockMapper: jest.Mocked<IOrderMapper>;
+  let mockOutboxStore: jest.Mocked<IOutboxStore>;
+  const transaction = { id: 'tx-1' } as any;
   let sampleOrder: Order;
   let sampleOrderModel: any;
 
@@ -26,8 +31,17 @@ describe('PostgresOrderRepository', () => {
       toDomain: jest.fn()
     };
 
+    mockOutboxStore = {
+      add: jest.fn().mockResolvedValue(undefined),
+      withPending: jest.fn(),
+      markSent: jest.fn(),
+      markFailed: jest.fn(),
+      countPending: jest.fn()
+    };
+    mockOrderModel.transaction.mockImplementation((work: (t: any) => Promise<any>) => work(transaction));
+
     // Create repository instance
-    repository = new PostgresOrderRepository(mockMapper);
+    repository = new PostgresOrderRepository(mockMapper, mockOutboxStore);
 
     // Create sample Order domain entity
     const shippingAddress = new Address({
@@ -118,7 +132,42 @@ describe('PostgresOrderRepository', () => {
 
       // Assert
       expect(mockMapper.toPersistence).toHaveBeenCalledWith(sampleOrder);
-      expect(mockOrderModel.create).toHaveBeenCalledWith(persistenceData);
+      expect(mockOrderModel.create).toHaveBeenCalledWith(persistenceData, { transaction });
+    });
+
+    it('should add the order events to the outbox in the same transaction', async () => {
+      // Arrange
+      mockMapper.toPersistence.mockReturnValue({ ...sampleOrderModel });
+      sampleOrder.create();
+
+      // Act
+      await repository.save(sampleOrder);
+
+      // Assert
+      expect(mockOutboxStore.add).toHaveBeenCalledWith(sampleOrder.domainEvents, transaction);
+      expect(sampleOrder.domainEvents).toHaveLength(1);
+    });
+
+    it('should fail the save when the outbox cannot be written', async () => {
+      // Arrange
+      mockMapper.toPersistence.mockReturnValue({ ...sampleOrderModel });
+      mockOutboxStore.add.mockRejectedValue(new Error('Outbox insert failed'));
+
+      // Act & Assert
+      await expect(repository.save(sampleOrder)).rejects.toThrow('Failed to save order: Outbox insert failed');
+    });
+
+    it('should reject an order whose id already exists as a business rule violation', async () => {
+      // Arrange
+      mockMapper.toPersistence.mockReturnValue({ ...sampleOrderModel });
+      mockOrderModel.create.mockRejectedValue(new UniqueConstraintError({ message: 'Validation error' }));
+      sampleOrder.create();
+
+      // Act & Assert
+      const save = repository.save(sampleOrder);
+      await expect(save).rejects.toBeInstanceOf(BusinessRuleError);
+      await expect(save).rejects.toThrow('Order order-123 already exists');
+      expect(mockOutboxStore.add).not.toHaveBeenCalled();
     });
 
     it('should throw error when mapper fails', async () => {
@@ -288,8 +337,10 @@ describe('PostgresOrderRepository', () => {
       // Assert
       expect(mockMapper.toPersistence).toHaveBeenCalledWith(sampleOrder);
       expect(mockOrderModel.update).toHaveBeenCalledWith(persistenceData, {
-        where: { id: sampleOrder.id }
+        where: { id: sampleOrder.id },
+        transaction
       });
+      expect(mockOutboxStore.add).toHaveBeenCalledWith(sampleOrder.domainEvents, transaction);
     });
 
     it('should throw error when mapper fails', async () => {
@@ -409,7 +460,7 @@ describe('PostgresOrderRepository', () => {
 
       // Assert
       expect(mockMapper.toPersistence).toHaveBeenCalledWith(sampleOrder);
-      expect(mockOrderModel.create).toHaveBeenCalledWith(customPersistenceData);
+      expect(mockOrderModel.create).toHaveBeenCalledWith(customPersistenceData, { transaction });
     });
 
     it('should handle complex order data in update', async () => {
@@ -439,7 +490,8 @@ describe('PostgresOrderRepository', () => {
       // Assert
       expect(mockMapper.toPersistence).toHaveBeenCalledWith(complexOrder);
       expect(mockOrderModel.update).toHaveBeenCalledWith(complexPersistenceData, {
-        where: { id: complexOrder.id }
+        where: { id: complexOrder.id },
+        transaction
       });
     });
 
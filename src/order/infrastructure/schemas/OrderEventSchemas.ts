@@ -0,0 +1,71 @@
+import { EventSchema } from '../../../shared/infrastructure/schema/EventSchemaRegistry';
+import { JsonSchema } from '../../../shared/infrastructure/schema/JsonSchema';
+
+const id: JsonSchema = { type: 'string', minLength: 1 };
+
+const price: JsonSchema = { type: 'number', minimum: 0 };
+
+const orderCreated = (item: JsonSchema): JsonSchema => ({
+  type: 'object',
+  required: ['orderId', 'customerId', 'total', 'items'],
+  properties: {
+    orderId: id,
+    customerId: id,
+    total: { type: 'number', exclusiveMinimum: 0 },
+    items: { type: 'array', minItems: 1, items: item }
+  }
+});
+
+const orderCreatedV1 = orderCreated({
+  type: 'object',
+  required: ['productId', 'quantity', 'price'],
+  properties: {
+    productId: id,
+    quantity: { type: 'integer', minimum: 1 },
+    price
+  }
+});
+
+const orderCreatedV2 = orderCreated({
+  type: 'object',
+  required: ['productId', 'quantity', 'unitPrice', 'totalPrice'],
+  properties: {
+    productId: id,
+    quantity: { type: 'integer', minimum: 1 },
+    unitPrice: price,
+    totalPrice: price
+  }
+});
+
+const orderCancelledV1: JsonSchema = {
+  type: 'object',
+  required: ['orderId', 'customerId', 'cancelledAt'],
+  properties: {
+    orderId: id,
+    customerId: id,
+    reason: { type: 'string' },
+    cancelledAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+const orderCompletedV1: JsonSchema = {
+  type: 'object',
+  required: ['orderId', 'customerId', 'total', 'completedAt'],
+  properties: {
+    orderId: id,
+    customerId: id,
+    total: { type: 'number', minimum: 0 },
+    completedAt: { type: 'string', format: 'date-time' }
+  }
+};
+
+/**
+ * Schemas of the data of the events raised by the Order aggregate, older
+ * versions included, as events are validated before they are upcast
+ */
+export const ORDER_EVENT_SCHEMAS: EventSchema[] = [
+  { eventType: 'OrderCreated', version: 1, schema: orderCreatedV1 },
+  { eventType: 'OrderCreated', version: 2, schema: orderCreatedV2 },
+  { eventType: 'OrderCancelled', version: 1, schema: orderCancelledV1 },
+  { eventType: 'OrderCompleted', version: 1, schema: orderCompletedV1 }
+];
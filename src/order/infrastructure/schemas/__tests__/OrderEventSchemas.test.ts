@@ -0,0 +1,104 @@
+import { ORDER_EVENT_SCHEMAS } from '../OrderEventSchemas';
+import { EventSchemaRegistry } from '../../../../shared/infrastructure/schema/EventSchemaRegistry';
+import { Logger } from '../../../../shared/application/logging/logger';
+import { DomainEvent } from '../../../../shared/domain/events/DomainEvent';
+import { Order } from '../../../domain/entities/Order';
+import { Address } from '../../../domain/value-objects/Address';
+import { Money } from '../../../domain/value-objects/Money';
+import { OrderItem } from '../../../domain/value-objects/OrderItem';
+
+describe('ORDER_EVENT_SCHEMAS', () => {
+  let registry: EventSchemaRegistry;
+  let order: Order;
+
+  const createOrder = (): Order => {
+    const address = new Address({
+      street: 'Main St',
+      number: '123',
+      neighborhood: 'Downtown',
+      city: 'New York',
+      state: 'NY',
+      zipCode: '10001',
+      country: 'USA'
+    });
+
+    const order = new Order({
+      id: 'order-456',
+      customerId: 'customer-789',
+      items: [new OrderItem({
+        productId: 'product-123',
+        quantity: 2,
+        unitPrice: new Money(50),
+        totalPrice: new Money(100)
+      })],
+      total: new Money(100),
+      status: 'pending',
+      shippingAddress: address,
+      billingAddress: address
+    });
+    order.create();
+    return order;
+  };
+
+  const withData = (event: DomainEvent, data: Record<string, any>): DomainEvent =>
+    ({ ...event, data: { ...event.data, ...data } });
+
+  beforeEach(() => {
+    const mockLogger: jest.Mocked<Logger> = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    registry = new EventSchemaRegistry(mockLogger, { mode: 'strict' }).register(...ORDER_EVENT_SCHEMAS);
+    order = createOrder();
+  });
+
+  it('should accept every event the Order aggregate raises', () => {
+    // Arrange
+    const created = order.pullDomainEvents();
+    order.complete();
+    const completed = order.pullDomainEvents();
+    const cancelled = createOrder();
+    cancelled.cancel('Customer request');
+
+    // Act
+    const events = [...created, ...completed, ...cancelled.pullDomainEvents()];
+
+    // Assert
+    expect(events.map(event => event.eventType)).toEqual(['OrderCreated', 'OrderCompleted', 'OrderCreated', 'OrderCancelled']);
+    events.forEach(event => expect(() => registry.validate(event)).not.toThrow());
+  });
+
+  describe('OrderCreated', () => {
+    let created: DomainEvent;
+
+    beforeEach(() => {
+      created = order.pullDomainEvents()[0]!;
+    });
+
+    it.each([
+      ['customerId is null', { customerId: null }, 'data.customerId must be of type string'],
+      ['customerId is empty', { customerId: '' }, 'data.customerId must not be empty'],
+      ['total is not a number', { total: 'invalid' }, 'data.total must be of type number'],
+      ['total is zero', { total: 0 }, 'data.total must be greater than 0'],
+      ['total is negative', { total: -100 }, 'data.total must be greater than 0'],
+      ['items is not an array', { items: 'invalid' }, 'data.items must be of type array'],
+      ['items is empty', { items: [] }, 'data.items must not be empty'],
+      ['items is null', { items: null }, 'data.items must be of type array'],
+      ['an item has no product', { items: [{ quantity: 1, price: 10 }] }, 'data.items[0].productId is required']
+    ])('should reject the event when %s', (_case, data, violation) => {
+      expect(() => registry.validate(withData(created, data))).toThrow(violation);
+    });
+  });
+
+  it('should reject a cancellation without a valid date', () => {
+    // Arrange
+    order.cancel('Customer request');
+    const [, cancelled] = order.pullDomainEvents() as DomainEvent[];
+
+    // Act & Assert
+    expect(() => registry.validate(withData(cancelled!, { cancelledAt: 'today' })))
+      .toThrow('Invalid OrderCancelled event (version 1): data.cancelledAt must be an ISO 8601 date-time');
+  });
+});
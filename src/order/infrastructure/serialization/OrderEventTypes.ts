@@ -0,0 +1,24 @@
+import { EventTypeRegistration } from '../../../shared/infrastructure/serialization/EventSerializer';
+import { OrderCreatedEvent } from '../../domain/events/OrderCreatedEvent';
+import { OrderCancelledEvent } from '../../domain/events/OrderCancelledEvent';
+import { OrderCompletedEvent } from '../../domain/events/OrderCompletedEvent';
+
+const orderCreated: EventTypeRegistration<OrderCreatedEvent> = {
+  eventType: 'OrderCreated',
+  restore: (data, metadata) => new OrderCreatedEvent(data, metadata)
+};
+
+const orderCancelled: EventTypeRegistration<OrderCancelledEvent> = {
+  eventType: 'OrderCancelled',
+  restore: (data, metadata) => new OrderCancelledEvent(data, metadata)
+};
+
+const orderCompleted: EventTypeRegistration<OrderCompletedEvent> = {
+  eventType: 'OrderCompleted',
+  restore: (data, metadata) => new OrderCompletedEvent(data, metadata)
+};
+
+/**
+ * Event classes of the events raised by the Order aggregate
+ */
+export const ORDER_EVENT_TYPES: EventTypeRegistration[] = [orderCreated, orderCancelled, orderCompleted];
@@ -0,0 +1,98 @@
+import { ORDER_EVENT_TYPES } from '../OrderEventTypes';
+import { ORDER_EVENT_UPCASTERS } from '../../upcasting/OrderEventUpcasters';
+import { EventSerializer } from '../../../../shared/infrastructure/serialization/EventSerializer';
+import { EventUpcasterChain } from '../../../../shared/infrastructure/upcasting/EventUpcasterChain';
+import { Logger } from '../../../../shared/application/logging/logger';
+import { Order } from '../../../domain/entities/Order';
+import { Address } from '../../../domain/value-objects/Address';
+import { OrderItem } from '../../../domain/value-objects/OrderItem';
+import { Money } from '../../../domain/value-objects/Money';
+import { OrderCreatedEvent } from '../../../domain/events/OrderCreatedEvent';
+import { OrderCancelledEvent } from '../../../domain/events/OrderCancelledEvent';
+import { OrderCompletedEvent } from '../../../domain/events/OrderCompletedEvent';
+
+describe('ORDER_EVENT_TYPES', () => {
+  let serializer: EventSerializer;
+
+  const address = new Address({
+    street: 'Main St',
+    number: '123',
+    neighborhood: 'Downtown',
+    city: 'New York',
+    state: 'NY',
+    zipCode: '10001',
+    country: 'USA'
+  });
+  const order = new Order({
+    id: 'order-456',
+    customerId: 'customer-789',
+    items: [new OrderItem({
+      productId: 'product-123',
+      quantity: 2,
+      unitPrice: new Money(50),
+      totalPrice: new Money(100)
+    })],
+    total: new Money(100),
+    status: 'pending',
+    shippingAddress: address,
+    billingAddress: address
+  });
+
+  // Through JSON, as the consumer receives them
+  const roundTrip = (event: Parameters<EventSerializer['serialize']>[0]) =>
+    serializer.deserialize(JSON.parse(JSON.stringify(serializer.serialize(event))));
+
+  beforeEach(() => {
+    serializer = new EventSerializer().register(...ORDER_EVENT_TYPES);
+  });
+
+  it.each([
+    ['OrderCreated', () => OrderCreatedEvent.fromOrder(order), OrderCreatedEvent],
+    ['OrderCancelled', () => OrderCancelledEvent.fromOrder(order, 'Out of stock'), OrderCancelledEvent],
+    ['OrderCompleted', () => OrderCompletedEvent.fromOrder(order), OrderCompletedEvent]
+  ])('should rebuild %s events as instances of their class', (_type, raise, eventClass) => {
+    // Arrange
+    const event = raise();
+
+    // Act
+    const restored = roundTrip(event);
+
+    // Assert
+    expect(restored).toBeInstanceOf(eventClass);
+    expect(restored.eventId).toEqual(event.eventId);
+    expect(restored.aggregateId).toBe('order-456');
+  });
+
+  it('should keep an OrderCreated version 1 message an OrderCreatedEvent once upcast', () => {
+    // Arrange
+    const mockLogger: jest.Mocked<Logger> = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    const chain = new EventUpcasterChain(mockLogger).register(...ORDER_EVENT_UPCASTERS);
+    const message = {
+      eventId: '550e8400-e29b-41d4-a716-446655440000',
+      eventType: 'OrderCreated',
+      aggregateId: 'order-456',
+      occurredOn: '2024-01-15T10:30:00.000Z',
+      version: 1,
+      data: {
+        orderId: 'order-456',
+        customerId: 'customer-789',
+        total: 100,
+        items: [{ productId: 'product-123', quantity: 2, price: 50 }]
+      }
+    };
+
+    // Act
+    const upcast = chain.upcast(serializer.deserialize(message));
+
+    // Assert
+    expect(upcast).toBeInstanceOf(OrderCreatedEvent);
+    expect((upcast as OrderCreatedEvent).data.items).toEqual([
+      { productId: 'product-123', quantity: 2, unitPrice: 50, totalPrice: 100 }
+    ]);
+  });
+});
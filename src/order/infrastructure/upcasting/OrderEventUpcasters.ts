@@ -0,0 +1,28 @@
+import { EventUpcaster } from '../../../shared/infrastructure/upcasting/EventUpcasterChain';
+
+/**
+ * OrderCreated version 1 -> 2: the item `price` (the unit price) becomes
+ * `unitPrice`, and `totalPrice` is added as unit price times quantity
+ */
+export class OrderCreatedV1Upcaster implements EventUpcaster {
+  readonly eventType = 'OrderCreated';
+  readonly fromVersion = 1;
+
+  upcast(data: Record<string, any>): Record<string, any> {
+    return {
+      ...data,
+      items: data.items.map(({ price, ...item }: Record<string, any>) => ({
+        ...item,
+        unitPrice: price,
+        totalPrice: Math.round(price * item.quantity * 100) / 100
+      }))
+    };
+  }
+}
+
+/**
+ * Upcasters of the events raised by the Order aggregate
+ */
+export const ORDER_EVENT_UPCASTERS: EventUpcaster[] = [
+  new OrderCreatedV1Upcaster()
+];
@@ -0,0 +1,64 @@
+import { ORDER_EVENT_UPCASTERS } from '../OrderEventUpcasters';
+import { ORDER_EVENT_SCHEMAS } from '../../schemas/OrderEventSchemas';
+import { EventUpcasterChain } from '../../../../shared/infrastructure/upcasting/EventUpcasterChain';
+import { EventSchemaRegistry } from '../../../../shared/infrastructure/schema/EventSchemaRegistry';
+import { Logger } from '../../../../shared/application/logging/logger';
+import { DomainEvent } from '../../../../shared/domain/events/DomainEvent';
+import { EventId } from '../../../../shared/domain/value-objects/EventId';
+import { OrderCreatedEvent } from '../../../domain/events/OrderCreatedEvent';
+
+describe('ORDER_EVENT_UPCASTERS', () => {
+  let chain: EventUpcasterChain;
+  let registry: EventSchemaRegistry;
+
+  // As published before items carried unitPrice and totalPrice
+  const orderCreatedV1: DomainEvent = {
+    eventId: new EventId(),
+    eventType: 'OrderCreated',
+    aggregateId: 'order-456',
+    occurredOn: new Date(),
+    version: 1,
+    data: {
+      orderId: 'order-456',
+      customerId: 'customer-789',
+      total: 100.29,
+      items: [
+        { productId: 'product-123', quantity: 2, price: 50 },
+        { productId: 'product-124', quantity: 3, price: 0.1 }
+      ]
+    }
+  };
+
+  beforeEach(() => {
+    const mockLogger: jest.Mocked<Logger> = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    chain = new EventUpcasterChain(mockLogger).register(...ORDER_EVENT_UPCASTERS);
+    registry = new EventSchemaRegistry(mockLogger, { mode: 'strict' }).register(...ORDER_EVENT_SCHEMAS);
+  });
+
+  it('should upcast OrderCreated to the version the domain raises', () => {
+    // Act
+    const upcast = chain.upcast(orderCreatedV1);
+
+    // Assert
+    expect(upcast.version).toBe(OrderCreatedEvent.VERSION);
+    expect(upcast.data.items).toEqual([
+      { productId: 'product-123', quantity: 2, unitPrice: 50, totalPrice: 100 },
+      { productId: 'product-124', quantity: 3, unitPrice: 0.1, totalPrice: 0.3 }
+    ]);
+    expect(() => registry.validate(upcast)).not.toThrow();
+  });
+
+  it('should validate each OrderCreated version against its own schema', () => {
+    // Arrange
+    const v2WithV1Items = { ...orderCreatedV1, version: 2 };
+
+    // Act & Assert
+    expect(() => registry.validate(orderCreatedV1)).not.toThrow();
+    expect(() => registry.validate(v2WithV1Items)).toThrow('data.items[0].unitPrice is required');
+  });
+});
@@ -0,0 +1,30 @@
+import { DomainEvent } from '../events/DomainEvent';
+
+/**
+ * Base class of aggregates that record domain events.
+ *
+ * Events stay pending until they are pulled, which the application does
+ * once the aggregate has been saved, so an aggregate saved again later
+ * does not emit them a second time.
+ */
+export abstract class AggregateRoot {
+  private _domainEvents: DomainEvent[] = [];
+
+  /** Events recorded since they were last pulled */
+  get domainEvents(): readonly DomainEvent[] {
+    return [...this._domainEvents];
+  }
+
+  /**
+   * Returns the pending events and clears them
+   */
+  pullDomainEvents(): DomainEvent[] {
+    const events = this._domainEvents;
+    this._domainEvents = [];
+    return events;
+  }
+
+  protected addDomainEvent(event: DomainEvent): void {
+    this._domainEvents.push(event);
+  }
+}
@@ -0,0 +1,7 @@
+import { DomainError } from './DomainError';
+
+/**
+ * The operation conflicts with the entity's current state,
+ * e.g. cancelling an order that is already completed
+ */
+export class BusinessRuleError extends DomainError {}
@@ -0,0 +1,10 @@
+/**
+ * Base class for errors raised by domain rules. They are deterministic:
+ * handling the same input again fails the same way, so they are never retried.
+ */
+export abstract class DomainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * The referenced entity does not exist
+ */
+export class NotFoundError extends DomainError {}
@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Input or event data does not satisfy the domain's constraints
+ */
+export class ValidationError extends DomainError {}
@@ -1,26 +1,32 @@
 import { EventId } from '../value-objects/EventId';
 
-export interface DomainEvent {
+export interface DomainEvent<TData extends Record<string, any> = Record<string, any>> {
   readonly eventId: EventId;
   readonly eventType: string;
   readonly aggregateId: string;
   readonly occurredOn: Date;
   readonly version: number;
-  readonly data: Record<string, any>;
+  readonly data: TData;
 }
 
-export abstract class BaseDomainEvent implements DomainEvent {
+/**
+ * What identifies an event that already happened, to rebuild it with
+ */
+export type DomainEventMetadata = Pick<DomainEvent, 'eventId' | 'occurredOn' | 'version'>;
+
+export abstract class BaseDomainEvent<TData extends Record<string, any> = Record<string, any>>
+  implements DomainEvent<TData> {
   public readonly eventId: EventId;
   public readonly eventType: string;
   public readonly aggregateId: string;
   public readonly occurredOn: Date;
   public readonly version: number;
-  public readonly data: Record<string, any>;
+  public readonly data: TData;
 
   constructor(
     eventType: string,
     aggregateId: string,
-    data: Record<string, any>,
+    data: TData,
     version: number = 1,
     eventId?: EventId,
     occurredOn?: Date
@@ -32,4 +38,4 @@ export abstract class BaseDomainEvent implements DomainEvent {
     this.version = version;
     this.data = data;
   }
-} 
\ No newline at end of file
+}
@@ -1,5 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import { ValueObject } from './ValueObject';
+import { ValidationError } from '../errors/ValidationError';
 
 export class EventId extends ValueObject<string> {
   constructor(value?: string) {
@@ -10,7 +11,7 @@ export class EventId extends ValueObject<string> {
   private validate(): void {
     const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
     if (!uuidRegex.test(this.getValue())) {
-      throw new Error('Invalid EventId format');
+      throw new ValidationError('Invalid EventId format');
     }
   }
 
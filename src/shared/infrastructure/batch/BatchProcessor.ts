@@ -2,6 +2,9 @@
 
 import { Logger } from '../../../shared/application/logging/logger';
 import { DomainEvent } from '../../domain/events/DomainEvent';
+import { MessageDelivery } from '../messaging/MessageDelivery';
+import { DefaultErrorClassifier, ErrorClassifier } from '../retry/ErrorClassifier';
+import { PipelineMetrics } from '../metrics/PipelineMetrics';
 
 export interface BatchProcessorConfig {
   batchSize: number;
@@ -14,11 +17,28 @@ export interface ProcessingStrategy {
   getStrategyName(): string;
 }
 
+/**
+ * What happened to a single event of a batch. Retryable failures are worth
+ * another attempt; permanent ones (no strategy, bad data) never will succeed.
+ */
+export type EventOutcome =
+  | { status: 'success' }
+  | { status: 'retryable'; error: Error }
+  | { status: 'permanent'; error: Error };
+
+interface BatchEntry {
+  event: DomainEvent;
+  /** Receives the event's outcome once its strategy has run */
+  delivery?: MessageDelivery;
+}
+
 export class BatchProcessor {
   private readonly logger: Logger;
   private readonly config: BatchProcessorConfig;
+  private readonly errorClassifier: ErrorClassifier;
+  private readonly metrics?: PipelineMetrics;
   private strategies: Map<string, ProcessingStrategy> = new Map();
-  private eventBatch: DomainEvent[] = [];
+  private eventBatch: BatchEntry[] = [];
   private batchTimer: NodeJS.Timeout | null = null;
   private isShuttingDown: boolean = false;
   private processedCount: number = 0;
@@ -26,11 +46,20 @@ export class BatchProcessor {
   private lastProcessingTime: number = 0;
   private totalProcessingTime: number = 0;
   private errorCount: number = 0;
+  private retryableFailureCount: number = 0;
+  private permanentFailureCount: number = 0;
   private successCount: number = 0;
 
-  constructor(logger: Logger, config: BatchProcessorConfig) {
+  constructor(
+    logger: Logger,
+    config: BatchProcessorConfig,
+    errorClassifier: ErrorClassifier = new DefaultErrorClassifier(),
+    metrics?: PipelineMetrics
+  ) {
     this.logger = logger;
     this.config = config;
+    this.errorClassifier = errorClassifier;
+    this.metrics = metrics;
     this.startBatchTimer();
     this.logger.info('BatchProcessor initialized', {
       batchSize: config.batchSize,
@@ -47,16 +76,18 @@ export class BatchProcessor {
     });
   }
 
-  async addEvent(event: DomainEvent): Promise<void> {
+  async addEvent(event: DomainEvent, delivery?: MessageDelivery): Promise<void> {
     if (this.isShuttingDown) {
       this.logger.warn('Rejecting event - BatchProcessor is shutting down', {
         eventType: event.eventType,
         eventId: event.eventId.value
       });
+      // Hand it back to the broker so another consumer picks it up
+      await this.settle(event, () => delivery?.requeue());
       return;
     }
 
-    this.eventBatch.push(event);
+    this.eventBatch.push({ event, delivery });
     
     this.logger.info(`📦 Event added to batch`, {
       eventType: event.eventType,
@@ -88,46 +119,33 @@ export class BatchProcessor {
 
     this.logger.info(`🔄 Processing batch #${batchId}`, {
       batchSize: currentBatch.length,
-      eventTypes: this.getEventTypeCounts(currentBatch)
+      eventTypes: this.getEventTypeCounts(currentBatch.map(entry => entry.event))
     });
 
     let batchSuccessCount = 0;
     let batchErrorCount = 0;
 
     // Process events in parallel for better performance
-    const processingPromises = currentBatch.map(async (event) => {
-      try {
-        const strategy = this.strategies.get(event.eventType);
-        
-        if (!strategy) {
-          this.logger.warn(`No strategy found for event type: ${event.eventType}`, {
-            eventId: event.eventId.value,
-            availableStrategies: Array.from(this.strategies.keys())
-          });
-          batchErrorCount++;
-          this.errorCount++;
-          return;
-        }
-
-
-
-        await strategy.process(event);
+    const processingPromises = currentBatch.map(async ({ event, delivery }) => {
+      const outcome = await this.processEvent(event);
+      this.metrics?.eventsProcessed.inc({ event_type: event.eventType, outcome: outcome.status });
+
+      if (outcome.status === 'success') {
         batchSuccessCount++;
         this.successCount++;
         this.processedCount++;
+        await this.acknowledge(event, delivery);
+        return;
+      }
 
-
-
-      } catch (error) {
-        batchErrorCount++;
-        this.errorCount++;
-        this.logger.error(`❌ Failed to process event`, {
-          eventType: event.eventType,
-          eventId: event.eventId.value,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          stack: error instanceof Error ? error.stack : undefined
-        });
+      batchErrorCount++;
+      this.errorCount++;
+      if (outcome.status === 'retryable') {
+        this.retryableFailureCount++;
+      } else {
+        this.permanentFailureCount++;
       }
+      await this.settle(event, () => delivery?.reject(outcome.error, outcome.status === 'retryable'));
     });
 
     await Promise.all(processingPromises);
@@ -135,6 +153,8 @@ export class BatchProcessor {
     const processingTime = Date.now() - startTime;
     this.lastProcessingTime = processingTime;
     this.totalProcessingTime += processingTime;
+    this.metrics?.batchSize.observe(currentBatch.length);
+    this.metrics?.batchDuration.observe(processingTime / 1000);
     
     this.logger.info(`✅ Batch #${batchId} processing completed`, {
       totalEvents: currentBatch.length,
@@ -150,6 +170,91 @@ export class BatchProcessor {
     this.startBatchTimer();
   }
 
+  /**
+   * Runs the event's strategy and turns whatever happened into an outcome
+   */
+  private async processEvent(event: DomainEvent): Promise<EventOutcome> {
+    const strategy = this.strategies.get(event.eventType);
+
+    if (!strategy) {
+      this.logger.warn(`No strategy found for event type: ${event.eventType}`, {
+        eventId: event.eventId.value,
+        availableStrategies: Array.from(this.strategies.keys())
+      });
+      return { status: 'permanent', error: new Error(`No strategy found for event type: ${event.eventType}`) };
+    }
+
+    const startTime = Date.now();
+    try {
+      await strategy.process(event);
+      this.observeStrategy(strategy, event, 'success', startTime);
+      return { status: 'success' };
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      const errorClass = this.errorClassifier.classify(error, event);
+      const status = errorClass === 'retryable' ? 'retryable' : 'permanent';
+      this.observeStrategy(strategy, event, status, startTime);
+      this.logger.error(`❌ Failed to process event`, {
+        eventType: event.eventType,
+        eventId: event.eventId.value,
+        errorClass,
+        error: error.message,
+        stack: error.stack
+      });
+      return { status, error };
+    }
+  }
+
+  private observeStrategy(
+    strategy: ProcessingStrategy,
+    event: DomainEvent,
+    outcome: EventOutcome['status'],
+    startTime: number
+  ): void {
+    this.metrics?.strategyDuration.observe((Date.now() - startTime) / 1000, {
+      strategy: strategy.getStrategyName(),
+      event_type: event.eventType,
+      outcome
+    });
+  }
+
+  /**
+   * Acks a processed event. If the ack itself fails (e.g. the ledger write
+   * behind it) the message is requeued rather than left unacked.
+   */
+  private async acknowledge(event: DomainEvent, delivery?: MessageDelivery): Promise<void> {
+    if (!delivery) {
+      return;
+    }
+
+    try {
+      await delivery.ack();
+    } catch (error) {
+      this.logger.error('❌ Failed to ack processed event - requeueing', {
+        eventType: event.eventType,
+        eventId: event.eventId.value,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      await this.settle(event, () => delivery.requeue());
+    }
+  }
+
+  /**
+   * Settles a deferred delivery; failures are only logged so they never
+   * affect the rest of the batch.
+   */
+  private async settle(event: DomainEvent, settle: () => Promise<void> | undefined): Promise<void> {
+    try {
+      await settle();
+    } catch (error) {
+      this.logger.error('❌ Failed to settle event delivery', {
+        eventType: event.eventType,
+        eventId: event.eventId.value,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
   private getEventTypeCounts(events: DomainEvent[]): Record<string, number> {
     return events.reduce((counts, event) => {
       counts[event.eventType] = (counts[event.eventType] || 0) + 1;
@@ -221,6 +326,10 @@ export class BatchProcessor {
     return this.totalProcessingTime / this.batchCount;
   }
 
+  getFailureCounts(): { retryable: number; permanent: number } {
+    return { retryable: this.retryableFailureCount, permanent: this.permanentFailureCount };
+  }
+
   getSuccessRate(): number {
     return (this.successCount / (this.successCount + this.errorCount)) * 100;
   }
@@ -0,0 +1,225 @@
+import { BatchProcessor, ProcessingStrategy } from '../BatchProcessor';
+import { Logger } from '../../../application/logging/logger';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { EventId } from '../../../domain/value-objects/EventId';
+import { MessageDelivery } from '../../messaging/MessageDelivery';
+import { ValidationError } from '../../../domain/errors/ValidationError';
+import { PipelineMetrics } from '../../metrics/PipelineMetrics';
+
+describe('BatchProcessor', () => {
+  let batchProcessor: BatchProcessor;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockStrategy: jest.Mocked<ProcessingStrategy>;
+
+  const createEvent = (eventType: string = 'OrderCreated'): DomainEvent => ({
+    eventId: new EventId(),
+    eventType,
+    aggregateId: 'order-123',
+    data: {},
+    version: 1,
+    occurredOn: new Date()
+  });
+
+  const createDelivery = (): jest.Mocked<MessageDelivery> => ({
+    deliveryTag: 1,
+    attempt: 1,
+    ack: jest.fn().mockResolvedValue(undefined),
+    reject: jest.fn().mockResolvedValue(undefined),
+    requeue: jest.fn().mockResolvedValue(undefined)
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    mockStrategy = {
+      process: jest.fn().mockResolvedValue(undefined),
+      getStrategyName: jest.fn().mockReturnValue('MockStrategy')
+    };
+
+    batchProcessor = new BatchProcessor(mockLogger, { batchSize: 2, batchIntervalMs: 1000, maxWaitTimeMs: 2000 });
+    batchProcessor.registerStrategy('OrderCreated', mockStrategy);
+  });
+
+  afterEach(async () => {
+    await batchProcessor.shutdown();
+    jest.useRealTimers();
+  });
+
+  describe('deferred acknowledgement', () => {
+    it('should not ack an event until its batch has been processed', async () => {
+      // Arrange
+      const delivery = createDelivery();
+
+      // Act
+      await batchProcessor.addEvent(createEvent(), delivery);
+
+      // Assert
+      expect(delivery.ack).not.toHaveBeenCalled();
+
+      await batchProcessor.addEvent(createEvent(), createDelivery());
+      expect(mockStrategy.process).toHaveBeenCalledTimes(2);
+      expect(delivery.ack).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ack events flushed by the batch timer', async () => {
+      // Arrange
+      const delivery = createDelivery();
+      await batchProcessor.addEvent(createEvent(), delivery);
+
+      // Act
+      await jest.advanceTimersByTimeAsync(1000);
+
+      // Assert
+      expect(delivery.ack).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an event whose strategy failed as retryable and ack the rest of the batch', async () => {
+      // Arrange
+      const failing = createDelivery();
+      const succeeding = createDelivery();
+      mockStrategy.process.mockRejectedValueOnce(new Error('Inventory unavailable'));
+
+      // Act
+      await batchProcessor.addEvent(createEvent(), failing);
+      await batchProcessor.addEvent(createEvent(), succeeding);
+
+      // Assert
+      expect(failing.reject).toHaveBeenCalledWith(expect.objectContaining({ message: 'Inventory unavailable' }), true);
+      expect(failing.ack).not.toHaveBeenCalled();
+      expect(succeeding.ack).toHaveBeenCalled();
+    });
+
+    it('should reject events without a registered strategy as permanent failures', async () => {
+      // Arrange
+      const delivery = createDelivery();
+
+      // Act
+      await batchProcessor.addEvent(createEvent('OrderRefunded'), delivery);
+      await batchProcessor.addEvent(createEvent(), createDelivery());
+
+      // Assert
+      expect(delivery.reject).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'No strategy found for event type: OrderRefunded' }),
+        false
+      );
+      expect(batchProcessor.getFailureCounts()).toEqual({ retryable: 0, permanent: 1 });
+    });
+
+    it('should requeue an event whose ack failed', async () => {
+      // Arrange
+      const delivery = createDelivery();
+      delivery.ack.mockRejectedValue(new Error('Ledger unavailable'));
+
+      // Act
+      await batchProcessor.addEvent(createEvent(), delivery);
+      await batchProcessor.addEvent(createEvent(), createDelivery());
+
+      // Assert
+      expect(delivery.requeue).toHaveBeenCalled();
+    });
+
+    it('should process and ack pending events on shutdown, then requeue new ones', async () => {
+      // Arrange
+      const pending = createDelivery();
+      const late = createDelivery();
+      await batchProcessor.addEvent(createEvent(), pending);
+
+      // Act
+      await batchProcessor.shutdown();
+      await batchProcessor.addEvent(createEvent(), late);
+
+      // Assert
+      expect(pending.ack).toHaveBeenCalled();
+      expect(late.requeue).toHaveBeenCalled();
+      expect(mockStrategy.process).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('failure classification', () => {
+    it('should report strategy failures the classifier deems permanent', async () => {
+      // Arrange
+      await batchProcessor.shutdown();
+      const classifier = { classify: jest.fn().mockReturnValue('non-retryable') };
+      batchProcessor = new BatchProcessor(
+        mockLogger,
+        { batchSize: 1, batchIntervalMs: 1000, maxWaitTimeMs: 2000 },
+        classifier
+      );
+      batchProcessor.registerStrategy('OrderCreated', mockStrategy);
+      const error = new Error('Order total mismatch');
+      mockStrategy.process.mockRejectedValueOnce(error);
+      const delivery = createDelivery();
+      const event = createEvent();
+
+      // Act
+      await batchProcessor.addEvent(event, delivery);
+
+      // Assert
+      expect(classifier.classify).toHaveBeenCalledWith(error, event);
+      expect(delivery.reject).toHaveBeenCalledWith(error, false);
+      expect(batchProcessor.getFailureCounts()).toEqual({ retryable: 0, permanent: 1 });
+    });
+
+    it('should treat domain errors as permanent by default', async () => {
+      // Arrange
+      const error = new ValidationError('Invalid order: customerId is required');
+      mockStrategy.process.mockRejectedValueOnce(error);
+      const delivery = createDelivery();
+
+      // Act
+      await batchProcessor.addEvent(createEvent(), delivery);
+      await batchProcessor.addEvent(createEvent(), createDelivery());
+
+      // Assert
+      expect(delivery.reject).toHaveBeenCalledWith(error, false);
+    });
+
+    it('should count infrastructure failures as retryable by default', async () => {
+      // Arrange
+      mockStrategy.process.mockRejectedValueOnce(new Error('Database timeout'));
+
+      // Act
+      await batchProcessor.addEvent(createEvent(), createDelivery());
+      await batchProcessor.addEvent(createEvent(), createDelivery());
+
+      // Assert
+      expect(batchProcessor.getFailureCounts()).toEqual({ retryable: 1, permanent: 0 });
+    });
+  });
+
+  describe('metrics', () => {
+    it('should record batch sizes, strategy latency and outcomes', async () => {
+      // Arrange
+      await batchProcessor.shutdown();
+      const metrics = new PipelineMetrics();
+      batchProcessor = new BatchProcessor(
+        mockLogger,
+        { batchSize: 2, batchIntervalMs: 1000, maxWaitTimeMs: 2000 },
+        undefined,
+        metrics
+      );
+      batchProcessor.registerStrategy('OrderCreated', mockStrategy);
+      mockStrategy.process.mockRejectedValueOnce(new Error('Database timeout'));
+
+      // Act
+      await batchProcessor.addEvent(createEvent(), createDelivery());
+      await batchProcessor.addEvent(createEvent(), createDelivery());
+
+      // Assert
+      expect(metrics.batchSize.getCount()).toBe(1);
+      expect(metrics.eventsProcessed.get({ event_type: 'OrderCreated', outcome: 'success' })).toBe(1);
+      expect(metrics.eventsProcessed.get({ event_type: 'OrderCreated', outcome: 'retryable' })).toBe(1);
+      expect(metrics.strategyDuration.getCount({
+        strategy: 'MockStrategy', event_type: 'OrderCreated', outcome: 'success'
+      })).toBe(1);
+      expect(metrics.registry.render()).toContain('event_processor_batch_size_bucket{le="2"} 1');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { Logger } from '../../application/logging/logger';
+import { DefaultErrorClassifier, ErrorClassifier } from '../retry/ErrorClassifier';
+import { CircuitOpenError } from './CircuitOpenError';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  /** Share of failed calls in the window (0-1) that opens the circuit */
+  failureRateThreshold: number;
+  /** Calls the window needs before the failure rate counts */
+  minimumCalls: number;
+  /** Sliding window the failure rate is computed over */
+  windowMs: number;
+  /** How long the circuit stays open before letting trial calls through */
+  openDurationMs: number;
+  /** Trial calls while half-open; all must succeed to close the circuit */
+  halfOpenMaxCalls: number;
+  /** Stop consuming while any circuit is open, instead of only parking the messages */
+  pauseConsumption?: boolean;
+}
+
+export type CircuitStateListener = (circuit: string, state: CircuitState) => void;
+
+/**
+ * Circuit Breaker
+ *
+ * Guards calls to a dependency. While closed, calls go through and their
+ * outcomes are recorded in a sliding window; once the failure rate in the
+ * window reaches the threshold the circuit opens and calls are refused
+ * with a CircuitOpenError. After openDurationMs it turns half-open and lets
+ * a few trial calls through: if they all succeed it closes again, any
+ * failure opens it again.
+ *
+ * Only retryable errors count as failures: a validation error says nothing
+ * about the health of the dependency.
+ */
+export class CircuitBreaker {
+  private readonly logger: Logger;
+  private readonly name: string;
+  private readonly config: CircuitBreakerConfig;
+  private readonly errorClassifier: ErrorClassifier;
+  private readonly listeners: CircuitStateListener[] = [];
+  private state: CircuitState = 'closed';
+  private outcomes: Array<{ at: number; failed: boolean }> = [];
+  private openedAt: number = 0;
+  private halfOpenCalls: number = 0;
+  private halfOpenSuccesses: number = 0;
+  private halfOpenTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    logger: Logger,
+    name: string,
+    config: CircuitBreakerConfig,
+    errorClassifier: ErrorClassifier = new DefaultErrorClassifier()
+  ) {
+    this.logger = logger;
+    this.name = name;
+    this.config = config;
+    this.errorClassifier = errorClassifier;
+  }
+
+  /**
+   * Runs the operation unless the circuit is open
+   * @throws CircuitOpenError when the call is refused
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    this.acquire();
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      if (this.errorClassifier.classify(failure) === 'retryable') {
+        this.onFailure(failure);
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    }
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && this.getRetryAfterMs() === 0) {
+      this.transitionTo('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * Time left until the open circuit lets trial calls through; 0 otherwise
+   */
+  getRetryAfterMs(): number {
+    if (this.state !== 'open') {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.config.openDurationMs - Date.now());
+  }
+
+  getFailureRate(): number {
+    const outcomes = this.getWindow();
+    if (outcomes.length === 0) {
+      return 0;
+    }
+    return outcomes.filter(outcome => outcome.failed).length / outcomes.length;
+  }
+
+  onStateChange(listener: CircuitStateListener): void {
+    this.listeners.push(listener);
+  }
+
+  private acquire(): void {
+    const state = this.getState();
+
+    if (state === 'open') {
+      throw new CircuitOpenError(this.name, this.getRetryAfterMs());
+    }
+
+    if (state === 'half-open') {
+      if (this.halfOpenCalls >= this.config.halfOpenMaxCalls) {
+        // Trial calls are still running; the rest wait for their verdict
+        throw new CircuitOpenError(this.name, 0);
+      }
+      this.halfOpenCalls++;
+    }
+  }
+
+  private onSuccess(): void {
+    if (this.state === 'half-open') {
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.config.halfOpenMaxCalls) {
+        this.transitionTo('closed');
+      }
+      return;
+    }
+
+    this.record(false);
+  }
+
+  private onFailure(error: Error): void {
+    if (this.state === 'half-open') {
+      this.logger.warn(`⚡ Trial call failed - circuit "${this.name}" opens again`, {
+        error: error.message
+      });
+      this.transitionTo('open');
+      return;
+    }
+
+    if (this.state === 'open') {
+      // A call that started before the circuit opened
+      return;
+    }
+
+    this.record(true);
+
+    const outcomes = this.getWindow();
+    const failureRate = this.getFailureRate();
+    if (outcomes.length >= this.config.minimumCalls && failureRate >= this.config.failureRateThreshold) {
+      this.logger.error(`⚡ Circuit "${this.name}" opened`, {
+        failureRate,
+        calls: outcomes.length,
+        openDurationMs: this.config.openDurationMs,
+        error: error.message
+      });
+      this.transitionTo('open');
+    }
+  }
+
+  private record(failed: boolean): void {
+    this.outcomes.push({ at: Date.now(), failed });
+  }
+
+  private getWindow(): Array<{ at: number; failed: boolean }> {
+    const since = Date.now() - this.config.windowMs;
+    this.outcomes = this.outcomes.filter(outcome => outcome.at > since);
+    return this.outcomes;
+  }
+
+  private transitionTo(state: CircuitState): void {
+    if (this.state === state) {
+      return;
+    }
+
+    this.state = state;
+    this.halfOpenCalls = 0;
+    this.halfOpenSuccesses = 0;
+    this.clearHalfOpenTimer();
+
+    if (state === 'open') {
+      this.openedAt = Date.now();
+      // Turn half-open on time even if no call comes by, e.g. while consumption is paused
+      this.halfOpenTimer = setTimeout(() => this.getState(), this.config.openDurationMs);
+      this.halfOpenTimer.unref?.();
+    } else if (state === 'closed') {
+      this.outcomes = [];
+    }
+
+    this.logger.info(`⚡ Circuit "${this.name}" is now ${state}`);
+    for (const listener of this.listeners) {
+      try {
+        listener(this.name, state);
+      } catch (error) {
+        this.logger.error(`❌ Circuit state listener failed`, {
+          circuit: this.name,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  private clearHalfOpenTimer(): void {
+    if (this.halfOpenTimer) {
+      clearTimeout(this.halfOpenTimer);
+      this.halfOpenTimer = null;
+    }
+  }
+}
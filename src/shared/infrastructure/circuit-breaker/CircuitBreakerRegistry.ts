@@ -0,0 +1,60 @@
+import { Logger } from '../../application/logging/logger';
+import { DefaultErrorClassifier, ErrorClassifier } from '../retry/ErrorClassifier';
+import { CircuitBreaker, CircuitBreakerConfig, CircuitState, CircuitStateListener } from './CircuitBreaker';
+
+/**
+ * One circuit breaker per dependency, created on first use, so strategies
+ * and the consumer share the state of e.g. the "payment" circuit.
+ */
+export class CircuitBreakerRegistry {
+  private readonly logger: Logger;
+  private readonly config: CircuitBreakerConfig;
+  private readonly errorClassifier: ErrorClassifier;
+  private readonly breakers: Map<string, CircuitBreaker> = new Map();
+  private readonly listeners: CircuitStateListener[] = [];
+
+  constructor(
+    logger: Logger,
+    config: CircuitBreakerConfig,
+    errorClassifier: ErrorClassifier = new DefaultErrorClassifier()
+  ) {
+    this.logger = logger;
+    this.config = config;
+    this.errorClassifier = errorClassifier;
+  }
+
+  get(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.logger, name, this.config, this.errorClassifier);
+      breaker.onStateChange((circuit, state) => this.notify(circuit, state));
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  getAll(): CircuitBreaker[] {
+    return Array.from(this.breakers.values());
+  }
+
+  getConfig(): CircuitBreakerConfig {
+    return this.config;
+  }
+
+  hasOpenCircuit(): boolean {
+    return this.getAll().some(breaker => breaker.getState() === 'open');
+  }
+
+  /**
+   * Listens to state changes of every circuit, including ones created later
+   */
+  onStateChange(listener: CircuitStateListener): void {
+    this.listeners.push(listener);
+  }
+
+  private notify(circuit: string, state: CircuitState): void {
+    for (const listener of this.listeners) {
+      listener(circuit, state);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * A call was refused because its circuit is open: the dependency behind it
+ * is failing, so the call was not even attempted.
+ */
+export class CircuitOpenError extends Error {
+  readonly circuit: string;
+  /** How long until the circuit lets a trial call through */
+  readonly retryAfterMs: number;
+
+  constructor(circuit: string, retryAfterMs: number) {
+    super(`Circuit "${circuit}" is open`);
+    this.name = 'CircuitOpenError';
+    this.circuit = circuit;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
@@ -0,0 +1,213 @@
+import { CircuitBreaker, CircuitBreakerConfig } from '../CircuitBreaker';
+import { CircuitBreakerRegistry } from '../CircuitBreakerRegistry';
+import { CircuitOpenError } from '../CircuitOpenError';
+import { Logger } from '../../../application/logging/logger';
+import { ValidationError } from '../../../domain/errors/ValidationError';
+
+describe('CircuitBreaker', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let breaker: CircuitBreaker;
+
+  const config: CircuitBreakerConfig = {
+    failureRateThreshold: 0.5,
+    minimumCalls: 4,
+    windowMs: 10000,
+    openDurationMs: 5000,
+    halfOpenMaxCalls: 2
+  };
+
+  const succeed = () => breaker.execute(async () => 'ok');
+  const fail = (error: Error = new Error('Payment provider unavailable')) =>
+    breaker.execute(async () => { throw error; }).catch(() => undefined);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    breaker = new CircuitBreaker(mockLogger, 'payment', config);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('closed', () => {
+    it('should pass calls through and return their result', async () => {
+      await expect(succeed()).resolves.toBe('ok');
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should not open before the window has the minimum number of calls', async () => {
+      // Act
+      await fail();
+      await fail();
+      await fail();
+
+      // Assert
+      expect(breaker.getState()).toBe('closed');
+    });
+
+    it('should open once the failure rate reaches the threshold', async () => {
+      // Arrange
+      const listener = jest.fn();
+      breaker.onStateChange(listener);
+
+      // Act
+      await succeed();
+      await succeed();
+      await fail();
+      await fail();
+
+      // Assert
+      expect(breaker.getState()).toBe('open');
+      expect(listener).toHaveBeenCalledWith('payment', 'open');
+    });
+
+    it('should forget outcomes that left the window', async () => {
+      // Arrange
+      await fail();
+      await fail();
+      await fail();
+      jest.advanceTimersByTime(10001);
+
+      // Act
+      await fail();
+
+      // Assert
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.getFailureRate()).toBe(1);
+    });
+
+    it('should not count non-retryable errors as failures', async () => {
+      // Act
+      for (let i = 0; i < 4; i++) {
+        await fail(new ValidationError('Invalid order: total must be a positive number'));
+      }
+
+      // Assert
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.getFailureRate()).toBe(0);
+    });
+  });
+
+  describe('open', () => {
+    beforeEach(async () => {
+      for (let i = 0; i < 4; i++) {
+        await fail();
+      }
+    });
+
+    it('should refuse calls without running them', async () => {
+      // Arrange
+      const operation = jest.fn().mockResolvedValue('ok');
+      jest.advanceTimersByTime(1000);
+
+      // Act & Assert
+      const error = await breaker.execute(operation).catch(e => e);
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(error).toMatchObject({ circuit: 'payment', retryAfterMs: 4000 });
+      expect(operation).not.toHaveBeenCalled();
+    });
+
+    it('should turn half-open after the open duration, even without calls', () => {
+      // Arrange
+      const listener = jest.fn();
+      breaker.onStateChange(listener);
+
+      // Act
+      jest.advanceTimersByTime(5000);
+
+      // Assert
+      expect(listener).toHaveBeenCalledWith('payment', 'half-open');
+      expect(breaker.getRetryAfterMs()).toBe(0);
+    });
+  });
+
+  describe('half-open', () => {
+    beforeEach(async () => {
+      for (let i = 0; i < 4; i++) {
+        await fail();
+      }
+      jest.advanceTimersByTime(5000);
+    });
+
+    it('should close once all trial calls succeeded', async () => {
+      // Act
+      await succeed();
+      await succeed();
+
+      // Assert
+      expect(breaker.getState()).toBe('closed');
+      expect(breaker.getFailureRate()).toBe(0);
+    });
+
+    it('should open again when a trial call fails', async () => {
+      // Act
+      await succeed();
+      await fail();
+
+      // Assert
+      expect(breaker.getState()).toBe('open');
+      expect(breaker.getRetryAfterMs()).toBe(5000);
+    });
+
+    it('should refuse calls beyond the trial calls in flight', async () => {
+      // Arrange
+      let release: () => void = () => undefined;
+      const gate = new Promise<void>(resolve => { release = resolve; });
+      const trials = [breaker.execute(() => gate), breaker.execute(() => gate)];
+
+      // Act & Assert
+      await expect(succeed()).rejects.toBeInstanceOf(CircuitOpenError);
+      release();
+      await Promise.all(trials);
+      expect(breaker.getState()).toBe('closed');
+    });
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  const mockLogger: jest.Mocked<Logger> = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  };
+  const config: CircuitBreakerConfig = {
+    failureRateThreshold: 1,
+    minimumCalls: 1,
+    windowMs: 10000,
+    openDurationMs: 5000,
+    halfOpenMaxCalls: 1
+  };
+
+  it('should share one breaker per dependency', () => {
+    // Arrange
+    const registry = new CircuitBreakerRegistry(mockLogger, config);
+
+    // Act & Assert
+    expect(registry.get('payment')).toBe(registry.get('payment'));
+    expect(registry.get('inventory')).not.toBe(registry.get('payment'));
+    expect(registry.getAll()).toHaveLength(2);
+  });
+
+  it('should report state changes of every circuit', async () => {
+    // Arrange
+    const registry = new CircuitBreakerRegistry(mockLogger, config);
+    const listener = jest.fn();
+    registry.onStateChange(listener);
+
+    // Act
+    await registry.get('payment').execute(async () => { throw new Error('Timeout'); }).catch(() => undefined);
+
+    // Assert
+    expect(listener).toHaveBeenCalledWith('payment', 'open');
+    expect(registry.hasOpenCircuit()).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+import { Sequelize, Transaction } from 'sequelize';
+import { Logger } from '../../application/logging/logger';
+
+export interface DatabaseConfig {
+  host: string;
+  port: number;
+  name: string;
+  user: string;
+  password: string;
+  maxConnections: number;
+}
+
+/**
+ * PostgreSQL Database Connection
+ *
+ * Owns the Sequelize instance and its connection pool. The pool is sized
+ * by DB_MAX_CONNECTIONS and connections are opened lazily, so creating
+ * the instance never touches the network until the first query or connect().
+ */
+export class Database {
+  private readonly sequelize: Sequelize;
+  private readonly logger: Logger;
+  private readonly config: DatabaseConfig;
+  private connected: boolean = false;
+
+  constructor(config: DatabaseConfig, logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+    this.sequelize = new Sequelize(config.name, config.user, config.password, {
+      host: config.host,
+      port: config.port,
+      dialect: 'postgres',
+      logging: false,
+      pool: {
+        max: config.maxConnections,
+        min: 0,
+        acquire: 30000,
+        idle: 10000
+      }
+    });
+  }
+
+  async connect(): Promise<void> {
+    try {
+      this.logger.info('Connecting to PostgreSQL...', {
+        host: this.config.host,
+        port: this.config.port,
+        database: this.config.name,
+        maxConnections: this.config.maxConnections
+      });
+
+      await this.sequelize.authenticate();
+      this.connected = true;
+
+      this.logger.info('PostgreSQL connection established successfully');
+    } catch (error) {
+      this.logger.error('Failed to connect to PostgreSQL', { error });
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      this.logger.info('Disconnecting from PostgreSQL...');
+      await this.sequelize.close();
+      this.connected = false;
+      this.logger.info('PostgreSQL connection pool closed');
+    } catch (error) {
+      this.logger.error('Error closing PostgreSQL connection pool', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Runs the given work inside a managed transaction.
+   * Commits when the work resolves and rolls back when it throws.
+   */
+  async transaction<T>(work: (transaction: Transaction) => Promise<T>): Promise<T> {
+    return this.sequelize.transaction(work);
+  }
+
+  getSequelize(): Sequelize {
+    return this.sequelize;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Whether the pool can still hand out a working connection
+   */
+  async ping(): Promise<boolean> {
+    if (!this.connected) {
+      return false;
+    }
+
+    try {
+      await this.sequelize.authenticate();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { Sequelize } from 'sequelize';
+import { Database, DatabaseConfig } from '../Database';
+import { Logger } from '../../../application/logging/logger';
+
+// Mock Sequelize
+jest.mock('sequelize', () => ({
+  Sequelize: jest.fn().mockImplementation(() => ({
+    authenticate: jest.fn().mockResolvedValue(undefined),
+    close: jest.fn().mockResolvedValue(undefined),
+    transaction: jest.fn((work: (t: any) => Promise<any>) => work({ id: 'tx' }))
+  }))
+}));
+const MockSequelize = Sequelize as unknown as jest.Mock;
+
+describe('Database', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let config: DatabaseConfig;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    config = {
+      host: 'localhost',
+      port: 5432,
+      name: 'ecommerce_events',
+      user: 'postgres',
+      password: 'postgres',
+      maxConnections: 7
+    };
+  });
+
+  it('should size the connection pool from maxConnections', () => {
+    // Act
+    new Database(config, mockLogger);
+
+    // Assert
+    expect(MockSequelize).toHaveBeenCalledWith(
+      'ecommerce_events',
+      'postgres',
+      'postgres',
+      expect.objectContaining({
+        host: 'localhost',
+        port: 5432,
+        dialect: 'postgres',
+        pool: expect.objectContaining({ max: 7 })
+      })
+    );
+  });
+
+  it('should authenticate on connect and report connected state', async () => {
+    // Arrange
+    const database = new Database(config, mockLogger);
+
+    // Act
+    await database.connect();
+
+    // Assert
+    expect(database.getSequelize().authenticate).toHaveBeenCalled();
+    expect(database.isConnected()).toBe(true);
+  });
+
+  it('should rethrow connection errors', async () => {
+    // Arrange
+    const database = new Database(config, mockLogger);
+    (database.getSequelize().authenticate as jest.Mock).mockRejectedValue(new Error('ECONNREFUSED'));
+
+    // Act & Assert
+    await expect(database.connect()).rejects.toThrow('ECONNREFUSED');
+    expect(database.isConnected()).toBe(false);
+    expect(mockLogger.error).toHaveBeenCalledWith('Failed to connect to PostgreSQL', expect.any(Object));
+  });
+
+  it('should close the pool on disconnect', async () => {
+    // Arrange
+    const database = new Database(config, mockLogger);
+    await database.connect();
+
+    // Act
+    await database.disconnect();
+
+    // Assert
+    expect(database.getSequelize().close).toHaveBeenCalled();
+    expect(database.isConnected()).toBe(false);
+  });
+
+  it('should run work inside a managed transaction', async () => {
+    // Arrange
+    const database = new Database(config, mockLogger);
+
+    // Act
+    const result = await database.transaction(async (transaction) => (transaction as any).id);
+
+    // Assert
+    expect(result).toBe('tx');
+  });
+});
@@ -14,6 +14,12 @@ import { IEventProcessingSubject } from './IEventProcessingSubject';
 import { ICompositeMessageHandler } from '../messaging/ICompositeMessageHandler';
 import { IBatchFlushStrategy } from '../batch/IBatchFlushStrategy';
 import { IRetryableMessageHandler } from '../messaging/IRetryableMessageHandler';
+import { IEventStore } from '../event-store/IEventStore';
+import { MessageDelivery } from '../messaging/MessageDelivery';
+import { CircuitBreakerRegistry } from '../circuit-breaker/CircuitBreakerRegistry';
+import { PipelineMetrics } from '../metrics/PipelineMetrics';
+import { EventSchemaRegistry } from '../schema/EventSchemaRegistry';
+import { EventUpcasterChain } from '../upcasting/EventUpcasterChain';
 
 /**
  * Subject interface for the Observer Pattern
@@ -46,9 +52,11 @@ interface EventSubject {
 export class EventProcessingSubject implements EventSubject, IEventProcessingSubject {
   private observers: EventObserver[] = [];
   private readonly logger: Logger;
+  private readonly metrics?: PipelineMetrics;
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, metrics?: PipelineMetrics) {
     this.logger = logger;
+    this.metrics = metrics;
   }
 
   addObserver(observer: EventObserver): void {
@@ -81,6 +89,7 @@ export class EventProcessingSubject implements EventSubject, IEventProcessingSub
     // Notify all observers in parallel
     const notifications = interestedObservers.map(observer => 
       observer.handleEvent(event).catch(error => {
+        this.metrics?.observerFailures.inc({ observer: observer.getObserverName(), event_type: event.eventType });
         this.logger.error(`Observer ${observer.getObserverName()} failed to handle event`, {
           eventId: event.eventId.value,
           error: error.message
@@ -100,36 +109,51 @@ export class CompositeMessageHandler implements MessageHandler, ICompositeMessag
   private readonly logger: Logger;
   private readonly batchProcessor: BatchProcessor;
   private readonly eventSubject: EventProcessingSubject;
+  private readonly eventStore: IEventStore;
+  private readonly schemaRegistry: EventSchemaRegistry;
+  private readonly upcasters: EventUpcasterChain;
 
   constructor(
     logger: Logger,
     batchProcessor: BatchProcessor,
-    eventSubject: EventProcessingSubject
+    eventSubject: EventProcessingSubject,
+    eventStore: IEventStore,
+    schemaRegistry: EventSchemaRegistry,
+    upcasters: EventUpcasterChain
   ) {
     this.logger = logger;
     this.batchProcessor = batchProcessor;
     this.eventSubject = eventSubject;
+    this.eventStore = eventStore;
+    this.schemaRegistry = schemaRegistry;
+    this.upcasters = upcasters;
   }
 
   getHandlerName(): string {
     return 'CompositeMessageHandler';
   }
 
-  async handle(event: DomainEvent): Promise<void> {
+  async handle(event: DomainEvent, delivery?: MessageDelivery): Promise<void> {
     this.logger.info(`Handling message: ${event.eventType}`, {
       eventId: event.eventId.value,
       aggregateId: event.aggregateId
     });
 
     try {
-      // Validate event data before processing (for immediate failure)
-      await this.validateEventData(event);
+      // Validate event data against its schema before processing (for immediate failure)
+      this.schemaRegistry.validate(event);
 
-      // Process with batch processor (Strategy Pattern)
-      await this.batchProcessor.addEvent(event);
+      // Append accepted event to the event store as received (audit trail)
+      await this.eventStore.append(event);
+
+      // Bring events of older producers up to the current version of their type
+      const currentEvent = this.upcasters.upcast(event);
+
+      // Process with batch processor (Strategy Pattern); it settles the delivery
+      await this.batchProcessor.addEvent(currentEvent, delivery);
 
       // Notify observers (Observer Pattern)
-      await this.eventSubject.notifyObservers(event);
+      await this.eventSubject.notifyObservers(currentEvent);
 
       this.logger.info(`Successfully handled message: ${event.eventType}`, {
         eventId: event.eventId.value
@@ -144,23 +168,6 @@ export class CompositeMessageHandler implements MessageHandler, ICompositeMessag
       throw error;
     }
   }
-
-  private async validateEventData(event: DomainEvent): Promise<void> {
-    if (event.eventType === 'OrderCreated') {
-      // Validate required fields
-      if (!event.data.customerId || event.data.customerId === null) {
-        throw new Error('Invalid order: customerId is required');
-      }
-
-      if (typeof event.data.total !== 'number' || event.data.total <= 0) {
-        throw new Error('Invalid order: total must be a positive number');
-      }
-
-      if (!Array.isArray(event.data.items) || event.data.items.length === 0) {
-        throw new Error('Invalid order: items array is required and cannot be empty');
-      }
-    }
-  }
 }
 
 /**
@@ -177,6 +184,8 @@ export class EventProcessingService {
   private readonly retryMechanism: RetryMechanism;
   private readonly config: AppConfig;
   private readonly batchFlushStrategy: IBatchFlushStrategy;
+  private readonly circuitBreakers?: CircuitBreakerRegistry;
+  private running: boolean = false;
 
   constructor(
     logger: Logger,
@@ -188,7 +197,8 @@ export class EventProcessingService {
     eventSubject: IEventProcessingSubject,
     messageHandler: ICompositeMessageHandler,
     batchFlushStrategy: IBatchFlushStrategy,
-    retryableMessageHandler: IRetryableMessageHandler
+    retryableMessageHandler: IRetryableMessageHandler,
+    circuitBreakers?: CircuitBreakerRegistry
   ) {
     this.logger = logger;
     this.batchProcessor = batchProcessor;
@@ -200,6 +210,7 @@ export class EventProcessingService {
     this.messageHandler = messageHandler;
     this.batchFlushStrategy = batchFlushStrategy;
     this.retryableMessageHandler = retryableMessageHandler;
+    this.circuitBreakers = circuitBreakers;
 
     // Register batch flush strategy
     this.batchProcessor.registerStrategy('BatchFlush', this.batchFlushStrategy);
@@ -220,12 +231,16 @@ export class EventProcessingService {
       // Start consuming messages
       await this.startMessageConsumers();
 
+      // Pause consumption while a downstream dependency is down
+      this.setupCircuitBreakers();
+
       // Setup periodic tasks
       this.setupPeriodicTasks();
 
       // Setup graceful shutdown
       this.setupGracefulShutdown();
 
+      this.running = true;
       this.logger.info('Event processing service started successfully');
     } catch (error) {
       this.logger.error('Failed to start event processing service', { error });
@@ -237,12 +252,17 @@ export class EventProcessingService {
     try {
       this.logger.info('Stopping event processing service...');
 
+      // Not ready any more, so probes stop routing work here while we drain
+      this.running = false;
+
       // Stop accepting new messages
-      await this.rabbitMQClient.disconnect();
+      await this.rabbitMQClient.stopConsuming();
 
-      // Process remaining batches
+      // Process remaining batches while the channel can still ack them
       await this.batchProcessor.shutdown();
 
+      await this.rabbitMQClient.disconnect();
+
       this.logger.info('Event processing service stopped successfully');
     } catch (error) {
       this.logger.error('Failed to stop event processing service', { error });
@@ -250,6 +270,13 @@ export class EventProcessingService {
     }
   }
 
+  /**
+   * Started and not shutting down
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
   private async configureMessageHandlers(): Promise<void> {
     const messageHandler = this.retryableMessageHandler;
     const queueName = this.config.rabbitmq.queue;
@@ -266,9 +293,9 @@ export class EventProcessingService {
     const queueName = this.config.rabbitmq.queue;
 
     // Start consuming from the main queue
-    await this.rabbitMQClient.consume(async (message: any) => {
+    await this.rabbitMQClient.consume(async (message: any, delivery?: MessageDelivery) => {
       try {
-        await this.retryableMessageHandler.handle(message);
+        await this.retryableMessageHandler.handle(message, delivery);
       } catch (error) {
         this.logger.error('Error processing message', { error, message });
         throw error;
@@ -278,6 +305,36 @@ export class EventProcessingService {
     this.logger.info(`Started consuming from queue: ${queueName}`);
   }
 
+  /**
+   * With pauseConsumption, the consumer stops while any circuit is open and
+   * resumes once none is, when trial calls may go through again. Otherwise
+   * consumption goes on and refused events are parked.
+   */
+  private setupCircuitBreakers(): void {
+    const circuitBreakers = this.circuitBreakers;
+    if (!circuitBreakers || !circuitBreakers.getConfig().pauseConsumption) {
+      return;
+    }
+
+    circuitBreakers.onStateChange(async (circuit, state) => {
+      try {
+        if (circuitBreakers.hasOpenCircuit()) {
+          await this.rabbitMQClient.pauseConsuming();
+        } else {
+          await this.rabbitMQClient.resumeConsuming();
+        }
+      } catch (error) {
+        this.logger.error('Failed to pause or resume consumption', {
+          circuit,
+          state,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+
+    this.logger.info('Consumption pauses while a circuit is open');
+  }
+
   private setupPeriodicTasks(): void {
     // Flush batches every 30 seconds
     setInterval(async () => {
@@ -0,0 +1,151 @@
+import { CompositeMessageHandler, EventProcessingSubject } from '../EventProcessingService';
+import { BatchProcessor } from '../../batch/BatchProcessor';
+import { IEventStore } from '../../event-store/IEventStore';
+import { Logger } from '../../../application/logging/logger';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { EventId } from '../../../domain/value-objects/EventId';
+import { EventSchemaRegistry } from '../../schema/EventSchemaRegistry';
+import { EventUpcasterChain } from '../../upcasting/EventUpcasterChain';
+
+describe('CompositeMessageHandler', () => {
+  let handler: CompositeMessageHandler;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockBatchProcessor: jest.Mocked<BatchProcessor>;
+  let mockEventSubject: jest.Mocked<EventProcessingSubject>;
+  let mockEventStore: jest.Mocked<IEventStore>;
+  let schemaRegistry: EventSchemaRegistry;
+  let sampleEvent: DomainEvent;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    mockBatchProcessor = {
+      addEvent: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<BatchProcessor>;
+
+    mockEventSubject = {
+      notifyObservers: jest.fn().mockResolvedValue(undefined)
+    } as unknown as jest.Mocked<EventProcessingSubject>;
+
+    mockEventStore = {
+      append: jest.fn().mockResolvedValue(undefined),
+      findByAggregateId: jest.fn(),
+      findByEventType: jest.fn()
+    };
+
+    schemaRegistry = new EventSchemaRegistry(mockLogger, { mode: 'strict' }).register({
+      eventType: 'OrderCreated',
+      version: 1,
+      schema: {
+        type: 'object',
+        required: ['customerId', 'total'],
+        properties: {
+          customerId: { type: 'string', minLength: 1 },
+          total: { type: 'number', exclusiveMinimum: 0 }
+        }
+      }
+    });
+
+    handler = new CompositeMessageHandler(
+      mockLogger,
+      mockBatchProcessor,
+      mockEventSubject,
+      mockEventStore,
+      schemaRegistry,
+      new EventUpcasterChain(mockLogger)
+    );
+
+    sampleEvent = {
+      eventId: new EventId('550e8400-e29b-41d4-a716-446655440000'),
+      eventType: 'OrderCreated',
+      aggregateId: 'order-123',
+      data: {
+        customerId: 'customer-456',
+        total: 100,
+        items: [{ productId: 'product-1', quantity: 1, price: 100 }]
+      },
+      version: 1,
+      occurredOn: new Date()
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should append accepted events to the event store before batching', async () => {
+    // Arrange
+    const calls: string[] = [];
+    mockEventStore.append.mockImplementation(async () => { calls.push('append'); });
+    mockBatchProcessor.addEvent.mockImplementation(async () => { calls.push('addEvent'); });
+
+    // Act
+    await handler.handle(sampleEvent);
+
+    // Assert
+    expect(mockEventStore.append).toHaveBeenCalledWith(sampleEvent);
+    expect(calls).toEqual(['append', 'addEvent']);
+    expect(mockEventSubject.notifyObservers).toHaveBeenCalledWith(sampleEvent);
+  });
+
+  it('should store events as received but process them upcast to the current version', async () => {
+    // Arrange
+    const upcasters = new EventUpcasterChain(mockLogger).register({
+      eventType: 'OrderCreated',
+      fromVersion: 1,
+      upcast: data => ({ ...data, currency: 'BRL' })
+    });
+    handler = new CompositeMessageHandler(
+      mockLogger,
+      mockBatchProcessor,
+      mockEventSubject,
+      mockEventStore,
+      schemaRegistry,
+      upcasters
+    );
+    const upcastEvent = { ...sampleEvent, version: 2, data: { ...sampleEvent.data, currency: 'BRL' } };
+
+    // Act
+    await handler.handle(sampleEvent);
+
+    // Assert
+    expect(mockEventStore.append).toHaveBeenCalledWith(sampleEvent);
+    expect(mockBatchProcessor.addEvent).toHaveBeenCalledWith(upcastEvent, undefined);
+    expect(mockEventSubject.notifyObservers).toHaveBeenCalledWith(upcastEvent);
+  });
+
+  it('should not store events that fail validation', async () => {
+    // Arrange
+    const invalidEvent = { ...sampleEvent, data: { ...sampleEvent.data, customerId: null, total: -1 } };
+
+    // Act & Assert
+    await expect(handler.handle(invalidEvent)).rejects.toThrow(
+      'Invalid OrderCreated event (version 1): data.customerId must be of type string; data.total must be greater than 0'
+    );
+    expect(mockEventStore.append).not.toHaveBeenCalled();
+    expect(mockBatchProcessor.addEvent).not.toHaveBeenCalled();
+  });
+
+  it('should not store events without a schema in strict mode', async () => {
+    // Arrange
+    const unknownEvent = { ...sampleEvent, eventType: 'OrderShipped' };
+
+    // Act & Assert
+    await expect(handler.handle(unknownEvent)).rejects.toThrow('No schema registered for OrderShipped version 1');
+    expect(mockEventStore.append).not.toHaveBeenCalled();
+  });
+
+  it('should fail the message when the event store is unavailable', async () => {
+    // Arrange
+    mockEventStore.append.mockRejectedValue(new Error('Connection lost'));
+
+    // Act & Assert
+    await expect(handler.handle(sampleEvent)).rejects.toThrow('Connection lost');
+    expect(mockBatchProcessor.addEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,50 @@
+import { DataTypes, Model, Sequelize } from 'sequelize';
+
+export interface EventStoreRecordAttributes {
+  id?: number;
+  eventId: string;
+  eventType: string;
+  aggregateId: string;
+  aggregateType: string;
+  eventData: Record<string, any>;
+  eventVersion: number;
+  occurredOn: Date;
+  createdAt?: Date;
+}
+
+/**
+ * Row in the `event_store` table created by docker/init-db.sql
+ */
+export class EventStoreRecord extends Model<EventStoreRecordAttributes> {
+  declare id: number;
+  declare eventId: string;
+  declare eventType: string;
+  declare aggregateId: string;
+  declare aggregateType: string;
+  declare eventData: Record<string, any>;
+  declare eventVersion: number;
+  declare occurredOn: Date;
+  declare createdAt: Date;
+}
+
+export function defineEventStoreSchema(sequelize: Sequelize): void {
+  EventStoreRecord.init(
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      eventId: { type: DataTypes.UUID, allowNull: false, unique: true },
+      eventType: { type: DataTypes.STRING, allowNull: false },
+      aggregateId: { type: DataTypes.STRING, allowNull: false },
+      aggregateType: { type: DataTypes.STRING, allowNull: false },
+      eventData: { type: DataTypes.JSONB, allowNull: false },
+      eventVersion: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 1 },
+      occurredOn: { type: DataTypes.DATE, allowNull: false }
+    },
+    {
+      sequelize,
+      tableName: 'event_store',
+      underscored: true,
+      timestamps: true,
+      updatedAt: false
+    }
+  );
+}
@@ -0,0 +1,10 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+/**
+ * Interface for the Event Store (append-only audit trail of consumed events)
+ */
+export interface IEventStore {
+  append(event: DomainEvent): Promise<void>;
+  findByAggregateId(aggregateId: string): Promise<DomainEvent[]>;
+  findByEventType(eventType: string, limit?: number): Promise<DomainEvent[]>;
+}
@@ -0,0 +1,92 @@
+import { Logger } from '../../application/logging/logger';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { EventId } from '../../domain/value-objects/EventId';
+import { Database } from '../database/Database';
+import { EventStoreRecord, defineEventStoreSchema } from './EventStoreSchema';
+import { IEventStore } from './IEventStore';
+
+/**
+ * PostgreSQL Event Store
+ *
+ * Appends every accepted domain event to the `event_store` table, giving a
+ * durable audit trail and a source for replays. Appends are idempotent on
+ * eventId, so broker redeliveries never create duplicate rows.
+ */
+export class PostgresEventStore implements IEventStore {
+  private readonly logger: Logger;
+
+  constructor(logger: Logger, database: Database) {
+    this.logger = logger;
+    defineEventStoreSchema(database.getSequelize());
+  }
+
+  async append(event: DomainEvent): Promise<void> {
+    const aggregateType = PostgresEventStore.deriveAggregateType(event.eventType);
+
+    try {
+      await EventStoreRecord.bulkCreate(
+        [{
+          eventId: event.eventId.value,
+          eventType: event.eventType,
+          aggregateId: event.aggregateId,
+          aggregateType,
+          eventData: event.data,
+          eventVersion: event.version,
+          occurredOn: event.occurredOn
+        }],
+        { ignoreDuplicates: true }
+      );
+
+      this.logger.info('🗄️ Event appended to event store', {
+        eventType: event.eventType,
+        eventId: event.eventId.value,
+        aggregateId: event.aggregateId,
+        aggregateType
+      });
+    } catch (error) {
+      this.logger.error('❌ Failed to append event to event store', {
+        eventType: event.eventType,
+        eventId: event.eventId.value,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  async findByAggregateId(aggregateId: string): Promise<DomainEvent[]> {
+    const records = await EventStoreRecord.findAll({
+      where: { aggregateId },
+      order: [['occurredOn', 'ASC'], ['id', 'ASC']]
+    });
+    return records.map(record => this.toDomainEvent(record));
+  }
+
+  async findByEventType(eventType: string, limit: number = 100): Promise<DomainEvent[]> {
+    const records = await EventStoreRecord.findAll({
+      where: { eventType },
+      order: [['occurredOn', 'ASC'], ['id', 'ASC']],
+      limit
+    });
+    return records.map(record => this.toDomainEvent(record));
+  }
+
+  /**
+   * Derives the aggregate type from the event type's leading word,
+   * e.g. "OrderCreated" -> "Order".
+   */
+  static deriveAggregateType(eventType: string): string {
+    const match = eventType.match(/^[A-Z][a-z0-9]*/);
+    return match ? match[0] : 'Unknown';
+  }
+
+  private toDomainEvent(record: EventStoreRecord): DomainEvent {
+    return {
+      eventId: new EventId(record.eventId),
+      eventType: record.eventType,
+      aggregateId: record.aggregateId,
+      occurredOn: new Date(record.occurredOn),
+      version: record.eventVersion,
+      data: record.eventData
+    };
+  }
+}
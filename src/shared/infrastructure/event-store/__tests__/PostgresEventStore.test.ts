@@ -0,0 +1,117 @@
+import { PostgresEventStore } from '../PostgresEventStore';
+import { EventStoreRecord, defineEventStoreSchema } from '../EventStoreSchema';
+import { Database } from '../../database/Database';
+import { Logger } from '../../../application/logging/logger';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { EventId } from '../../../domain/value-objects/EventId';
+
+// Mock the Sequelize record
+jest.mock('../EventStoreSchema', () => ({
+  defineEventStoreSchema: jest.fn(),
+  EventStoreRecord: { bulkCreate: jest.fn(), findAll: jest.fn() }
+}));
+const mockEventStoreRecord = EventStoreRecord as jest.Mocked<any>;
+
+describe('PostgresEventStore', () => {
+  let eventStore: PostgresEventStore;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockDatabase: jest.Mocked<Database>;
+  let sampleEvent: DomainEvent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    mockDatabase = {
+      getSequelize: jest.fn().mockReturnValue({})
+    } as unknown as jest.Mocked<Database>;
+
+    eventStore = new PostgresEventStore(mockLogger, mockDatabase);
+
+    sampleEvent = {
+      eventId: new EventId('550e8400-e29b-41d4-a716-446655440000'),
+      eventType: 'OrderCreated',
+      aggregateId: 'order-123',
+      data: { orderId: 'order-123', total: 100 },
+      version: 1,
+      occurredOn: new Date('2024-01-01T10:00:00Z')
+    };
+  });
+
+  it('should define the schema on the database connection', () => {
+    expect(defineEventStoreSchema).toHaveBeenCalledWith(mockDatabase.getSequelize());
+  });
+
+  describe('append', () => {
+    it('should insert the event with its derived aggregate type', async () => {
+      // Act
+      await eventStore.append(sampleEvent);
+
+      // Assert
+      expect(mockEventStoreRecord.bulkCreate).toHaveBeenCalledWith(
+        [{
+          eventId: '550e8400-e29b-41d4-a716-446655440000',
+          eventType: 'OrderCreated',
+          aggregateId: 'order-123',
+          aggregateType: 'Order',
+          eventData: { orderId: 'order-123', total: 100 },
+          eventVersion: 1,
+          occurredOn: sampleEvent.occurredOn
+        }],
+        { ignoreDuplicates: true }
+      );
+    });
+
+    it('should rethrow database errors', async () => {
+      // Arrange
+      mockEventStoreRecord.bulkCreate.mockRejectedValue(new Error('Connection lost'));
+
+      // Act & Assert
+      await expect(eventStore.append(sampleEvent)).rejects.toThrow('Connection lost');
+      expect(mockLogger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('findByAggregateId', () => {
+    it('should rebuild domain events from stored rows', async () => {
+      // Arrange
+      mockEventStoreRecord.findAll.mockResolvedValue([{
+        eventId: '550e8400-e29b-41d4-a716-446655440000',
+        eventType: 'OrderCreated',
+        aggregateId: 'order-123',
+        eventData: { orderId: 'order-123' },
+        eventVersion: 2,
+        occurredOn: '2024-01-01T10:00:00.000Z'
+      }]);
+
+      // Act
+      const events = await eventStore.findByAggregateId('order-123');
+
+      // Assert
+      expect(mockEventStoreRecord.findAll).toHaveBeenCalledWith(expect.objectContaining({
+        where: { aggregateId: 'order-123' }
+      }));
+      expect(events).toHaveLength(1);
+      expect(events[0]!.eventId.value).toBe('550e8400-e29b-41d4-a716-446655440000');
+      expect(events[0]!.version).toBe(2);
+      expect(events[0]!.occurredOn).toEqual(new Date('2024-01-01T10:00:00Z'));
+    });
+  });
+
+  describe('deriveAggregateType', () => {
+    it.each([
+      ['OrderCreated', 'Order'],
+      ['OrderCancelled', 'Order'],
+      ['PaymentAuthorized', 'Payment'],
+      ['shipped', 'Unknown']
+    ])('should derive %s -> %s', (eventType, aggregateType) => {
+      expect(PostgresEventStore.deriveAggregateType(eventType)).toBe(aggregateType);
+    });
+  });
+});
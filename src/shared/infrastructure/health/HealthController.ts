@@ -0,0 +1,25 @@
+import { HttpServer } from '../http/HttpServer';
+import { HealthService } from './HealthService';
+
+/**
+ * Exposes the health service for probes: 200 when live/ready, 503 when not
+ */
+export class HealthController {
+  private readonly healthService: HealthService;
+
+  constructor(healthService: HealthService) {
+    this.healthService = healthService;
+  }
+
+  register(server: HttpServer): void {
+    server.route('GET', '/health/live', () => ({
+      status: 200,
+      body: this.healthService.getLiveness()
+    }));
+
+    server.route('GET', '/health/ready', async () => {
+      const readiness = await this.healthService.getReadiness();
+      return { status: readiness.status === 'ok' ? 200 : 503, body: readiness };
+    });
+  }
+}
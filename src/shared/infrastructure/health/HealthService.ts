@@ -0,0 +1,66 @@
+import { Logger } from '../../application/logging/logger';
+
+export type HealthCheck = () => boolean | Promise<boolean>;
+
+export type ComponentStatus = 'up' | 'down';
+
+export interface HealthReport {
+  status: 'ok' | 'unavailable';
+  checks: Record<string, ComponentStatus>;
+}
+
+/**
+ * Health Service
+ *
+ * Liveness only says the process is up and serving. Readiness says it can
+ * do its work: every registered component check must pass. A check that
+ * throws or takes longer than checkTimeoutMs counts as down.
+ */
+export class HealthService {
+  private readonly logger: Logger;
+  private readonly checkTimeoutMs: number;
+  private readonly readinessChecks: Map<string, HealthCheck> = new Map();
+
+  constructor(logger: Logger, checkTimeoutMs: number = 2000) {
+    this.logger = logger;
+    this.checkTimeoutMs = checkTimeoutMs;
+  }
+
+  registerReadinessCheck(name: string, check: HealthCheck): void {
+    this.readinessChecks.set(name, check);
+  }
+
+  getLiveness(): HealthReport {
+    return { status: 'ok', checks: {} };
+  }
+
+  async getReadiness(): Promise<HealthReport> {
+    const checks: Record<string, ComponentStatus> = {};
+
+    await Promise.all(Array.from(this.readinessChecks.entries()).map(async ([name, check]) => {
+      checks[name] = await this.run(name, check) ? 'up' : 'down';
+    }));
+
+    const ready = Object.values(checks).every(status => status === 'up');
+    return { status: ready ? 'ok' : 'unavailable', checks };
+  }
+
+  private async run(name: string, check: HealthCheck): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), this.checkTimeoutMs);
+    });
+
+    try {
+      return await Promise.race([Promise.resolve(check()), timeout]);
+    } catch (error) {
+      this.logger.warn(`⚠️ Health check failed`, {
+        check: name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
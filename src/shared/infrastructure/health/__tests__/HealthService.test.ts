@@ -0,0 +1,103 @@
+import { HealthService } from '../HealthService';
+import { HealthController } from '../HealthController';
+import { HttpServer } from '../../http/HttpServer';
+import { Logger } from '../../../application/logging/logger';
+
+describe('HealthService', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let healthService: HealthService;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    healthService = new HealthService(mockLogger, 50);
+  });
+
+  it('should always be live', () => {
+    expect(healthService.getLiveness()).toEqual({ status: 'ok', checks: {} });
+  });
+
+  it('should be ready when every check passes', async () => {
+    // Arrange
+    healthService.registerReadinessCheck('rabbitmq', () => true);
+    healthService.registerReadinessCheck('database', async () => true);
+
+    // Act
+    const readiness = await healthService.getReadiness();
+
+    // Assert
+    expect(readiness).toEqual({ status: 'ok', checks: { rabbitmq: 'up', database: 'up' } });
+  });
+
+  it('should not be ready when a check fails', async () => {
+    // Arrange
+    healthService.registerReadinessCheck('rabbitmq', () => true);
+    healthService.registerReadinessCheck('eventProcessing', () => false);
+
+    // Act
+    const readiness = await healthService.getReadiness();
+
+    // Assert
+    expect(readiness).toEqual({ status: 'unavailable', checks: { rabbitmq: 'up', eventProcessing: 'down' } });
+  });
+
+  it('should count checks that throw or time out as down', async () => {
+    // Arrange
+    healthService.registerReadinessCheck('database', async () => { throw new Error('Connection refused'); });
+    healthService.registerReadinessCheck('deadLetterQueue', () => new Promise<boolean>(() => undefined));
+
+    // Act
+    const readiness = await healthService.getReadiness();
+
+    // Assert
+    expect(readiness.checks).toEqual({ database: 'down', deadLetterQueue: 'down' });
+    expect(mockLogger.warn).toHaveBeenCalledWith('⚠️ Health check failed', { check: 'database', error: 'Connection refused' });
+  });
+});
+
+describe('HealthController', () => {
+  const mockLogger: jest.Mocked<Logger> = {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  };
+  let server: HttpServer;
+  let ready: boolean;
+
+  beforeEach(async () => {
+    ready = true;
+    const healthService = new HealthService(mockLogger);
+    healthService.registerReadinessCheck('eventProcessing', () => ready);
+
+    server = new HttpServer(mockLogger, 0);
+    new HealthController(healthService).register(server);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const request = (path: string) => fetch(`http://127.0.0.1:${server.getPort()}${path}`);
+
+  it('should answer 200 on /health/live', async () => {
+    const response = await request('/health/live');
+    expect(response.status).toBe(200);
+  });
+
+  it('should answer 200 on /health/ready while ready and 503 once not', async () => {
+    // Act & Assert
+    expect((await request('/health/ready')).status).toBe(200);
+
+    ready = false;
+    const response = await request('/health/ready');
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ status: 'unavailable', checks: { eventProcessing: 'down' } });
+  });
+});
@@ -0,0 +1,255 @@
+import { createServer, IncomingHttpHeaders, IncomingMessage, Server, ServerResponse } from 'http';
+import { Logger } from '../../application/logging/logger';
+import { DomainError } from '../../domain/errors/DomainError';
+import { ValidationError } from '../../domain/errors/ValidationError';
+import { NotFoundError } from '../../domain/errors/NotFoundError';
+import { BusinessRuleError } from '../../domain/errors/BusinessRuleError';
+
+/** Largest request body accepted */
+export const MAX_BODY_BYTES = 1024 * 1024;
+
+export interface HttpRequest {
+  method: string;
+  path: string;
+  /** Values of the route's `:name` segments */
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: IncomingHttpHeaders;
+  /** Parsed JSON body, undefined when the request had none */
+  body?: unknown;
+}
+
+export interface HttpResponse {
+  status: number;
+  /** Strings are sent as plain text, anything else as JSON */
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type RouteHandler = (request: HttpRequest) => HttpResponse | Promise<HttpResponse>;
+
+interface MatchedRoute {
+  handlers: Map<string, RouteHandler>;
+  params: Record<string, string>;
+}
+
+/**
+ * A body that cannot be read or parsed, answered with its status
+ */
+class BodyError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * HTTP Server
+ *
+ * Minimal server on top of node's http module for the operational
+ * endpoints (health, metrics) and the order API. Routes match on method and
+ * path, where `:name` segments match any single segment and are passed to
+ * the handler as params. Request bodies are parsed as JSON.
+ *
+ * Domain errors thrown by handlers become client errors: ValidationError
+ * 400, NotFoundError 404 and BusinessRuleError 409; anything else is a 500.
+ */
+export class HttpServer {
+  private readonly logger: Logger;
+  private readonly port: number;
+  private readonly routes: Map<string, Map<string, RouteHandler>> = new Map();
+  private server: Server | null = null;
+
+  constructor(logger: Logger, port: number) {
+    this.logger = logger;
+    this.port = port;
+  }
+
+  route(method: string, path: string, handler: RouteHandler): void {
+    let handlers = this.routes.get(path);
+    if (!handlers) {
+      handlers = new Map();
+      this.routes.set(path, handlers);
+    }
+    handlers.set(method.toUpperCase(), handler);
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = createServer((req, res) => {
+      this.handle(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.logger.info(`🌐 HTTP server listening`, { port: this.getPort() });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = null;
+    await new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      // Probes keep connections alive; don't let them hold the shutdown
+      server.closeIdleConnections();
+    });
+    this.logger.info('HTTP server stopped');
+  }
+
+  /**
+   * The port actually listened on (differs from the configured one when that is 0)
+   */
+  getPort(): number {
+    const address = this.server?.address();
+    return address && typeof address === 'object' ? address.port : this.port;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = (req.method ?? 'GET').toUpperCase();
+    const route = this.match(url.pathname);
+    const handler = route?.handlers.get(method) ?? (method === 'HEAD' ? route?.handlers.get('GET') : undefined);
+
+    let response: HttpResponse;
+    if (!route) {
+      response = { status: 404, body: { error: 'Not found' } };
+    } else if (!handler) {
+      response = {
+        status: 405,
+        body: { error: 'Method not allowed' },
+        headers: { Allow: Array.from(route.handlers.keys()).join(', ') }
+      };
+    } else {
+      try {
+        response = await handler({
+          method,
+          path: url.pathname,
+          params: route.params,
+          query: url.searchParams,
+          headers: req.headers,
+          body: await this.readBody(req)
+        });
+      } catch (error) {
+        response = this.errorResponse(method, url.pathname, error);
+      }
+    }
+
+    this.send(res, method, response);
+  }
+
+  /**
+   * Finds the route for a path, preferring an exact match over one with params
+   */
+  private match(path: string): MatchedRoute | undefined {
+    const exact = this.routes.get(path);
+    if (exact) {
+      return { handlers: exact, params: {} };
+    }
+
+    const segments = path.split('/');
+    for (const [routePath, handlers] of this.routes) {
+      const routeSegments = routePath.split('/');
+      if (routeSegments.length !== segments.length) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      const matches = routeSegments.every((routeSegment, i) => {
+        const segment = segments[i] ?? '';
+        if (!routeSegment.startsWith(':')) {
+          return routeSegment === segment;
+        }
+        if (segment === '') {
+          return false;
+        }
+        try {
+          params[routeSegment.slice(1)] = decodeURIComponent(segment);
+          return true;
+        } catch {
+          return false;
+        }
+      });
+
+      if (matches) {
+        return { handlers, params };
+      }
+    }
+
+    return undefined;
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new BodyError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf8');
+    if (text.trim() === '') {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new BodyError(400, 'Request body is not valid JSON');
+    }
+  }
+
+  private errorResponse(method: string, path: string, error: unknown): HttpResponse {
+    if (error instanceof BodyError) {
+      return { status: error.status, body: { error: error.message } };
+    }
+
+    if (error instanceof DomainError) {
+      const status = error instanceof ValidationError ? 400
+        : error instanceof NotFoundError ? 404
+        : error instanceof BusinessRuleError ? 409
+        : 400;
+      this.logger.warn(`⚠️ HTTP request refused: ${error.message}`, { method, path, status });
+      return { status, body: { error: error.message } };
+    }
+
+    this.logger.error('❌ HTTP request failed', {
+      method,
+      path,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return { status: 500, body: { error: 'Internal server error' } };
+  }
+
+  private send(res: ServerResponse, method: string, response: HttpResponse): void {
+    const isText = typeof response.body === 'string';
+    const payload = response.body === undefined
+      ? ''
+      : isText ? response.body as string : JSON.stringify(response.body);
+
+    res.writeHead(response.status, {
+      'Content-Type': isText ? 'text/plain; charset=utf-8' : 'application/json',
+      'Content-Length': Buffer.byteLength(payload),
+      ...response.headers
+    });
+    res.end(method === 'HEAD' ? undefined : payload);
+  }
+}
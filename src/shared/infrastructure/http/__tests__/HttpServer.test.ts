@@ -0,0 +1,176 @@
+import { HttpServer } from '../HttpServer';
+import { Logger } from '../../../application/logging/logger';
+import { ValidationError } from '../../../domain/errors/ValidationError';
+import { NotFoundError } from '../../../domain/errors/NotFoundError';
+import { BusinessRuleError } from '../../../domain/errors/BusinessRuleError';
+
+describe('HttpServer', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let server: HttpServer;
+
+  const request = (path: string, init?: RequestInit) =>
+    fetch(`http://127.0.0.1:${server.getPort()}${path}`, init);
+
+  beforeEach(async () => {
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    server = new HttpServer(mockLogger, 0);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should answer routes with JSON bodies', async () => {
+    // Arrange
+    server.route('GET', '/health/live', () => ({ status: 200, body: { status: 'ok' } }));
+    await server.start();
+
+    // Act
+    const response = await request('/health/live');
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({ status: 'ok' });
+  });
+
+  it('should send string bodies as plain text', async () => {
+    // Arrange
+    server.route('GET', '/text', () => ({ status: 200, body: 'hello' }));
+    await server.start();
+
+    // Act
+    const response = await request('/text');
+
+    // Assert
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(await response.text()).toBe('hello');
+  });
+
+  it('should pass the query string to the handler', async () => {
+    // Arrange
+    const handler = jest.fn().mockReturnValue({ status: 204 });
+    server.route('GET', '/search', handler);
+    await server.start();
+
+    // Act
+    await request('/search?limit=5');
+
+    // Assert
+    expect(handler.mock.calls[0][0].query.get('limit')).toBe('5');
+  });
+
+  it('should answer 404 for unknown paths and 405 for unknown methods', async () => {
+    // Arrange
+    server.route('GET', '/health/live', () => ({ status: 200 }));
+    await server.start();
+
+    // Act
+    const notFound = await request('/unknown');
+    const notAllowed = await request('/health/live', { method: 'POST' });
+
+    // Assert
+    expect(notFound.status).toBe(404);
+    expect(notAllowed.status).toBe(405);
+    expect(notAllowed.headers.get('allow')).toBe('GET');
+  });
+
+  it('should answer 500 when a handler throws', async () => {
+    // Arrange
+    server.route('GET', '/boom', () => { throw new Error('boom'); });
+    await server.start();
+
+    // Act
+    const response = await request('/boom');
+
+    // Assert
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Internal server error' });
+    expect(mockLogger.error).toHaveBeenCalledWith('❌ HTTP request failed', expect.objectContaining({ error: 'boom' }));
+  });
+
+  it('should pass path params to the handler, preferring exact paths', async () => {
+    // Arrange
+    const byId = jest.fn().mockReturnValue({ status: 200 });
+    const search = jest.fn().mockReturnValue({ status: 200 });
+    server.route('GET', '/orders/:id', byId);
+    server.route('GET', '/orders/search', search);
+    await server.start();
+
+    // Act
+    await request('/orders/order%20123');
+    await request('/orders/search');
+    const tooDeep = await request('/orders/order-123/items');
+
+    // Assert
+    expect(byId).toHaveBeenCalledTimes(1);
+    expect(byId.mock.calls[0][0].params).toEqual({ id: 'order 123' });
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(tooDeep.status).toBe(404);
+  });
+
+  it('should parse JSON request bodies', async () => {
+    // Arrange
+    const handler = jest.fn().mockReturnValue({ status: 204 });
+    server.route('POST', '/orders', handler);
+    await server.start();
+
+    // Act
+    await request('/orders', { method: 'POST', body: JSON.stringify({ customerId: 'customer-1' }) });
+    await request('/orders', { method: 'POST' });
+
+    // Assert
+    expect(handler.mock.calls[0][0].body).toEqual({ customerId: 'customer-1' });
+    expect(handler.mock.calls[1][0].body).toBeUndefined();
+  });
+
+  it('should answer 400 for bodies that are not JSON', async () => {
+    // Arrange
+    const handler = jest.fn().mockReturnValue({ status: 204 });
+    server.route('POST', '/orders', handler);
+    await server.start();
+
+    // Act
+    const response = await request('/orders', { method: 'POST', body: '{not json' });
+
+    // Assert
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Request body is not valid JSON' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should map domain errors to client errors', async () => {
+    // Arrange
+    server.route('GET', '/invalid', () => { throw new ValidationError('customerId is required'); });
+    server.route('GET', '/missing', () => { throw new NotFoundError('Order not found: order-1'); });
+    server.route('GET', '/conflict', () => { throw new BusinessRuleError('Order is already cancelled'); });
+    await server.start();
+
+    // Act
+    const invalid = await request('/invalid');
+    const missing = await request('/missing');
+    const conflict = await request('/conflict');
+
+    // Assert
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: 'customerId is required' });
+    expect(missing.status).toBe(404);
+    expect(conflict.status).toBe(409);
+    expect(mockLogger.error).not.toHaveBeenCalled();
+  });
+
+  it('should reject start when the port is taken', async () => {
+    // Arrange
+    await server.start();
+    const other = new HttpServer(mockLogger, server.getPort());
+
+    // Act & Assert
+    await expect(other.start()).rejects.toThrow('EADDRINUSE');
+  });
+});
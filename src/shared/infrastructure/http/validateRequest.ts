@@ -0,0 +1,31 @@
+import { plainToInstance, ClassConstructor } from 'class-transformer';
+import { validate, ValidationError as ConstraintViolation } from 'class-validator';
+import { ValidationError } from '../../domain/errors/ValidationError';
+
+/**
+ * Turns a request body into an instance of the request class and checks its
+ * class-validator constraints. Properties the class does not declare are
+ * refused rather than silently dropped.
+ * @throws ValidationError listing every violated constraint
+ */
+export async function validateRequest<T extends object>(type: ClassConstructor<T>, body: unknown): Promise<T> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+
+  const request = plainToInstance(type, body);
+  const violations = await validate(request, { whitelist: true, forbidNonWhitelisted: true });
+  if (violations.length > 0) {
+    throw new ValidationError(`Invalid request: ${describe(violations).join('; ')}`);
+  }
+  return request;
+}
+
+function describe(violations: ConstraintViolation[], parentPath: string = ''): string[] {
+  return violations.flatMap(violation => {
+    const path = parentPath ? `${parentPath}.${violation.property}` : violation.property;
+    const messages = Object.values(violation.constraints ?? {})
+      .map(message => message.replace(violation.property, path));
+    return [...messages, ...describe(violation.children ?? [], path)];
+  });
+}
@@ -0,0 +1,19 @@
+import { EventId } from '../../domain/value-objects/EventId';
+
+export interface IdempotencyConfig {
+  store: 'postgres' | 'memory';
+  retentionMs: number;
+}
+
+/**
+ * Interface for the processed-event ledger used to deduplicate deliveries
+ */
+export interface IProcessedEventLedger {
+  hasProcessed(eventId: EventId): Promise<boolean>;
+  markProcessed(eventId: EventId, eventType: string): Promise<void>;
+  /**
+   * Removes entries older than the configured retention
+   * @returns number of entries removed
+   */
+  purgeExpired(): Promise<number>;
+}
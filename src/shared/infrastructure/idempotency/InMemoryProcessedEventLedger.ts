@@ -0,0 +1,53 @@
+import { EventId } from '../../domain/value-objects/EventId';
+import { IProcessedEventLedger } from './IProcessedEventLedger';
+
+/**
+ * In-memory processed-event ledger
+ *
+ * Intended for tests and local runs; entries are lost on restart.
+ */
+export class InMemoryProcessedEventLedger implements IProcessedEventLedger {
+  private readonly retentionMs: number;
+  private readonly processedAt: Map<string, number> = new Map();
+
+  constructor(retentionMs: number) {
+    this.retentionMs = retentionMs;
+  }
+
+  async hasProcessed(eventId: EventId): Promise<boolean> {
+    const timestamp = this.processedAt.get(eventId.value);
+    if (timestamp === undefined) {
+      return false;
+    }
+
+    if (this.isExpired(timestamp)) {
+      this.processedAt.delete(eventId.value);
+      return false;
+    }
+
+    return true;
+  }
+
+  async markProcessed(eventId: EventId, _eventType: string): Promise<void> {
+    this.processedAt.set(eventId.value, Date.now());
+  }
+
+  async purgeExpired(): Promise<number> {
+    let removed = 0;
+    for (const [eventId, timestamp] of this.processedAt) {
+      if (this.isExpired(timestamp)) {
+        this.processedAt.delete(eventId);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  size(): number {
+    return this.processedAt.size;
+  }
+
+  private isExpired(timestamp: number): boolean {
+    return Date.now() - timestamp > this.retentionMs;
+  }
+}
@@ -0,0 +1,48 @@
+import { Op } from 'sequelize';
+import { EventId } from '../../domain/value-objects/EventId';
+import { Database } from '../database/Database';
+import { IProcessedEventLedger } from './IProcessedEventLedger';
+import { ProcessedEventRecord, defineProcessedEventSchema } from './ProcessedEventSchema';
+
+/**
+ * PostgreSQL processed-event ledger
+ *
+ * Stores processed eventIds in the `processed_events` table so that
+ * deduplication survives restarts and is shared between workers.
+ */
+export class PostgresProcessedEventLedger implements IProcessedEventLedger {
+  private readonly retentionMs: number;
+
+  constructor(database: Database, retentionMs: number) {
+    this.retentionMs = retentionMs;
+    defineProcessedEventSchema(database.getSequelize());
+  }
+
+  async hasProcessed(eventId: EventId): Promise<boolean> {
+    const count = await ProcessedEventRecord.count({
+      where: {
+        eventId: eventId.value,
+        processedAt: { [Op.gte]: this.retentionCutoff() }
+      }
+    });
+    return count > 0;
+  }
+
+  async markProcessed(eventId: EventId, eventType: string): Promise<void> {
+    await ProcessedEventRecord.upsert({
+      eventId: eventId.value,
+      eventType,
+      processedAt: new Date()
+    });
+  }
+
+  async purgeExpired(): Promise<number> {
+    return ProcessedEventRecord.destroy({
+      where: { processedAt: { [Op.lt]: this.retentionCutoff() } }
+    });
+  }
+
+  private retentionCutoff(): Date {
+    return new Date(Date.now() - this.retentionMs);
+  }
+}
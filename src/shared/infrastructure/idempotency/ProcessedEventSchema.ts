@@ -0,0 +1,27 @@
+import { DataTypes, Model, Sequelize } from 'sequelize';
+
+export interface ProcessedEventRecordAttributes {
+  eventId: string;
+  eventType: string;
+  processedAt: Date;
+}
+
+/**
+ * Row in the `processed_events` table
+ */
+export class ProcessedEventRecord extends Model<ProcessedEventRecordAttributes> {
+  declare eventId: string;
+  declare eventType: string;
+  declare processedAt: Date;
+}
+
+export function defineProcessedEventSchema(sequelize: Sequelize): void {
+  ProcessedEventRecord.init(
+    {
+      eventId: { type: DataTypes.UUID, primaryKey: true },
+      eventType: { type: DataTypes.STRING, allowNull: false },
+      processedAt: { type: DataTypes.DATE, allowNull: false }
+    },
+    { sequelize, tableName: 'processed_events', underscored: true, timestamps: false }
+  );
+}
@@ -0,0 +1,58 @@
+import { InMemoryProcessedEventLedger } from '../InMemoryProcessedEventLedger';
+import { EventId } from '../../../domain/value-objects/EventId';
+
+describe('InMemoryProcessedEventLedger', () => {
+  const retentionMs = 1000;
+  let ledger: InMemoryProcessedEventLedger;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    ledger = new InMemoryProcessedEventLedger(retentionMs);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should report unknown events as not processed', async () => {
+    await expect(ledger.hasProcessed(new EventId())).resolves.toBe(false);
+  });
+
+  it('should report recorded events as processed within retention', async () => {
+    // Arrange
+    const eventId = new EventId();
+    await ledger.markProcessed(eventId, 'OrderCreated');
+
+    // Act
+    jest.advanceTimersByTime(retentionMs - 1);
+
+    // Assert
+    await expect(ledger.hasProcessed(eventId)).resolves.toBe(true);
+  });
+
+  it('should forget events once retention has elapsed', async () => {
+    // Arrange
+    const eventId = new EventId();
+    await ledger.markProcessed(eventId, 'OrderCreated');
+
+    // Act
+    jest.advanceTimersByTime(retentionMs + 1);
+
+    // Assert
+    await expect(ledger.hasProcessed(eventId)).resolves.toBe(false);
+  });
+
+  it('should purge only expired entries', async () => {
+    // Arrange
+    await ledger.markProcessed(new EventId(), 'OrderCreated');
+    jest.advanceTimersByTime(retentionMs + 1);
+    await ledger.markProcessed(new EventId(), 'OrderCancelled');
+
+    // Act
+    const removed = await ledger.purgeExpired();
+
+    // Assert
+    expect(removed).toBe(1);
+    expect(ledger.size()).toBe(1);
+  });
+});
@@ -0,0 +1,9 @@
+import { MessageHandler } from './RabbitMQClient';
+
+/**
+ * Interface for Idempotent Message Handler
+ */
+export interface IIdempotentMessageHandler extends MessageHandler {
+  getHandlerName(): string;
+  getDuplicateCount(): number;
+}
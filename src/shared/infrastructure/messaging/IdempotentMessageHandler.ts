@@ -0,0 +1,89 @@
+import { Logger } from '../../application/logging/logger';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { IProcessedEventLedger } from '../idempotency/IProcessedEventLedger';
+import { MessageHandler } from './RabbitMQClient';
+import { IIdempotentMessageHandler } from './IIdempotentMessageHandler';
+import { MessageDelivery } from './MessageDelivery';
+import { PipelineMetrics } from '../metrics/PipelineMetrics';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Idempotent Message Handler (Decorator)
+ *
+ * Skips events whose eventId is already recorded in the processed-event
+ * ledger, so broker redeliveries never reach the strategies twice. Events
+ * are recorded only after the wrapped handler succeeds, or - when acks are
+ * deferred - only once the event is acked, so a failed batch is redelivered.
+ */
+export class IdempotentMessageHandler implements MessageHandler, IIdempotentMessageHandler {
+  private readonly logger: Logger;
+  private readonly ledger: IProcessedEventLedger;
+  private readonly baseHandler: MessageHandler;
+  private readonly metrics?: PipelineMetrics;
+  private duplicateCount: number = 0;
+  private lastPurgeAt: number = Date.now();
+
+  constructor(logger: Logger, ledger: IProcessedEventLedger, baseHandler: MessageHandler, metrics?: PipelineMetrics) {
+    this.logger = logger;
+    this.ledger = ledger;
+    this.baseHandler = baseHandler;
+    this.metrics = metrics;
+  }
+
+  getHandlerName(): string {
+    return `IdempotentMessageHandler(${this.baseHandler.getHandlerName()})`;
+  }
+
+  async handle(event: DomainEvent, delivery?: MessageDelivery): Promise<void> {
+    await this.purgeExpiredIfDue();
+
+    if (await this.ledger.hasProcessed(event.eventId)) {
+      this.duplicateCount++;
+      this.metrics?.duplicatesSkipped.inc({ event_type: event.eventType });
+      this.logger.warn(`🔁 Duplicate event skipped`, {
+        eventType: event.eventType,
+        eventId: event.eventId.value,
+        aggregateId: event.aggregateId,
+        totalDuplicates: this.duplicateCount
+      });
+      await delivery?.ack();
+      return;
+    }
+
+    if (!delivery) {
+      await this.baseHandler.handle(event);
+      await this.ledger.markProcessed(event.eventId, event.eventType);
+      return;
+    }
+
+    await this.baseHandler.handle(event, {
+      ...delivery,
+      ack: async () => {
+        await this.ledger.markProcessed(event.eventId, event.eventType);
+        await delivery.ack();
+      }
+    });
+  }
+
+  getDuplicateCount(): number {
+    return this.duplicateCount;
+  }
+
+  private async purgeExpiredIfDue(): Promise<void> {
+    if (Date.now() - this.lastPurgeAt < PURGE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPurgeAt = Date.now();
+
+    try {
+      const removed = await this.ledger.purgeExpired();
+      this.logger.info('🧹 Purged expired processed-event entries', { removed });
+    } catch (error) {
+      // Purging is housekeeping only - never fail a message because of it
+      this.logger.warn('⚠️ Failed to purge processed-event ledger', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { RetryState } from '../retry/RetryMechanism';
+
+/**
+ * Handle on a consumed message that travels with its event down the
+ * handler chain into the BatchProcessor, which reports the event's outcome
+ * through it once the strategy has run.
+ *
+ * Whoever ends up owning the event settles it exactly once: the
+ * BatchProcessor after the strategy ran, or a handler that drops the event
+ * early (e.g. a duplicate). Decorators wrap it to hook into settlement.
+ * Its retry state is what the broker redelivered the message with.
+ */
+export interface MessageDelivery extends RetryState {
+  /** Broker delivery tag; 0 when the message was already acked on receipt */
+  readonly deliveryTag: number;
+
+  /** The event was fully processed */
+  ack(): Promise<void>;
+
+  /**
+   * Processing failed. A retryable failure may be attempted again, a
+   * permanent one is dead-lettered straight away.
+   */
+  reject(error: Error, retryable: boolean): Promise<void>;
+
+  /** Hands the message back to the broker untouched, e.g. during shutdown */
+  requeue(): Promise<void>;
+}
+
+export type AckMode = 'on-handle' | 'after-batch';
+
+/**
+ * Delivery for messages the consumer acked on receipt (ackMode 'on-handle'):
+ * outcomes are still reported, but there is nothing left to settle on the broker.
+ */
+export function detachedDelivery(retry: RetryState = { attempt: 1 }): MessageDelivery {
+  return {
+    ...retry,
+    deliveryTag: 0,
+    ack: async () => undefined,
+    reject: async () => undefined,
+    requeue: async () => undefined
+  };
+}
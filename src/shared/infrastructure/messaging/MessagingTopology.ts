@@ -0,0 +1,111 @@
+import { Logger } from '../../application/logging/logger';
+import { retryDelays } from '../retry/RetryMechanism';
+import type { RabbitMQConfig } from './RabbitMQClient';
+import { RetryTopology } from './RetryTopology';
+import { TopologyDefinition, mergeTopologyDefinitions } from '../topology/TopologyDefinition';
+import { applyTopology } from '../topology/applyTopology';
+
+export type MessagingTopologyConfig = Pick<RabbitMQConfig, 'exchange' | 'queue' | 'routingKey' | 'retry'>;
+
+/**
+ * Messaging Topology
+ *
+ * The broker layout shared by every publisher and consumer of domain
+ * events: the exchanges, queues and bindings of the topology file or, when
+ * there is none, the consumer's topic exchange and queue bound to it with
+ * the configured binding key (e.g. `order.*`). The delayed retry queues
+ * follow from the retry config and are added in both cases.
+ *
+ * Events are published with the routing key `<aggregate>.<event>` derived
+ * from their type, e.g. OrderCreated -> `order.created` and
+ * OrderStatusChanged -> `order.status-changed`, so a single-word wildcard
+ * binding matches every event of an aggregate.
+ *
+ * Declaring it is idempotent, so each side declares the whole topology on
+ * (re)connect and nothing depends on which one connects first.
+ */
+export class MessagingTopology {
+  private readonly config: MessagingTopologyConfig;
+  private readonly retryTopology: RetryTopology | null;
+  private readonly definition: TopologyDefinition;
+
+  /**
+   * @param definition the topology to declare, e.g. from a topology file;
+   * it must declare the configured exchange and queue
+   */
+  constructor(config: MessagingTopologyConfig, definition?: TopologyDefinition) {
+    this.config = config;
+    this.retryTopology = config.retry
+      ? new RetryTopology(config.queue, config.exchange, retryDelays(config.retry))
+      : null;
+    this.definition = mergeTopologyDefinitions(
+      definition ?? MessagingTopology.defaultDefinition(config),
+      this.retryTopology?.getDefinition()
+    );
+
+    this.requireExchange(config.exchange);
+    this.requireQueue(config.queue);
+  }
+
+  /**
+   * The consumer's exchange and queue, bound with the binding key
+   */
+  static defaultDefinition(config: MessagingTopologyConfig): TopologyDefinition {
+    return {
+      exchanges: [{ name: config.exchange, type: 'topic', durable: true, arguments: {} }],
+      queues: [{ name: config.queue, type: 'classic', durable: true, arguments: {} }],
+      bindings: [{ exchange: config.exchange, queue: config.queue, routingKey: config.routingKey }]
+    };
+  }
+
+  getExchange(): string {
+    return this.config.exchange;
+  }
+
+  getQueue(): string {
+    return this.config.queue;
+  }
+
+  /** Binding key of the consumer queue */
+  getBindingKey(): string {
+    return this.config.routingKey;
+  }
+
+  getRetryTopology(): RetryTopology | null {
+    return this.retryTopology;
+  }
+
+  getDefinition(): TopologyDefinition {
+    return this.definition;
+  }
+
+  requireExchange(name: string): void {
+    if (!this.definition.exchanges.some(exchange => exchange.name === name)) {
+      throw new Error(`Messaging topology does not declare exchange ${name}`);
+    }
+  }
+
+  requireQueue(name: string): void {
+    if (!this.definition.queues.some(queue => queue.name === name)) {
+      throw new Error(`Messaging topology does not declare queue ${name}`);
+    }
+  }
+
+  /**
+   * Routing key an event of this type is published with
+   */
+  routingKeyFor(eventType: string): string {
+    const [aggregate, ...name] = eventType
+      .split(/(?=[A-Z])/)
+      .map(word => word.toLowerCase());
+
+    if (!aggregate || name.length === 0) {
+      throw new Error(`Cannot derive a routing key from event type: ${eventType}`);
+    }
+    return `${aggregate}.${name.join('-')}`;
+  }
+
+  async assert(channel: any, logger?: Logger): Promise<void> {
+    await applyTopology(channel, this.definition, logger);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * The consumed message cannot be turned into an event at all (not an
+ * object, malformed identifiers, ...). No amount of retrying will fix it.
+ */
+export class PoisonMessageError extends Error {
+  readonly originalMessage: unknown;
+
+  constructor(message: string, originalMessage: unknown) {
+    super(message);
+    this.name = 'PoisonMessageError';
+    this.originalMessage = originalMessage;
+  }
+}
@@ -1,31 +1,91 @@
 // Conteúdo do arquivo rabbitmq-client.ts 
 
-import * as amqp from 'amqplib';
 import { Logger } from '../../../shared/application/logging/logger';
+import { ChannelSetup, PublishConfig, RabbitMQConnection, ReconnectConfig } from './RabbitMQConnection';
+import { DEFAULT_WORKER_CONFIG, WorkerConfig, WorkerPool } from './WorkerPool';
+import { AckMode, MessageDelivery, detachedDelivery } from './MessageDelivery';
+import {
+  RETRY_ATTEMPT_HEADER,
+  RETRY_DELAY_HEADER,
+  RETRY_FIRST_FAILURE_HEADER,
+  RetryTopology
+} from './RetryTopology';
+import { MessagingTopology } from './MessagingTopology';
+import { RetryConfig, RetryScheduler, RetryState } from '../retry/RetryMechanism';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { PipelineMetrics } from '../metrics/PipelineMetrics';
+import { EventSerializer } from '../serialization/EventSerializer';
 
 export interface RabbitMQConfig {
   url: string;
   exchange: string;
   queue: string;
+  /** Binding key of the consumer queue; events are published as `<aggregate>.<event>` */
   routingKey: string;
+  reconnect?: ReconnectConfig;
+  publish?: PublishConfig;
+  /** JSON topology file declared on connect instead of the layout derived from this config */
+  topologyFile?: string;
+  /** RabbitMQ management API, used to compare the topology with the broker's */
+  managementUrl?: string;
+  /** 'after-batch' defers the ack until the event's strategy has run (at-least-once) */
+  ackMode?: AckMode;
+  /** Declares delayed retry queues so failed events are retried by the broker */
+  retry?: RetryConfig;
 }
 
 export interface MessageHandler {
-  handle(event: any): Promise<void>;
+  /**
+   * @param delivery carries the delivery attempt and, when acks are
+   * deferred, settles the message; the handler chain must pass it on to
+   * whoever settles the event
+   */
+  handle(event: any, delivery?: MessageDelivery): Promise<void>;
   getHandlerName(): string;
 }
 
-export class RabbitMQClient {
-  private connection: any = null;
-  private channel: any = null;
+type ConsumeHandler = (message: any, delivery?: MessageDelivery) => Promise<void>;
+
+export class RabbitMQClient implements RetryScheduler {
+  private readonly connection: RabbitMQConnection;
   private config: RabbitMQConfig;
   private logger: Logger;
   private messageHandlers: Map<string, MessageHandler> = new Map();
   private messageCount: number = 0;
+  private consuming: boolean = false;
+  private consumerSetup: ChannelSetup | null = null;
+  private consumers: Array<{ channel: any; consumerTag: string }> = [];
+  private consumerChannels: any[] = [];
+  private consumeHandler: ConsumeHandler | null = null;
+  private paused: boolean = false;
+  private readonly ackMode: AckMode;
+  private readonly workerConfig: WorkerConfig;
+  private readonly workerPool: WorkerPool;
+  private readonly topology: MessagingTopology;
+  private readonly serializer: EventSerializer;
+  private readonly retryTopology: RetryTopology | null;
+  private readonly metrics?: PipelineMetrics;
 
-  constructor(config: RabbitMQConfig, logger: Logger) {
+  constructor(
+    config: RabbitMQConfig,
+    logger: Logger,
+    workerConfig: WorkerConfig = DEFAULT_WORKER_CONFIG,
+    metrics?: PipelineMetrics,
+    topology: MessagingTopology = new MessagingTopology(config),
+    serializer: EventSerializer = new EventSerializer()
+  ) {
     this.config = config;
     this.logger = logger;
+    this.workerConfig = workerConfig;
+    this.metrics = metrics;
+    this.ackMode = config.ackMode ?? 'on-handle';
+    this.workerPool = new WorkerPool(workerConfig.concurrency);
+    this.topology = topology;
+    this.serializer = serializer;
+    this.retryTopology = this.topology.getRetryTopology();
+    this.connection = new RabbitMQConnection('RabbitMQ client', config.url, logger, config.reconnect, config.publish);
+    // Topology is re-declared on every reconnect, consumers are added by consume()
+    this.connection.addSetup(channel => this.setupTopology(channel));
   }
 
   registerHandler(queueName: string, handler: MessageHandler): void {
@@ -41,31 +101,7 @@ export class RabbitMQClient {
         url: this.config.url.replace(/\/\/.*@/, '//***:***@') // Hide credentials in logs
       });
 
-      this.connection = await amqp.connect(this.config.url);
-      if (!this.connection) {
-        throw new Error('Failed to establish RabbitMQ connection');
-      }
-
-      this.channel = await this.connection.createChannel();
-      if (!this.channel) {
-        throw new Error('Failed to create RabbitMQ channel');
-      }
-      
-      // Setup exchange
-      await this.channel.assertExchange(this.config.exchange, 'topic', { durable: true });
-      this.logger.info(`Exchange configured: ${this.config.exchange}`);
-      
-      // Setup queue
-      await this.channel.assertQueue(this.config.queue, { durable: true });
-      this.logger.info(`Queue configured: ${this.config.queue}`);
-      
-      // Bind queue to exchange
-      await this.channel.bindQueue(this.config.queue, this.config.exchange, this.config.routingKey);
-      this.logger.info(`Queue bound to exchange`, {
-        queue: this.config.queue,
-        exchange: this.config.exchange,
-        routingKey: this.config.routingKey
-      });
+      await this.connection.connect();
       
       this.logger.info('RabbitMQ connection established successfully');
     } catch (error) {
@@ -74,85 +110,98 @@ export class RabbitMQClient {
     }
   }
 
-  async publish(message: any): Promise<void> {
-    if (!this.channel) {
-      throw new Error('Channel not initialized');
-    }
+  private async setupTopology(channel: any): Promise<void> {
+    await this.topology.assert(channel, this.logger);
+  }
 
+  /**
+   * Publishes a message and resolves once the broker has confirmed it.
+   * Messages no queue is bound for are rejected instead of silently dropped.
+   * Events are routed by their type; anything else with the binding key.
+   */
+  async publish(message: any): Promise<void> {
     try {
       const content = Buffer.from(JSON.stringify(message));
-      const published = this.channel.publish(this.config.exchange, this.config.routingKey, content);
+      const routingKey = typeof message?.eventType === 'string'
+        ? this.topology.routingKeyFor(message.eventType)
+        : this.config.routingKey;
+      // Buffered by the connection while it is recovering
+      await this.connection.publish(this.config.exchange, routingKey, content, {
+        persistent: true,
+        mandatory: true
+      });
       
       this.logger.info('Message published successfully', {
         exchange: this.config.exchange,
-        routingKey: this.config.routingKey,
+        routingKey,
         messageSize: content.length,
         eventType: message.eventType || 'unknown',
         eventId: message.eventId || 'unknown'
       });
-
-      if (!published) {
-        this.logger.warn('Message may not have been published (channel buffer full)');
-      }
     } catch (error) {
       this.logger.error('Failed to publish message', { error, message });
       throw error;
     }
   }
 
-  async consume(handler: (message: any) => Promise<void>): Promise<void> {
-    if (!this.channel) {
+  /**
+   * Publishes the event to the retry queue for its delay; the broker routes
+   * it back to the consumer queue once the delay has passed.
+   */
+  async scheduleRetry(event: DomainEvent, retry: RetryState, delayMs: number): Promise<void> {
+    const { attempt } = retry;
+    const queueDelayMs = this.retryTopology?.findQueueDelay(delayMs);
+    if (!this.retryTopology || queueDelayMs === undefined) {
+      throw new Error(`No retry queue configured for a delay of ${delayMs}ms`);
+    }
+
+    const retryQueue = this.retryTopology.getQueueName(queueDelayMs);
+    const content = Buffer.from(JSON.stringify(this.serializer.serialize(event)));
+
+    // Sent through the default exchange, which routes by queue name
+    await this.connection.publish('', retryQueue, content, {
+      persistent: true,
+      mandatory: true,
+      // Shorter (jittered) delays expire before the queue's own TTL
+      ...(delayMs < queueDelayMs && { expiration: String(delayMs) }),
+      headers: {
+        [RETRY_ATTEMPT_HEADER]: attempt,
+        ...(retry.firstFailureAt !== undefined && { [RETRY_FIRST_FAILURE_HEADER]: retry.firstFailureAt }),
+        ...(retry.lastRetryDelayMs !== undefined && { [RETRY_DELAY_HEADER]: retry.lastRetryDelayMs })
+      }
+    });
+
+    this.logger.info('🔁 Event scheduled for retry', {
+      eventType: event.eventType,
+      eventId: event.eventId?.value,
+      attempt,
+      delayMs,
+      retryQueue
+    });
+  }
+
+  async consume(handler: ConsumeHandler): Promise<void> {
+    if (!this.connection.isConnected()) {
       throw new Error('Channel not initialized');
     }
 
-    try {
-      this.logger.info(`Starting consumer for queue: ${this.config.queue}`);
+    if (this.consuming) {
+      throw new Error('Consumer already started');
+    }
 
-      await this.channel.consume(this.config.queue, async (msg: any) => {
-        if (msg) {
-          const messageId = ++this.messageCount;
-          const startTime = Date.now();
-          
-          try {
-            this.logger.info(`📨 Received message #${messageId}`, {
-              queue: this.config.queue,
-              messageSize: msg.content.length,
-              routingKey: msg.fields.routingKey,
-              exchange: msg.fields.exchange
-            });
-
-            const content = JSON.parse(msg.content.toString());
-            
-            this.logger.info(`🔄 Processing message #${messageId}`, {
-              eventType: content.eventType || 'unknown',
-              eventId: content.eventId || 'unknown',
-              aggregateId: content.aggregateId || 'unknown'
-            });
-
-            await handler(content);
-            
-            const processingTime = Date.now() - startTime;
-            this.logger.info(`✅ Message #${messageId} processed successfully`, {
-              processingTimeMs: processingTime,
-              eventType: content.eventType
-            });
-
-            this.channel?.ack(msg);
-          } catch (error) {
-            const processingTime = Date.now() - startTime;
-            this.logger.error(`❌ Error processing message #${messageId}`, {
-              error: error instanceof Error ? error.message : 'Unknown error',
-              processingTimeMs: processingTime,
-              stack: error instanceof Error ? error.stack : undefined
-            });
-            
-            // Reject without requeue - message should already be in DLQ if retry failed
-            // The RetryableMessageHandler handles retries and DLQ, so we don't requeue here
-            this.logger.warn(`🚫 Rejecting message #${messageId} without requeue (already processed by retry mechanism)`);
-            this.channel?.nack(msg, false, false); // requeue=false
-          }
-        }
+    try {
+      this.logger.info(`Starting consumer for queue: ${this.config.queue}`, {
+        channels: this.workerConfig.channels,
+        prefetchCount: this.workerConfig.prefetchCount,
+        concurrency: this.workerConfig.concurrency,
+        ackMode: this.ackMode
       });
+
+      // Registered as a setup so the consumers are re-created after a reconnect
+      this.consumeHandler = handler;
+      this.consumerSetup = (channel, openChannel) => this.startConsumers(channel, openChannel, handler);
+      await this.connection.addSetup(this.consumerSetup);
+      this.consuming = true;
       
       this.logger.info('Consumer started successfully', {
         queue: this.config.queue
@@ -163,19 +212,272 @@ export class RabbitMQClient {
     }
   }
 
-  async disconnect(): Promise<void> {
+  /**
+   * Cancels the consumers and waits for in-flight handlers, so remaining
+   * batches can still be processed and acked before disconnect().
+   */
+  async stopConsuming(): Promise<void> {
+    if (this.consumerSetup) {
+      this.connection.removeSetup(this.consumerSetup);
+      this.consumerSetup = null;
+    }
+
+    await this.cancelConsumers();
+    await this.workerPool.whenIdle();
+    this.logger.info('Consumer stopped', { queue: this.config.queue });
+  }
+
+  /**
+   * Stops taking new messages without tearing the consumer down, e.g. while
+   * a circuit is open. Messages already received are still processed.
+   */
+  async pauseConsuming(): Promise<void> {
+    if (!this.consumerSetup || this.paused) {
+      return;
+    }
+
+    this.paused = true;
+    await this.cancelConsumers();
+    this.logger.warn('⏸️ Consumer paused', { queue: this.config.queue });
+  }
+
+  async resumeConsuming(): Promise<void> {
+    if (!this.paused) {
+      return;
+    }
+
+    this.paused = false;
+    // Reuses the channels of the paused consumers; after a reconnect the setup has new ones
+    if (this.consumeHandler && this.consumers.length === 0 && this.connection.isConnected()) {
+      await this.consumeOn(this.consumerChannels, this.consumeHandler);
+    }
+    this.logger.info('▶️ Consumer resumed', { queue: this.config.queue });
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  isConnected(): boolean {
+    return this.connection.isConnected();
+  }
+
+  getWorkerPool(): WorkerPool {
+    return this.workerPool;
+  }
+
+  /**
+   * Consumes on the main channel plus (channels - 1) extra channels. Each
+   * channel gets its own prefetch window; all deliveries share the worker pool.
+   */
+  private async startConsumers(
+    channel: any,
+    openChannel: () => Promise<any>,
+    handler: ConsumeHandler
+  ): Promise<void> {
+    const channels = [channel];
+    for (let i = 1; i < this.workerConfig.channels; i++) {
+      channels.push(await openChannel());
+    }
+
+    // Consumers from before a reconnect died with their channels
+    this.consumers = [];
+    this.consumerChannels = channels;
+    if (this.paused) {
+      return;
+    }
+
+    await this.consumeOn(channels, handler);
+  }
+
+  private async consumeOn(channels: any[], handler: ConsumeHandler): Promise<void> {
+    for (const consumerChannel of channels) {
+      await consumerChannel.prefetch(this.workerConfig.prefetchCount);
+      const { consumerTag } = await consumerChannel.consume(this.config.queue, (msg: any) => {
+        if (msg) {
+          this.workerPool.run(() => this.processMessage(consumerChannel, msg, handler));
+        }
+      });
+      this.consumers.push({ channel: consumerChannel, consumerTag });
+    }
+  }
+
+  private async cancelConsumers(): Promise<void> {
+    for (const { channel, consumerTag } of this.consumers.splice(0)) {
+      try {
+        await channel.cancel(consumerTag);
+      } catch (error) {
+        // The channel is already gone, and so is its consumer
+        this.logger.warn('⚠️ Could not cancel consumer', {
+          consumerTag,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  private async processMessage(channel: any, msg: any, handler: ConsumeHandler): Promise<void> {
+    const messageId = ++this.messageCount;
+    const startTime = Date.now();
+    this.metrics?.messagesReceived.inc({ queue: this.config.queue });
+    const retry = this.getRetryState(msg);
+    const delivery = this.ackMode === 'after-batch'
+      ? this.createDelivery(channel, msg, messageId, retry)
+      : detachedDelivery(retry);
+    
     try {
-      this.logger.info('Disconnecting from RabbitMQ...');
+      this.logger.info(`📨 Received message #${messageId}`, {
+        queue: this.config.queue,
+        messageSize: msg.content.length,
+        routingKey: msg.fields.routingKey,
+        exchange: msg.fields.exchange
+      });
+
+      const content = JSON.parse(msg.content.toString());
+      
+      this.logger.info(`🔄 Processing message #${messageId}`, {
+        eventType: content.eventType || 'unknown',
+        eventId: content.eventId || 'unknown',
+        aggregateId: content.aggregateId || 'unknown',
+        attempt: retry.attempt
+      });
+
+      await handler(content, delivery);
       
-      if (this.channel) {
-        await this.channel.close();
-        this.logger.info('RabbitMQ channel closed');
+      const processingTime = Date.now() - startTime;
+
+      if (this.ackMode === 'after-batch') {
+        // Settled later by whoever owns the event now (normally the batch processor)
+        this.logger.info(`📥 Message #${messageId} accepted, ack deferred until processed`, {
+          processingTimeMs: processingTime,
+          eventType: content.eventType,
+          deliveryTag: delivery.deliveryTag
+        });
+        return;
       }
+
+      this.logger.info(`✅ Message #${messageId} processed successfully`, {
+        processingTimeMs: processingTime,
+        eventType: content.eventType
+      });
+
+      this.ack(messageId, channel, msg);
+    } catch (error) {
+      const processingTime = Date.now() - startTime;
+      this.logger.error(`❌ Error processing message #${messageId}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        processingTimeMs: processingTime,
+        stack: error instanceof Error ? error.stack : undefined
+      });
       
-      if (this.connection) {
-        await this.connection.close();
-        this.logger.info('RabbitMQ connection closed');
+      // Reject without requeue - message should already be in DLQ if retry failed
+      // The RetryableMessageHandler handles retries and DLQ, so we don't requeue here
+      this.logger.warn(`🚫 Rejecting message #${messageId} without requeue (already processed by retry mechanism)`);
+      if (this.ackMode === 'after-batch') {
+        await delivery.reject(error instanceof Error ? error : new Error(String(error)), false);
+      } else {
+        this.nack(messageId, channel, msg, false);
       }
+    }
+  }
+
+  /**
+   * Delivery handed down the handler chain in after-batch mode. Settling is
+   * idempotent, so a late reject after an ack (or vice versa) is ignored.
+   */
+  private createDelivery(channel: any, msg: any, messageId: number, retry: RetryState): MessageDelivery {
+    let settled = false;
+
+    return {
+      ...retry,
+      deliveryTag: msg.fields.deliveryTag,
+      ack: async () => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        this.ack(messageId, channel, msg);
+        this.logger.info(`✅ Message #${messageId} acked after processing`, {
+          deliveryTag: msg.fields.deliveryTag
+        });
+      },
+      // Retries and dead-lettering happen up the handler chain; what reaches
+      // the broker is final, so the message is dropped rather than requeued
+      reject: async (error: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        this.nack(messageId, channel, msg, false);
+        this.logger.warn(`🚫 Message #${messageId} rejected after processing failed`, {
+          deliveryTag: msg.fields.deliveryTag,
+          error: error.message
+        });
+      },
+      requeue: async () => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        this.nack(messageId, channel, msg, true);
+        this.logger.warn(`↩️ Message #${messageId} requeued`, {
+          deliveryTag: msg.fields.deliveryTag
+        });
+      }
+    };
+  }
+
+  /**
+   * Messages published by scheduleRetry carry their retry state (a parked
+   * message may carry it on its first attempt too); anything else is a
+   * first delivery
+   */
+  private getRetryState(msg: any): RetryState {
+    const headers = msg.properties?.headers ?? {};
+    const attempt = Number(headers[RETRY_ATTEMPT_HEADER]);
+    const firstFailureAt = Number(headers[RETRY_FIRST_FAILURE_HEADER]);
+    const lastRetryDelayMs = Number(headers[RETRY_DELAY_HEADER]);
+    return {
+      attempt: Number.isInteger(attempt) && attempt > 1 ? attempt : 1,
+      ...(Number.isFinite(firstFailureAt) && firstFailureAt > 0 && { firstFailureAt }),
+      ...(Number.isFinite(lastRetryDelayMs) && lastRetryDelayMs >= 0 && { lastRetryDelayMs })
+    };
+  }
+
+  private ack(messageId: number, channel: any, msg: any): void {
+    this.settle(messageId, () => {
+      channel.ack(msg);
+      this.metrics?.messagesAcked.inc({ queue: this.config.queue });
+    });
+  }
+
+  private nack(messageId: number, channel: any, msg: any, requeue: boolean): void {
+    this.settle(messageId, () => {
+      channel.nack(msg, false, requeue);
+      this.metrics?.messagesNacked.inc({ queue: this.config.queue, requeue: String(requeue) });
+    });
+  }
+
+  /**
+   * Acks/nacks on the channel that delivered the message. If that channel
+   * died meanwhile the broker has already requeued the message for redelivery.
+   */
+  private settle(messageId: number, settle: () => void): void {
+    try {
+      settle();
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not settle message #${messageId} - channel closed, it will be redelivered`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      this.logger.info('Disconnecting from RabbitMQ...');
+      
+      await this.connection.close();
+      this.logger.info('RabbitMQ connection closed');
       
       this.logger.info(`Total messages processed: ${this.messageCount}`);
     } catch (error) {
@@ -0,0 +1,436 @@
+import * as amqp from 'amqplib';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../application/logging/logger';
+
+export interface ReconnectConfig {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  /** Messages held while disconnected before publish starts rejecting */
+  maxBufferedMessages: number;
+  /** How long a buffered message may wait for the connection to come back */
+  bufferTimeoutMs: number;
+}
+
+export const DEFAULT_RECONNECT_CONFIG: ReconnectConfig = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffFactor: 2,
+  maxBufferedMessages: 1000,
+  bufferTimeoutMs: 30000
+};
+
+export interface PublishConfig {
+  /** How long to wait for the broker to ack or nack a published message */
+  confirmTimeoutMs: number;
+}
+
+export const DEFAULT_PUBLISH_CONFIG: PublishConfig = {
+  confirmTimeoutMs: 10000
+};
+
+/**
+ * Declares topology or registers consumers on a freshly opened channel.
+ * Setups run in registration order on the first connect and after every reconnect.
+ * openChannel creates an additional channel on the same connection; it is
+ * recovered together with the connection, so setups may simply reopen it.
+ */
+export type ChannelSetup = (channel: any, openChannel: () => Promise<any>) => Promise<void>;
+
+interface BufferedMessage {
+  exchange: string;
+  routingKey: string;
+  content: Buffer;
+  options: Record<string, any>;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * RabbitMQ Connection
+ *
+ * Owns one amqplib connection and channel and keeps them alive. When the
+ * broker drops the connection (or the channel is closed under us) it
+ * reconnects with exponential backoff and replays every registered
+ * ChannelSetup, so exchanges, queues, bindings and consumers come back
+ * without the owner noticing. Messages published while disconnected are
+ * buffered up to maxBufferedMessages and flushed once the channel is back.
+ *
+ * The channel is a confirm channel: publish() resolves only once the broker
+ * acks the message and rejects on a nack, a confirm timeout, or when a
+ * mandatory message comes back unroutable (basic.return). When the socket
+ * write buffer is full further publishes wait for 'drain' instead of piling up.
+ *
+ * Only an established connection is recovered: a failing first connect()
+ * is reported to the caller so startup fails fast.
+ */
+export class RabbitMQConnection {
+  private connection: any = null;
+  private channel: any = null;
+  private readonly name: string;
+  private readonly url: string;
+  private readonly logger: Logger;
+  private readonly reconnectConfig: ReconnectConfig;
+  private readonly publishConfig: PublishConfig;
+  private readonly returnedMessageIds = new Set<string>();
+  private drained: Promise<void> | null = null;
+  private releaseDrain: (() => void) | null = null;
+  private readonly setups: ChannelSetup[] = [];
+  private readonly buffer: BufferedMessage[] = [];
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectAttempt: number = 0;
+  private started: boolean = false;
+  private closing: boolean = false;
+
+  constructor(
+    name: string,
+    url: string,
+    logger: Logger,
+    reconnectConfig: Partial<ReconnectConfig> = {},
+    publishConfig: Partial<PublishConfig> = {}
+  ) {
+    this.name = name;
+    this.url = url;
+    this.logger = logger;
+    this.reconnectConfig = { ...DEFAULT_RECONNECT_CONFIG, ...reconnectConfig };
+    this.publishConfig = { ...DEFAULT_PUBLISH_CONFIG, ...publishConfig };
+  }
+
+  /**
+   * Registers a setup step. When already connected it is also run right away.
+   */
+  async addSetup(setup: ChannelSetup): Promise<void> {
+    this.setups.push(setup);
+    if (this.channel) {
+      const connection = this.connection;
+      await setup(this.channel, () => this.openExtraChannel(connection));
+    }
+  }
+
+  /**
+   * Stops replaying a setup on future reconnects
+   */
+  removeSetup(setup: ChannelSetup): void {
+    const index = this.setups.indexOf(setup);
+    if (index >= 0) {
+      this.setups.splice(index, 1);
+    }
+  }
+
+  /**
+   * Opens the connection; once started (connected or recovering) further
+   * calls do nothing, so there is only ever one connection to close
+   */
+  async connect(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.closing = false;
+    await this.open();
+    this.started = true;
+  }
+
+  /**
+   * Publishes on the current channel and waits for the broker confirm, or
+   * buffers the message while the connection is being recovered. Rejects
+   * once the buffer is full.
+   */
+  async publish(
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    options: Record<string, any> = {}
+  ): Promise<void> {
+    if (this.drained) {
+      await this.drained;
+    }
+
+    if (this.channel) {
+      return this.publishConfirmed(this.channel, exchange, routingKey, content, options);
+    }
+
+    if (!this.started || this.closing) {
+      throw new Error(`${this.name} is not connected`);
+    }
+
+    if (this.buffer.length >= this.reconnectConfig.maxBufferedMessages) {
+      throw new Error(`${this.name} is disconnected and the publish buffer is full`);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const message: BufferedMessage = {
+        exchange,
+        routingKey,
+        content,
+        options,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.removeFromBuffer(message);
+          reject(new Error(`${this.name} did not reconnect within ${this.reconnectConfig.bufferTimeoutMs}ms`));
+        }, this.reconnectConfig.bufferTimeoutMs)
+      };
+      this.buffer.push(message);
+      this.logger.warn(`⏸️ ${this.name} disconnected - message buffered`, {
+        exchange,
+        routingKey,
+        buffered: this.buffer.length
+      });
+    });
+  }
+
+  getChannel(): any {
+    return this.channel;
+  }
+
+  isConnected(): boolean {
+    return this.channel !== null;
+  }
+
+  getBufferedCount(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Closes the channel and connection for good; no reconnect follows.
+   * Buffered messages are rejected.
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    this.started = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.rejectBuffered(new Error(`${this.name} was closed before the message could be published`));
+    this.stopDraining();
+
+    const channel = this.channel;
+    const connection = this.connection;
+    this.channel = null;
+    this.connection = null;
+
+    if (channel) {
+      await channel.close();
+    }
+    if (connection) {
+      await connection.close();
+    }
+  }
+
+  private async open(): Promise<void> {
+    const connection = await amqp.connect(this.url);
+    if (!connection) {
+      throw new Error('Failed to establish RabbitMQ connection');
+    }
+
+    try {
+      const channel = await connection.createConfirmChannel();
+      if (!channel) {
+        throw new Error('Failed to create RabbitMQ channel');
+      }
+
+      for (const setup of this.setups) {
+        await setup(channel, () => this.openExtraChannel(connection));
+      }
+
+      this.watch(connection, channel);
+      this.connection = connection;
+      this.channel = channel;
+    } catch (error) {
+      await Promise.resolve(connection.close()).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private watch(connection: any, channel: any): void {
+    // 'error' is always followed by 'close'; listening keeps it from being thrown
+    connection.on('error', (error: Error) => {
+      this.logger.error(`❌ ${this.name} connection error`, { error: error.message });
+    });
+    connection.on('close', () => this.handleClose(connection));
+
+    channel.on('error', (error: Error) => {
+      this.logger.error(`❌ ${this.name} channel error`, { error: error.message });
+    });
+    channel.on('return', (msg: any) => {
+      const messageId = msg.properties?.messageId;
+      if (messageId) {
+        this.returnedMessageIds.add(messageId);
+      }
+      this.logger.warn(`📭 ${this.name} message returned as unroutable`, {
+        exchange: msg.fields?.exchange,
+        routingKey: msg.fields?.routingKey,
+        replyText: msg.fields?.replyText
+      });
+    });
+    this.recycleOnClose(connection, channel);
+  }
+
+  private async openExtraChannel(connection: any): Promise<any> {
+    const channel = await connection.createChannel();
+    channel.on('error', (error: Error) => {
+      this.logger.error(`❌ ${this.name} channel error`, { error: error.message });
+    });
+    this.recycleOnClose(connection, channel);
+    return channel;
+  }
+
+  private recycleOnClose(connection: any, channel: any): void {
+    channel.on('close', () => {
+      // A channel can die on its own (e.g. a precondition failure); recycle the
+      // whole connection so recovery always goes through the same path
+      if (!this.closing && this.connection === connection) {
+        Promise.resolve(connection.close()).catch(() => this.handleClose(connection));
+      }
+    });
+  }
+
+  private handleClose(connection: any): void {
+    if (this.closing || this.connection !== connection) {
+      return;
+    }
+
+    this.connection = null;
+    this.channel = null;
+    // Publishers waiting for 'drain' fall through to the reconnect buffer
+    this.stopDraining();
+    this.logger.warn(`⚠️ ${this.name} connection lost - reconnecting`);
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      this.reconnectConfig.initialDelayMs * Math.pow(this.reconnectConfig.backoffFactor, this.reconnectAttempt),
+      this.reconnectConfig.maxDelayMs
+    );
+    this.reconnectAttempt++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  private async reconnect(): Promise<void> {
+    if (this.closing) {
+      return;
+    }
+
+    try {
+      await this.open();
+    } catch (error) {
+      this.logger.warn(`🔄 ${this.name} reconnect attempt ${this.reconnectAttempt} failed`, {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      if (!this.closing) {
+        this.scheduleReconnect();
+      }
+      return;
+    }
+
+    if (this.closing) {
+      // close() was called while we were reconnecting
+      await this.close().catch(() => undefined);
+      return;
+    }
+
+    this.logger.info(`✅ ${this.name} reconnected`, {
+      attempts: this.reconnectAttempt,
+      buffered: this.buffer.length
+    });
+    this.reconnectAttempt = 0;
+    this.flushBuffer();
+  }
+
+  private flushBuffer(): void {
+    for (const message of this.buffer.splice(0)) {
+      clearTimeout(message.timer);
+      this.publish(message.exchange, message.routingKey, message.content, message.options)
+        .then(message.resolve, message.reject);
+    }
+  }
+
+  private publishConfirmed(
+    channel: any,
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    options: Record<string, any>
+  ): Promise<void> {
+    // basic.return carries the message properties back, so tag every message
+    const messageId: string = options.messageId ?? uuidv4();
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.returnedMessageIds.delete(messageId);
+        reject(new Error(`${this.name} publish was not confirmed within ${this.publishConfig.confirmTimeoutMs}ms`));
+      }, this.publishConfig.confirmTimeoutMs);
+
+      // The broker always sends basic.return before the ack of a returned message
+      const onConfirm = (error: any) => {
+        clearTimeout(timer);
+        const returned = this.returnedMessageIds.delete(messageId);
+        if (error) {
+          reject(error);
+        } else if (returned) {
+          reject(new Error(`Message is unroutable: no queue bound to ${exchange} with routing key ${routingKey}`));
+        } else {
+          resolve();
+        }
+      };
+
+      let hasRoom: boolean;
+      try {
+        hasRoom = channel.publish(exchange, routingKey, content, { ...options, messageId }, onConfirm);
+      } catch (error) {
+        clearTimeout(timer);
+        reject(error);
+        return;
+      }
+
+      if (!hasRoom) {
+        this.startDraining(channel);
+      }
+    });
+  }
+
+  /**
+   * The message was written, but the socket buffer is full: hold back
+   * further publishes until the channel emits 'drain'.
+   */
+  private startDraining(channel: any): void {
+    if (this.drained) {
+      return;
+    }
+
+    this.logger.warn(`⏳ ${this.name} write buffer full - waiting for drain`);
+    this.drained = new Promise<void>((resolve) => {
+      this.releaseDrain = resolve;
+    });
+    channel.once('drain', () => this.stopDraining());
+  }
+
+  private stopDraining(): void {
+    const release = this.releaseDrain;
+    this.drained = null;
+    this.releaseDrain = null;
+    release?.();
+  }
+
+  private rejectBuffered(error: Error): void {
+    for (const message of this.buffer.splice(0)) {
+      clearTimeout(message.timer);
+      message.reject(error);
+    }
+  }
+
+  private removeFromBuffer(message: BufferedMessage): void {
+    const index = this.buffer.indexOf(message);
+    if (index >= 0) {
+      this.buffer.splice(index, 1);
+    }
+  }
+}
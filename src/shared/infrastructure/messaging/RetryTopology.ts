@@ -0,0 +1,85 @@
+import { TopologyDefinition } from '../topology/TopologyDefinition';
+import { applyTopology } from '../topology/applyTopology';
+
+/** Delivery attempt of a message, set when it is published for a retry */
+export const RETRY_ATTEMPT_HEADER = 'x-retry-attempt';
+/** When the event first failed (epoch ms) */
+export const RETRY_FIRST_FAILURE_HEADER = 'x-retry-first-failure-at';
+/** Delay the message waited before this attempt */
+export const RETRY_DELAY_HEADER = 'x-retry-delay-ms';
+
+/**
+ * Retry Topology
+ *
+ * Delayed retries for a consumer queue, kept in the broker instead of in
+ * process. Every backoff delay gets its own queue whose messages expire
+ * after that delay (x-message-ttl) and are then dead-lettered to the main
+ * exchange with the queue's retry routing key, which only the consumer
+ * queue is bound to. A waiting retry therefore survives restarts and never
+ * blocks the consumer.
+ *
+ * One queue per delay keeps every message in a queue expiring in order, as
+ * RabbitMQ only expires messages at the head of a queue. Jittered delays go
+ * to the shortest queue that fits them with a per-message expiration; one
+ * may then wait behind the head of its queue, but never past the queue's
+ * delay.
+ */
+export class RetryTopology {
+  private readonly queue: string;
+  private readonly exchange: string;
+  private readonly delaysMs: number[];
+
+  constructor(queue: string, exchange: string, delaysMs: number[]) {
+    this.queue = queue;
+    this.exchange = exchange;
+    this.delaysMs = delaysMs;
+  }
+
+  /** Routes expired retries back to the consumer queue only */
+  getRoutingKey(): string {
+    return `${this.queue}.retry`;
+  }
+
+  getQueueName(delayMs: number): string {
+    return `${this.queue}.retry.${delayMs}ms`;
+  }
+
+  getDelays(): number[] {
+    return [...this.delaysMs];
+  }
+
+  /**
+   * Delay of the shortest queue that can hold a message waiting delayMs
+   */
+  findQueueDelay(delayMs: number): number | undefined {
+    return this.delaysMs
+      .filter(queueDelayMs => queueDelayMs >= delayMs)
+      .sort((a, b) => a - b)[0];
+  }
+
+  /**
+   * The retry queues and the consumer queue's binding to the retry routing
+   * key. Expects the exchange and consumer queue to be declared as well.
+   */
+  getDefinition(): TopologyDefinition {
+    return {
+      exchanges: [],
+      queues: this.delaysMs.map(delayMs => ({
+        name: this.getQueueName(delayMs),
+        type: 'classic' as const,
+        durable: true,
+        arguments: { 'x-message-ttl': delayMs },
+        deadLetter: { exchange: this.exchange, routingKey: this.getRoutingKey() }
+      })),
+      bindings: [{ exchange: this.exchange, queue: this.queue, routingKey: this.getRoutingKey() }]
+    };
+  }
+
+  /**
+   * Declares the retry queues and binds the consumer queue to the retry
+   * routing key. Expects the exchange and consumer queue to exist.
+   */
+  async assert(channel: any): Promise<void> {
+    await applyTopology(channel, this.getDefinition());
+  }
+}
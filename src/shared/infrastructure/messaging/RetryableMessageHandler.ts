@@ -4,37 +4,57 @@ import { DomainEvent } from '../../domain/events/DomainEvent';
 import { EventId } from '../../domain/value-objects/EventId';
 import { MessageHandler } from './RabbitMQClient';
 import { IRetryableMessageHandler } from './IRetryableMessageHandler';
+import { MessageDelivery, detachedDelivery } from './MessageDelivery';
+import { PoisonMessageError } from './PoisonMessageError';
+import { EventSerializer } from '../serialization/EventSerializer';
 
 export class RetryableMessageHandler implements MessageHandler, IRetryableMessageHandler {
   private readonly logger: Logger;
   private readonly retryMechanism: RetryMechanism;
   private readonly baseHandler: MessageHandler;
+  private readonly serializer: EventSerializer;
 
   constructor(
     logger: Logger,
     retryMechanism: RetryMechanism,
-    baseHandler: MessageHandler
+    baseHandler: MessageHandler,
+    serializer: EventSerializer
   ) {
     this.logger = logger;
     this.retryMechanism = retryMechanism;
     this.baseHandler = baseHandler;
+    this.serializer = serializer;
   }
 
   getHandlerName(): string {
     return `RetryableMessageHandler(${this.baseHandler.getHandlerName()})`;
   }
 
-  async handle(message: any): Promise<void> {
+  async handle(message: any, delivery?: MessageDelivery): Promise<void> {
     this.logger.info(`🔄 RETRYABLE HANDLER: Processing message`, {
-      eventType: message.eventType,
-      eventId: message.eventId,
-      aggregateId: message.aggregateId
+      eventType: message?.eventType,
+      eventId: message?.eventId,
+      aggregateId: message?.aggregateId
     });
 
-    // Convert message to DomainEvent for retry mechanism
-    const domainEvent = this.convertToDomainEvent(message);
+    // Messages acked on receipt still report their batch outcome, so
+    // failures inside the batch are retried and dead-lettered in both modes
+    const messageDelivery = delivery ?? detachedDelivery();
 
-    this.logger.info(`🔄 RETRYABLE HANDLER: Converted to domain event`, {
+    // Rebuild the event as an instance of its class; messages that cannot be mapped are poison
+    let domainEvent: DomainEvent;
+    try {
+      domainEvent = this.serializer.deserialize(message);
+    } catch (error) {
+      const poison = new PoisonMessageError(
+        `Malformed message: ${error instanceof Error ? error.message : String(error)}`,
+        message
+      );
+      await this.handleFailure(this.describePoisonMessage(message), messageDelivery, poison, 'RetryableMessageHandler');
+      return;
+    }
+
+    this.logger.info(`🔄 RETRYABLE HANDLER: Deserialized domain event`, {
       eventType: domainEvent.eventType,
       eventId: domainEvent.eventId?.value,
       aggregateId: domainEvent.aggregateId,
@@ -42,40 +62,87 @@ export class RetryableMessageHandler implements MessageHandler, IRetryableMessag
     });
 
     try {
-      await this.retryMechanism.executeWithRetry(
-        async () => {
-          this.logger.info(`🔄 RETRYABLE HANDLER: Calling base handler`);
-          return await this.baseHandler.handle(domainEvent); // Pass domainEvent instead of message
-        },
-        `MessageProcessing-${message.eventType || 'Unknown'}`,
-        domainEvent
+      this.logger.info(`🔄 RETRYABLE HANDLER: Calling base handler`, {
+        attempt: messageDelivery.attempt
+      });
+      await this.baseHandler.handle(domainEvent, this.trackOutcome(domainEvent, messageDelivery));
+    } catch (error) {
+      // Failed before the event reached its batch (validation, event store)
+      await this.handleFailure(
+        domainEvent,
+        messageDelivery,
+        error instanceof Error ? error : new Error(String(error)),
+        'RetryableMessageHandler'
       );
+    }
+  }
 
+  /**
+   * An event that fails after it was accepted (i.e. in its batch) reports
+   * the failure through its delivery, so it is routed to retry or the DLQ
+   * just like a failure while handling.
+   */
+  private trackOutcome(event: DomainEvent, delivery: MessageDelivery): MessageDelivery {
+    return {
+      deliveryTag: delivery.deliveryTag,
+      attempt: delivery.attempt,
+      firstFailureAt: delivery.firstFailureAt,
+      lastRetryDelayMs: delivery.lastRetryDelayMs,
+      ack: () => delivery.ack(),
+      requeue: () => delivery.requeue(),
+      reject: (error: Error, retryable: boolean) =>
+        this.handleFailure(event, delivery, error, 'BatchProcessor', retryable)
+    };
+  }
 
+  /**
+   * Retries (and events parked on an open circuit) are scheduled on the
+   * broker rather than awaited here, so the message is settled right away
+   * either way. Only if neither a retry nor
+   * the DLQ took the event is the message requeued, so it is not lost.
+   *
+   * @param retryable the batch's own verdict; when false the event is not
+   * retried whatever the error classifier says
+   */
+  private async handleFailure(
+    event: DomainEvent,
+    delivery: MessageDelivery,
+    error: Error,
+    source: string,
+    retryable?: boolean
+  ): Promise<void> {
+    this.logger.error('❌ Message processing failed', {
+      eventType: event.eventType,
+      eventId: event.eventId?.value,
+      attempt: delivery.attempt,
+      error: error.message
+    });
 
-    } catch (error) {
-      this.logger.error('❌ Message processing failed after all retry attempts', {
-        eventType: message.eventType,
-        eventId: message.eventId,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+    const disposition = await this.retryMechanism.handleFailure(event, error, delivery, {
+      source,
+      ...(retryable === false && { canRetry: false })
+    });
 
-      // Error is already logged and sent to DLQ by RetryMechanism
-      // Re-throw to let RabbitMQ know the message failed
-      throw error;
+    if (disposition === 'unhandled') {
+      await delivery.requeue();
+    } else {
+      await delivery.reject(error, disposition === 'retry-scheduled' || disposition === 'parked');
     }
   }
 
-  private convertToDomainEvent(message: any): DomainEvent {
-    // Create a DomainEvent-like object from the message
-    // This allows the retry mechanism to work with proper event data
+  /**
+   * Stand-in event for a message that could not be converted, so it can
+   * still be dead-lettered with its original content
+   */
+  private describePoisonMessage(message: any): DomainEvent {
+    const isObject = !!message && typeof message === 'object' && !Array.isArray(message);
     return {
-      eventId: message.eventId ? new EventId(message.eventId) : new EventId(),
-      eventType: message.eventType || 'UnknownEvent',
-      aggregateId: message.aggregateId || 'unknown',
-      data: message.data || message,
-      version: message.version || 1,
-      occurredOn: message.occurredOn ? new Date(message.occurredOn) : new Date()
+      eventId: new EventId(),
+      eventType: isObject && typeof message.eventType === 'string' ? message.eventType : 'UnknownEvent',
+      aggregateId: 'unknown',
+      data: isObject ? message : { payload: message },
+      version: 1,
+      occurredOn: new Date()
     } as DomainEvent;
   }
-} 
\ No newline at end of file
+}
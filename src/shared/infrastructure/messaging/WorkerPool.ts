@@ -0,0 +1,90 @@
+export interface WorkerConfig {
+  /** Maximum number of messages handled at the same time */
+  concurrency: number;
+  /** Unacked messages the broker may push to each consumer channel */
+  prefetchCount: number;
+  /** Consumer channels opened on the connection; all of them feed the same pool */
+  channels: number;
+}
+
+export const DEFAULT_WORKER_CONFIG: WorkerConfig = {
+  concurrency: 5,
+  prefetchCount: 10,
+  channels: 1
+};
+
+/**
+ * Worker Pool
+ *
+ * Bounds how many tasks run at once. Tasks submitted while every worker is
+ * busy wait in FIFO order for a free slot, so messages prefetched by the
+ * broker queue up here instead of all hitting the handlers together.
+ */
+export class WorkerPool {
+  private readonly concurrency: number;
+  private readonly waiting: Array<() => void> = [];
+  private active: number = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(concurrency: number) {
+    if (concurrency < 1) {
+      throw new Error('Worker pool concurrency must be greater than 0');
+    }
+    this.concurrency = concurrency;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  getActiveCount(): number {
+    return this.active;
+  }
+
+  getQueuedCount(): number {
+    return this.waiting.length;
+  }
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Resolves once no task is running or waiting
+   */
+  async whenIdle(): Promise<void> {
+    if (this.active === 0 && this.waiting.length === 0) {
+      return;
+    }
+    await new Promise<void>(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return;
+    }
+    // The slot is handed over directly by release(), so active stays accurate
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+
+    this.active--;
+    if (this.active === 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { IdempotentMessageHandler } from '../IdempotentMessageHandler';
+import { MessageHandler } from '../RabbitMQClient';
+import { InMemoryProcessedEventLedger } from '../../idempotency/InMemoryProcessedEventLedger';
+import { IProcessedEventLedger } from '../../idempotency/IProcessedEventLedger';
+import { Logger } from '../../../application/logging/logger';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { EventId } from '../../../domain/value-objects/EventId';
+import { MessageDelivery } from '../MessageDelivery';
+import { PipelineMetrics } from '../../metrics/PipelineMetrics';
+
+describe('IdempotentMessageHandler', () => {
+  let handler: IdempotentMessageHandler;
+  let ledger: InMemoryProcessedEventLedger;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockBaseHandler: jest.Mocked<MessageHandler>;
+  let metrics: PipelineMetrics;
+  let sampleEvent: DomainEvent;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    mockBaseHandler = {
+      handle: jest.fn().mockResolvedValue(undefined),
+      getHandlerName: jest.fn().mockReturnValue('MockBaseHandler')
+    };
+
+    ledger = new InMemoryProcessedEventLedger(60 * 60 * 1000);
+    metrics = new PipelineMetrics();
+    handler = new IdempotentMessageHandler(mockLogger, ledger, mockBaseHandler, metrics);
+
+    sampleEvent = {
+      eventId: new EventId('550e8400-e29b-41d4-a716-446655440000'),
+      eventType: 'OrderCreated',
+      aggregateId: 'order-123',
+      data: { orderId: 'order-123' },
+      version: 1,
+      occurredOn: new Date()
+    };
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should wrap the base handler name', () => {
+    expect(handler.getHandlerName()).toBe('IdempotentMessageHandler(MockBaseHandler)');
+  });
+
+  it('should process a new event and record it', async () => {
+    // Act
+    await handler.handle(sampleEvent);
+
+    // Assert
+    expect(mockBaseHandler.handle).toHaveBeenCalledWith(sampleEvent);
+    await expect(ledger.hasProcessed(sampleEvent.eventId)).resolves.toBe(true);
+    expect(handler.getDuplicateCount()).toBe(0);
+  });
+
+  it('should skip a redelivered event and count it as duplicate', async () => {
+    // Arrange
+    await handler.handle(sampleEvent);
+
+    // Act
+    await handler.handle({ ...sampleEvent, eventId: new EventId(sampleEvent.eventId.value) });
+
+    // Assert
+    expect(mockBaseHandler.handle).toHaveBeenCalledTimes(1);
+    expect(handler.getDuplicateCount()).toBe(1);
+    expect(mockLogger.warn).toHaveBeenCalledWith('🔁 Duplicate event skipped', expect.objectContaining({
+      eventId: sampleEvent.eventId.value
+    }));
+    expect(metrics.registry.render()).toContain(
+      'event_processor_duplicates_skipped_total{event_type="OrderCreated"} 1'
+    );
+  });
+
+  it('should not record events whose processing failed', async () => {
+    // Arrange
+    mockBaseHandler.handle.mockRejectedValueOnce(new Error('Processing failed'));
+
+    // Act & Assert
+    await expect(handler.handle(sampleEvent)).rejects.toThrow('Processing failed');
+    await expect(ledger.hasProcessed(sampleEvent.eventId)).resolves.toBe(false);
+
+    await handler.handle(sampleEvent);
+    expect(mockBaseHandler.handle).toHaveBeenCalledTimes(2);
+  });
+
+  describe('with a deferred delivery', () => {
+    let delivery: jest.Mocked<MessageDelivery>;
+
+    beforeEach(() => {
+      delivery = {
+        deliveryTag: 7,
+        attempt: 1,
+        ack: jest.fn().mockResolvedValue(undefined),
+        reject: jest.fn().mockResolvedValue(undefined),
+        requeue: jest.fn().mockResolvedValue(undefined)
+      };
+    });
+
+    it('should record the event only once its delivery is acked', async () => {
+      // Act
+      await handler.handle(sampleEvent, delivery);
+
+      // Assert
+      await expect(ledger.hasProcessed(sampleEvent.eventId)).resolves.toBe(false);
+      const passedDelivery = mockBaseHandler.handle.mock.calls[0]![1]!;
+      expect(passedDelivery.deliveryTag).toBe(7);
+
+      await passedDelivery.ack();
+      await expect(ledger.hasProcessed(sampleEvent.eventId)).resolves.toBe(true);
+      expect(delivery.ack).toHaveBeenCalled();
+    });
+
+    it('should keep the retry state of the delivery it wraps', async () => {
+      // Arrange
+      delivery = { ...delivery, attempt: 3, firstFailureAt: 1700000000000, lastRetryDelayMs: 2000 };
+
+      // Act
+      await handler.handle(sampleEvent, delivery);
+
+      // Assert
+      expect(mockBaseHandler.handle.mock.calls[0]![1]).toMatchObject({
+        deliveryTag: 7,
+        attempt: 3,
+        firstFailureAt: 1700000000000,
+        lastRetryDelayMs: 2000
+      });
+    });
+
+    it('should leave a rejected event unrecorded so its retry is processed', async () => {
+      // Arrange
+      await handler.handle(sampleEvent, delivery);
+      const error = new Error('Strategy failed');
+
+      // Act
+      await mockBaseHandler.handle.mock.calls[0]![1]!.reject(error, true);
+
+      // Assert
+      expect(delivery.reject).toHaveBeenCalledWith(error, true);
+      await expect(ledger.hasProcessed(sampleEvent.eventId)).resolves.toBe(false);
+    });
+
+    it('should ack duplicates straight away', async () => {
+      // Arrange
+      await ledger.markProcessed(sampleEvent.eventId, sampleEvent.eventType);
+
+      // Act
+      await handler.handle(sampleEvent, delivery);
+
+      // Assert
+      expect(mockBaseHandler.handle).not.toHaveBeenCalled();
+      expect(delivery.ack).toHaveBeenCalled();
+    });
+  });
+
+  it('should purge the ledger periodically without failing messages', async () => {
+    // Arrange
+    jest.useFakeTimers();
+    const mockLedger: jest.Mocked<IProcessedEventLedger> = {
+      hasProcessed: jest.fn().mockResolvedValue(false),
+      markProcessed: jest.fn().mockResolvedValue(undefined),
+      purgeExpired: jest.fn().mockRejectedValue(new Error('DB down'))
+    };
+    handler = new IdempotentMessageHandler(mockLogger, mockLedger, mockBaseHandler);
+
+    // Act
+    jest.advanceTimersByTime(2 * 60 * 60 * 1000);
+    await handler.handle(sampleEvent);
+    await handler.handle(sampleEvent);
+
+    // Assert
+    expect(mockLedger.purgeExpired).toHaveBeenCalledTimes(1);
+    expect(mockBaseHandler.handle).toHaveBeenCalledTimes(2);
+    expect(mockLogger.warn).toHaveBeenCalledWith('⚠️ Failed to purge processed-event ledger', expect.any(Object));
+  });
+});
@@ -0,0 +1,71 @@
+import { MessagingTopology } from '../MessagingTopology';
+
+describe('MessagingTopology', () => {
+  const config = {
+    exchange: 'orders_exchange',
+    queue: 'order_events',
+    routingKey: 'order.*'
+  };
+
+  const createMockChannel = () => ({
+    assertExchange: jest.fn().mockResolvedValue({}),
+    assertQueue: jest.fn().mockResolvedValue({}),
+    bindQueue: jest.fn().mockResolvedValue({})
+  });
+
+  describe('routingKeyFor', () => {
+    it('should route an event by its aggregate and name', () => {
+      // Arrange
+      const topology = new MessagingTopology(config);
+
+      // Act & Assert
+      expect(topology.routingKeyFor('OrderCreated')).toBe('order.created');
+      expect(topology.routingKeyFor('OrderCancelled')).toBe('order.cancelled');
+      expect(topology.routingKeyFor('OrderStatusChanged')).toBe('order.status-changed');
+    });
+
+    it('should reject event types without an event name', () => {
+      // Arrange
+      const topology = new MessagingTopology(config);
+
+      // Act & Assert
+      expect(() => topology.routingKeyFor('Order')).toThrow('Cannot derive a routing key from event type: Order');
+      expect(() => topology.routingKeyFor('')).toThrow('Cannot derive a routing key from event type: ');
+    });
+  });
+
+  describe('assert', () => {
+    it('should declare the exchange and the consumer queue bound with the binding key', async () => {
+      // Arrange
+      const topology = new MessagingTopology(config);
+      const channel = createMockChannel();
+
+      // Act
+      await topology.assert(channel);
+
+      // Assert
+      expect(channel.assertExchange).toHaveBeenCalledWith('orders_exchange', 'topic', { durable: true });
+      expect(channel.assertQueue).toHaveBeenCalledWith('order_events', { durable: true });
+      expect(channel.bindQueue).toHaveBeenCalledTimes(1);
+      expect(channel.bindQueue).toHaveBeenCalledWith('order_events', 'orders_exchange', 'order.*');
+      expect(topology.getRetryTopology()).toBeNull();
+    });
+
+    it('should declare the retry queues when retries are configured', async () => {
+      // Arrange
+      const topology = new MessagingTopology({
+        ...config,
+        retry: { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 30000, backoffFactor: 2 }
+      });
+      const channel = createMockChannel();
+
+      // Act
+      await topology.assert(channel);
+
+      // Assert
+      expect(channel.assertQueue).toHaveBeenCalledWith('order_events.retry.1000ms', expect.any(Object));
+      expect(channel.assertQueue).toHaveBeenCalledWith('order_events.retry.2000ms', expect.any(Object));
+      expect(channel.bindQueue).toHaveBeenCalledWith('order_events', 'orders_exchange', 'order_events.retry');
+    });
+  });
+});
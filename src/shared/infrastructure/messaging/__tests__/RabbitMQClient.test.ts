@@ -0,0 +1,421 @@
+import * as amqp from 'amqplib';
+import { RabbitMQClient } from '../RabbitMQClient';
+import { Logger } from '../../../application/logging/logger';
+import { EventId } from '../../../domain/value-objects/EventId';
+import { PipelineMetrics } from '../../metrics/PipelineMetrics';
+
+// Mock amqplib
+jest.mock('amqplib');
+const mockAmqp = amqp as jest.Mocked<typeof amqp>;
+
+function createMockChannel() {
+  const channel: any = {
+    assertExchange: jest.fn().mockResolvedValue({}),
+    assertQueue: jest.fn().mockResolvedValue({}),
+    bindQueue: jest.fn().mockResolvedValue({}),
+    prefetch: jest.fn().mockResolvedValue({}),
+    cancel: jest.fn().mockResolvedValue({}),
+    consume: jest.fn((_queue: string, onMessage: (msg: any) => void) => {
+      channel.deliver = onMessage;
+      return Promise.resolve({ consumerTag: 'ctag' });
+    }),
+    ack: jest.fn(),
+    nack: jest.fn(),
+    publish: jest.fn((_exchange, _routingKey, _content, _options, onConfirm) => {
+      onConfirm(null);
+      return true;
+    }),
+    close: jest.fn().mockResolvedValue({}),
+    on: jest.fn()
+  };
+  return channel;
+}
+
+function message(eventId: string, headers?: Record<string, any>) {
+  return {
+    content: Buffer.from(JSON.stringify({ eventId, eventType: 'OrderCreated', aggregateId: 'order-1' })),
+    fields: { routingKey: 'order.created', exchange: 'orders_exchange', deliveryTag: 1 },
+    properties: { headers }
+  };
+}
+
+describe('RabbitMQClient', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let mainChannel: any;
+  let extraChannel: any;
+  let mockConnection: any;
+
+  const rabbitmqConfig = {
+    url: 'amqp://localhost:5672',
+    exchange: 'orders_exchange',
+    queue: 'order_events',
+    routingKey: 'order.*'
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    mainChannel = createMockChannel();
+    extraChannel = createMockChannel();
+    mockConnection = {
+      createConfirmChannel: jest.fn().mockResolvedValue(mainChannel),
+      createChannel: jest.fn().mockResolvedValue(extraChannel),
+      close: jest.fn().mockResolvedValue({}),
+      on: jest.fn()
+    };
+    mockAmqp.connect.mockResolvedValue(mockConnection);
+  });
+
+  describe('consume', () => {
+    it('should apply the configured prefetch before consuming', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger, { concurrency: 2, prefetchCount: 7, channels: 1 });
+      await client.connect();
+
+      // Act
+      await client.consume(jest.fn());
+
+      // Assert
+      expect(mainChannel.prefetch).toHaveBeenCalledWith(7);
+      expect(mainChannel.prefetch.mock.invocationCallOrder[0])
+        .toBeLessThan(mainChannel.consume.mock.invocationCallOrder[0]);
+      expect(mockConnection.createChannel).not.toHaveBeenCalled();
+    });
+
+    it('should bound in-flight handler executions to the configured concurrency', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger, { concurrency: 2, prefetchCount: 10, channels: 1 });
+      await client.connect();
+      const releases: Array<() => void> = [];
+      const handler = jest.fn(() => new Promise<void>(resolve => releases.push(resolve)));
+      await client.consume(handler);
+
+      // Act
+      mainChannel.deliver(message('e1'));
+      mainChannel.deliver(message('e2'));
+      mainChannel.deliver(message('e3'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Assert
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(client.getWorkerPool().getQueuedCount()).toBe(1);
+
+      releases[0]!();
+      await new Promise(resolve => setImmediate(resolve));
+      expect(handler).toHaveBeenCalledTimes(3);
+      expect(mainChannel.ack).toHaveBeenCalledTimes(1);
+    });
+
+    it('should spread consumers across the configured number of channels', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger, { concurrency: 4, prefetchCount: 5, channels: 2 });
+      await client.connect();
+      const handler = jest.fn().mockResolvedValue(undefined);
+
+      // Act
+      await client.consume(handler);
+      extraChannel.deliver(message('e1'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Assert
+      expect(mockConnection.createChannel).toHaveBeenCalledTimes(1);
+      expect(extraChannel.prefetch).toHaveBeenCalledWith(5);
+      expect(extraChannel.consume).toHaveBeenCalledWith('order_events', expect.any(Function));
+      expect(extraChannel.ack).toHaveBeenCalledTimes(1);
+      expect(mainChannel.ack).not.toHaveBeenCalled();
+    });
+
+    it('should nack without requeue when the handler fails', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger);
+      await client.connect();
+      await client.consume(jest.fn().mockRejectedValue(new Error('boom')));
+
+      // Act
+      const msg = message('e1');
+      mainChannel.deliver(msg);
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Assert
+      expect(mainChannel.nack).toHaveBeenCalledWith(msg, false, false);
+    });
+
+    it('should defer the ack to the delivery in after-batch mode', async () => {
+      // Arrange
+      const client = new RabbitMQClient({ ...rabbitmqConfig, ackMode: 'after-batch' }, mockLogger);
+      await client.connect();
+      const handler = jest.fn().mockResolvedValue(undefined);
+      await client.consume(handler);
+      const msg = message('e1');
+
+      // Act
+      mainChannel.deliver(msg);
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Assert
+      expect(mainChannel.ack).not.toHaveBeenCalled();
+      const delivery = handler.mock.calls[0][1];
+      expect(delivery.deliveryTag).toBe(1);
+
+      await delivery.ack();
+      await delivery.reject(new Error('late'), true);
+      expect(mainChannel.ack).toHaveBeenCalledWith(msg);
+      expect(mainChannel.nack).not.toHaveBeenCalled();
+    });
+
+    it('should requeue through the delivery when the message is handed back', async () => {
+      // Arrange
+      const client = new RabbitMQClient({ ...rabbitmqConfig, ackMode: 'after-batch' }, mockLogger);
+      await client.connect();
+      const handler = jest.fn().mockResolvedValue(undefined);
+      await client.consume(handler);
+      const msg = message('e1');
+      mainChannel.deliver(msg);
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Act
+      await handler.mock.calls[0][1].requeue();
+
+      // Assert
+      expect(mainChannel.nack).toHaveBeenCalledWith(msg, false, true);
+    });
+
+    it('should reject through the delivery when the handler fails in after-batch mode', async () => {
+      // Arrange
+      const client = new RabbitMQClient({ ...rabbitmqConfig, ackMode: 'after-batch' }, mockLogger);
+      await client.connect();
+      await client.consume(jest.fn().mockRejectedValue(new Error('boom')));
+      const msg = message('e1');
+
+      // Act
+      mainChannel.deliver(msg);
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Assert
+      expect(mainChannel.nack).toHaveBeenCalledWith(msg, false, false);
+    });
+
+    it('should count received, acked and nacked messages', async () => {
+      // Arrange
+      const metrics = new PipelineMetrics();
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger, undefined, metrics);
+      await client.connect();
+      await client.consume(jest.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('boom')));
+
+      // Act
+      mainChannel.deliver(message('e1'));
+      mainChannel.deliver(message('e2'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Assert
+      expect(metrics.messagesReceived.get({ queue: 'order_events' })).toBe(2);
+      expect(metrics.messagesAcked.get({ queue: 'order_events' })).toBe(1);
+      expect(metrics.messagesNacked.get({ queue: 'order_events', requeue: 'false' })).toBe(1);
+    });
+
+    it('should throw when not connected', async () => {
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger);
+      await expect(client.consume(jest.fn())).rejects.toThrow('Channel not initialized');
+    });
+  });
+
+  describe('stopConsuming', () => {
+    it('should cancel the consumers and not restart them after a reconnect', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger);
+      await client.connect();
+      await client.consume(jest.fn().mockResolvedValue(undefined));
+
+      // Act
+      await client.stopConsuming();
+
+      // Assert
+      expect(mainChannel.cancel).toHaveBeenCalledWith('ctag');
+      const onClose = mockConnection.on.mock.calls.find(([event]: [string]) => event === 'close')[1];
+      jest.useFakeTimers();
+      onClose();
+      await jest.advanceTimersByTimeAsync(1000);
+      jest.useRealTimers();
+      expect(mainChannel.consume).toHaveBeenCalledTimes(1);
+      await client.disconnect();
+    });
+  });
+
+  describe('pauseConsuming', () => {
+    it('should cancel the consumers and consume on the same channel again once resumed', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger);
+      await client.connect();
+      await client.consume(jest.fn().mockResolvedValue(undefined));
+
+      // Act
+      await client.pauseConsuming();
+
+      // Assert
+      expect(mainChannel.cancel).toHaveBeenCalledWith('ctag');
+      expect(client.isPaused()).toBe(true);
+
+      await client.resumeConsuming();
+      expect(mainChannel.consume).toHaveBeenCalledTimes(2);
+      expect(mockConnection.createConfirmChannel).toHaveBeenCalledTimes(1);
+      expect(client.isPaused()).toBe(false);
+    });
+
+    it('should stay paused across a reconnect', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger);
+      await client.connect();
+      await client.consume(jest.fn().mockResolvedValue(undefined));
+      await client.pauseConsuming();
+
+      // Act
+      const onClose = mockConnection.on.mock.calls.find(([event]: [string]) => event === 'close')[1];
+      jest.useFakeTimers();
+      onClose();
+      await jest.advanceTimersByTimeAsync(1000);
+      jest.useRealTimers();
+
+      // Assert
+      expect(mainChannel.consume).toHaveBeenCalledTimes(1);
+      await client.resumeConsuming();
+      expect(mainChannel.consume).toHaveBeenCalledTimes(2);
+      await client.disconnect();
+    });
+
+    it('should do nothing before consuming started', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger);
+      await client.connect();
+
+      // Act
+      await client.pauseConsuming();
+
+      // Assert
+      expect(client.isPaused()).toBe(false);
+      expect(mainChannel.cancel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delayed retries', () => {
+    const retry = { maxAttempts: 4, initialDelayMs: 1000, maxDelayMs: 3000, backoffFactor: 2 };
+    const event = {
+      eventId: new EventId('550e8400-e29b-41d4-a716-446655440000'),
+      eventType: 'OrderCreated',
+      aggregateId: 'order-1',
+      data: { total: 10 },
+      version: 1,
+      occurredOn: new Date('2024-01-01T00:00:00Z')
+    };
+
+    it('should declare one retry queue per backoff delay that dead-letters back to the consumer queue', async () => {
+      // Arrange
+      const client = new RabbitMQClient({ ...rabbitmqConfig, retry }, mockLogger);
+
+      // Act
+      await client.connect();
+
+      // Assert - delays 1000, 2000 and 3000 (capped)
+      expect(mainChannel.assertQueue).toHaveBeenCalledWith('order_events.retry.1000ms', {
+        durable: true,
+        arguments: {
+          'x-message-ttl': 1000,
+          'x-dead-letter-exchange': 'orders_exchange',
+          'x-dead-letter-routing-key': 'order_events.retry'
+        }
+      });
+      expect(mainChannel.assertQueue).toHaveBeenCalledWith('order_events.retry.3000ms', expect.any(Object));
+      expect(mainChannel.assertQueue).toHaveBeenCalledTimes(4);
+      expect(mainChannel.bindQueue).toHaveBeenCalledWith('order_events', 'orders_exchange', 'order_events.retry');
+    });
+
+    it('should publish a retry to the queue for its delay with the retry headers', async () => {
+      // Arrange
+      const client = new RabbitMQClient({ ...rabbitmqConfig, retry }, mockLogger);
+      await client.connect();
+
+      // Act
+      await client.scheduleRetry(event, { attempt: 2, firstFailureAt: 1700000000000, lastRetryDelayMs: 1000 }, 1000);
+
+      // Assert
+      const [exchange, routingKey, content, options] = mainChannel.publish.mock.calls[0];
+      expect(exchange).toBe('');
+      expect(routingKey).toBe('order_events.retry.1000ms');
+      expect(JSON.parse(content.toString())).toMatchObject({
+        eventId: '550e8400-e29b-41d4-a716-446655440000',
+        eventType: 'OrderCreated',
+        data: { total: 10 }
+      });
+      expect(options).toMatchObject({
+        persistent: true,
+        headers: { 'x-retry-attempt': 2, 'x-retry-first-failure-at': 1700000000000, 'x-retry-delay-ms': 1000 }
+      });
+      expect(options.expiration).toBeUndefined();
+    });
+
+    it('should publish jittered delays to the shortest queue that fits with a per-message expiration', async () => {
+      // Arrange
+      const client = new RabbitMQClient({ ...rabbitmqConfig, retry }, mockLogger);
+      await client.connect();
+
+      // Act
+      await client.scheduleRetry(event, { attempt: 3, firstFailureAt: 1700000000000, lastRetryDelayMs: 1450 }, 1450);
+
+      // Assert
+      const [, routingKey, , options] = mainChannel.publish.mock.calls[0];
+      expect(routingKey).toBe('order_events.retry.2000ms');
+      expect(options.expiration).toBe('1450');
+    });
+
+    it('should refuse delays longer than any retry queue', async () => {
+      // Arrange
+      const client = new RabbitMQClient({ ...rabbitmqConfig, retry }, mockLogger);
+      await client.connect();
+
+      // Act & Assert
+      await expect(client.scheduleRetry(event, { attempt: 2, firstFailureAt: 1700000000000, lastRetryDelayMs: 5000 }, 5000))
+        .rejects.toThrow('No retry queue configured for a delay of 5000ms');
+    });
+
+    it('should refuse delays no retry queue exists for', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger);
+      await client.connect();
+
+      // Act & Assert
+      await expect(client.scheduleRetry(event, { attempt: 2, firstFailureAt: 1700000000000, lastRetryDelayMs: 1000 }, 1000))
+        .rejects.toThrow('No retry queue configured for a delay of 1000ms');
+      expect(mainChannel.publish).not.toHaveBeenCalled();
+    });
+
+    it('should read the retry state from the retry headers', async () => {
+      // Arrange
+      const client = new RabbitMQClient(rabbitmqConfig, mockLogger);
+      await client.connect();
+      const handler = jest.fn().mockResolvedValue(undefined);
+      await client.consume(handler);
+
+      // Act
+      mainChannel.deliver(message('e1', {
+        'x-retry-attempt': 3,
+        'x-retry-first-failure-at': 1700000000000,
+        'x-retry-delay-ms': 2000
+      }));
+      mainChannel.deliver(message('e2'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      // Assert
+      expect(handler.mock.calls[0][1]).toMatchObject({ attempt: 3, firstFailureAt: 1700000000000, lastRetryDelayMs: 2000 });
+      expect(handler.mock.calls[1][1].attempt).toBe(1);
+      expect(handler.mock.calls[1][1].firstFailureAt).toBeUndefined();
+    });
+  });
+});
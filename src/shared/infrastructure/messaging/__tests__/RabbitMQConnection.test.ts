@@ -0,0 +1,334 @@
+import * as amqp from 'amqplib';
+import { RabbitMQConnection } from '../RabbitMQConnection';
+import { Logger } from '../../../application/logging/logger';
+
+// Mock amqplib
+jest.mock('amqplib');
+const mockAmqp = amqp as jest.Mocked<typeof amqp>;
+
+function createMockConnection() {
+  const listeners: Record<string, (...args: any[]) => void> = {};
+  const channelListeners: Record<string, (...args: any[]) => void> = {};
+
+  const channel = {
+    assertQueue: jest.fn().mockResolvedValue({}),
+    // Broker acks right away unless a test overrides it
+    publish: jest.fn((_exchange, _routingKey, _content, _options, onConfirm) => {
+      onConfirm(null);
+      return true;
+    }),
+    close: jest.fn().mockResolvedValue({}),
+    on: jest.fn((event: string, listener: (...args: any[]) => void) => {
+      channelListeners[event] = listener;
+    }),
+    once: jest.fn((event: string, listener: (...args: any[]) => void) => {
+      channelListeners[event] = listener;
+    })
+  };
+
+  const connection = {
+    createConfirmChannel: jest.fn().mockResolvedValue(channel),
+    close: jest.fn().mockResolvedValue({}),
+    on: jest.fn((event: string, listener: (...args: any[]) => void) => {
+      listeners[event] = listener;
+    })
+  };
+
+  return { connection, channel, listeners, channelListeners };
+}
+
+describe('RabbitMQConnection', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let connection: RabbitMQConnection;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    connection = new RabbitMQConnection('Test connection', 'amqp://localhost:5672', mockLogger, {
+      initialDelayMs: 1000,
+      maxDelayMs: 4000,
+      backoffFactor: 2,
+      maxBufferedMessages: 2,
+      bufferTimeoutMs: 10000
+    });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run every setup on connect', async () => {
+    // Arrange
+    const first = createMockConnection();
+    mockAmqp.connect.mockResolvedValue(first.connection as any);
+    const setup = jest.fn().mockResolvedValue(undefined);
+    await connection.addSetup(setup);
+
+    // Act
+    await connection.connect();
+
+    // Assert
+    expect(setup).toHaveBeenCalledWith(first.channel, expect.any(Function));
+    expect(connection.isConnected()).toBe(true);
+  });
+
+  it('should keep the open connection when connect is called again', async () => {
+    // Arrange
+    const first = createMockConnection();
+    mockAmqp.connect.mockResolvedValue(first.connection as any);
+    await connection.connect();
+
+    // Act
+    await connection.connect();
+    await connection.close();
+
+    // Assert
+    expect(mockAmqp.connect).toHaveBeenCalledTimes(1);
+    expect(first.connection.close).toHaveBeenCalled();
+  });
+
+  it('should fail fast and close the connection when the first setup fails', async () => {
+    // Arrange
+    const first = createMockConnection();
+    mockAmqp.connect.mockResolvedValue(first.connection as any);
+    await connection.addSetup(jest.fn().mockRejectedValue(new Error('PRECONDITION_FAILED')));
+
+    // Act & Assert
+    await expect(connection.connect()).rejects.toThrow('PRECONDITION_FAILED');
+    expect(first.connection.close).toHaveBeenCalled();
+    expect(connection.isConnected()).toBe(false);
+  });
+
+  it('should reconnect with backoff and replay setups after the connection is lost', async () => {
+    // Arrange
+    const first = createMockConnection();
+    const second = createMockConnection();
+    mockAmqp.connect
+      .mockResolvedValueOnce(first.connection as any)
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce(second.connection as any);
+    const setup = jest.fn().mockResolvedValue(undefined);
+    await connection.addSetup(setup);
+    await connection.connect();
+
+    // Act
+    first.listeners['close']!();
+    await jest.advanceTimersByTimeAsync(1000); // attempt 1 fails
+    expect(connection.isConnected()).toBe(false);
+    await jest.advanceTimersByTimeAsync(2000); // attempt 2 after doubled delay
+
+    // Assert
+    expect(mockAmqp.connect).toHaveBeenCalledTimes(3);
+    expect(setup).toHaveBeenLastCalledWith(second.channel, expect.any(Function));
+    expect(connection.getChannel()).toBe(second.channel);
+    expect(mockLogger.info).toHaveBeenCalledWith('✅ Test connection reconnected', expect.any(Object));
+  });
+
+  it('should open extra channels on the same connection for setups', async () => {
+    // Arrange
+    const first = createMockConnection();
+    const extra = { on: jest.fn() };
+    (first.connection as any).createChannel = jest.fn().mockResolvedValue(extra);
+    mockAmqp.connect.mockResolvedValue(first.connection as any);
+    let opened: any;
+    await connection.addSetup(async (_channel, openChannel) => {
+      opened = await openChannel();
+    });
+
+    // Act
+    await connection.connect();
+
+    // Assert
+    expect(opened).toBe(extra);
+    expect(extra.on).toHaveBeenCalledWith('close', expect.any(Function));
+  });
+
+  it('should recycle the connection when the channel closes on its own', async () => {
+    // Arrange
+    const first = createMockConnection();
+    mockAmqp.connect.mockResolvedValue(first.connection as any);
+    await connection.connect();
+
+    // Act
+    first.channelListeners['close']!();
+
+    // Assert
+    expect(first.connection.close).toHaveBeenCalled();
+  });
+
+  it('should buffer publishes while disconnected and flush them on reconnect', async () => {
+    // Arrange
+    const first = createMockConnection();
+    const second = createMockConnection();
+    mockAmqp.connect
+      .mockResolvedValueOnce(first.connection as any)
+      .mockResolvedValueOnce(second.connection as any);
+    await connection.connect();
+    first.listeners['close']!();
+
+    // Act
+    const pending = connection.publish('orders_exchange', 'order.created', Buffer.from('{}'));
+    expect(connection.getBufferedCount()).toBe(1);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    // Assert
+    await expect(pending).resolves.toBeUndefined();
+    expect(first.channel.publish).not.toHaveBeenCalled();
+    expect(second.channel.publish).toHaveBeenCalledWith(
+      'orders_exchange',
+      'order.created',
+      expect.any(Buffer),
+      { messageId: expect.any(String) },
+      expect.any(Function)
+    );
+    expect(connection.getBufferedCount()).toBe(0);
+  });
+
+  it('should reject publishes once the buffer is full', async () => {
+    // Arrange
+    const first = createMockConnection();
+    mockAmqp.connect.mockResolvedValueOnce(first.connection as any).mockRejectedValue(new Error('ECONNREFUSED'));
+    await connection.connect();
+    first.listeners['close']!();
+    const buffered = [
+      connection.publish('x', 'k', Buffer.from('1')),
+      connection.publish('x', 'k', Buffer.from('2'))
+    ];
+
+    // Act & Assert
+    await expect(connection.publish('x', 'k', Buffer.from('3')))
+      .rejects.toThrow('Test connection is disconnected and the publish buffer is full');
+
+    await connection.close();
+    await expect(Promise.all(buffered)).rejects.toThrow('Test connection was closed before the message could be published');
+  });
+
+  it('should reject buffered publishes that outlive the buffer timeout', async () => {
+    // Arrange
+    const first = createMockConnection();
+    mockAmqp.connect.mockResolvedValueOnce(first.connection as any).mockRejectedValue(new Error('ECONNREFUSED'));
+    await connection.connect();
+    first.listeners['close']!();
+
+    // Act
+    const pending = connection.publish('x', 'k', Buffer.from('1'));
+    const assertion = expect(pending).rejects.toThrow('Test connection did not reconnect within 10000ms');
+    await jest.advanceTimersByTimeAsync(10000);
+
+    // Assert
+    await assertion;
+    expect(connection.getBufferedCount()).toBe(0);
+    await connection.close();
+  });
+
+  it('should not reconnect after close', async () => {
+    // Arrange
+    const first = createMockConnection();
+    mockAmqp.connect.mockResolvedValue(first.connection as any);
+    await connection.connect();
+
+    // Act
+    await connection.close();
+    first.listeners['close']!();
+    await jest.advanceTimersByTimeAsync(5000);
+
+    // Assert
+    expect(mockAmqp.connect).toHaveBeenCalledTimes(1);
+    expect(first.channel.close).toHaveBeenCalled();
+    expect(first.connection.close).toHaveBeenCalled();
+  });
+
+  describe('publisher confirms', () => {
+    let mock: ReturnType<typeof createMockConnection>;
+
+    beforeEach(async () => {
+      mock = createMockConnection();
+      mockAmqp.connect.mockResolvedValue(mock.connection as any);
+      await connection.connect();
+    });
+
+    it('should resolve once the broker acks the message', async () => {
+      // Act
+      await connection.publish('x', 'k', Buffer.from('1'), { persistent: true });
+
+      // Assert
+      expect(mock.connection.createConfirmChannel).toHaveBeenCalled();
+      expect(mock.channel.publish).toHaveBeenCalledWith(
+        'x', 'k', expect.any(Buffer), { persistent: true, messageId: expect.any(String) }, expect.any(Function)
+      );
+    });
+
+    it('should reject when the broker nacks the message', async () => {
+      // Arrange
+      mock.channel.publish.mockImplementation((...args: any[]) => {
+        args[4](new Error('message nacked'));
+        return true;
+      });
+
+      // Act & Assert
+      await expect(connection.publish('x', 'k', Buffer.from('1'))).rejects.toThrow('message nacked');
+    });
+
+    it('should reject when no confirm arrives in time', async () => {
+      // Arrange
+      mock.channel.publish.mockImplementation(() => true);
+
+      // Act
+      const pending = connection.publish('x', 'k', Buffer.from('1'));
+      const assertion = expect(pending).rejects.toThrow('Test connection publish was not confirmed within 10000ms');
+      await jest.advanceTimersByTimeAsync(10000);
+
+      // Assert
+      await assertion;
+    });
+
+    it('should reject mandatory messages returned as unroutable', async () => {
+      // Arrange - basic.return is delivered before the ack
+      mock.channel.publish.mockImplementation((...args: any[]) => {
+        mock.channelListeners['return']!({
+          fields: { exchange: 'x', routingKey: 'nowhere', replyText: 'NO_ROUTE' },
+          properties: { messageId: args[3].messageId }
+        });
+        args[4](null);
+        return true;
+      });
+
+      // Act & Assert
+      await expect(connection.publish('x', 'nowhere', Buffer.from('1'), { mandatory: true }))
+        .rejects.toThrow('Message is unroutable: no queue bound to x with routing key nowhere');
+      expect(mockLogger.warn).toHaveBeenCalledWith('📭 Test connection message returned as unroutable', expect.any(Object));
+    });
+
+    it('should hold further publishes until the channel drains', async () => {
+      // Arrange - the first write fills the socket buffer
+      mock.channel.publish.mockImplementationOnce((...args: any[]) => {
+        args[4](null);
+        return false;
+      });
+      await connection.publish('x', 'k', Buffer.from('1'));
+
+      // Act
+      const second = connection.publish('x', 'k', Buffer.from('2'));
+      await Promise.resolve();
+      expect(mock.channel.publish).toHaveBeenCalledTimes(1);
+      mock.channelListeners['drain']!();
+      await second;
+
+      // Assert
+      expect(mock.channel.publish).toHaveBeenCalledTimes(2);
+      expect(mockLogger.warn).toHaveBeenCalledWith('⏳ Test connection write buffer full - waiting for drain');
+    });
+  });
+
+  it('should reject publish before the first connect', async () => {
+    await expect(connection.publish('x', 'k', Buffer.from('1'))).rejects.toThrow('Test connection is not connected');
+  });
+});
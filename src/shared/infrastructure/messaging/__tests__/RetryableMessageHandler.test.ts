@@ -2,8 +2,16 @@ import { RetryableMessageHandler } from '../RetryableMessageHandler';
 import { Logger } from '../../../application/logging/logger';
 import { RetryMechanism } from '../../retry/RetryMechanism';
 import { MessageHandler } from '../RabbitMQClient';
-import { DomainEvent } from '../../../domain/events/DomainEvent';
-import { EventId } from '../../../domain/value-objects/EventId';
+import { BaseDomainEvent, DomainEvent, DomainEventMetadata } from '../../../domain/events/DomainEvent';
+import { MessageDelivery } from '../MessageDelivery';
+import { PoisonMessageError } from '../PoisonMessageError';
+import { EventSerializer } from '../../serialization/EventSerializer';
+
+class SampleOrderCreatedEvent extends BaseDomainEvent<{ orderId: string; customerId: string }> {
+  constructor(data: { orderId: string; customerId: string }, metadata: DomainEventMetadata) {
+    super('OrderCreated', data.orderId, data, metadata.version, metadata.eventId, metadata.occurredOn);
+  }
+}
 
 // Mock dependencies
 jest.mock('../../../application/logging/logger');
@@ -14,6 +22,7 @@ describe('RetryableMessageHandler', () => {
   let mockLogger: jest.Mocked<Logger>;
   let mockRetryMechanism: jest.Mocked<RetryMechanism>;
   let mockBaseHandler: jest.Mocked<MessageHandler>;
+  let serializer: EventSerializer;
 
   beforeEach(() => {
     // Create mock logger
@@ -27,20 +36,26 @@ describe('RetryableMessageHandler', () => {
 
     // Create mock retry mechanism
     mockRetryMechanism = {
-      executeWithRetry: jest.fn()
+      handleFailure: jest.fn().mockResolvedValue('retry-scheduled')
     } as unknown as jest.Mocked<RetryMechanism>;
 
     // Create mock base handler
     mockBaseHandler = {
-      handle: jest.fn(),
+      handle: jest.fn().mockResolvedValue(undefined),
       getHandlerName: jest.fn().mockReturnValue('MockBaseHandler')
     } as jest.Mocked<MessageHandler>;
 
+    serializer = new EventSerializer().register({
+      eventType: 'OrderCreated',
+      restore: (data, metadata) => new SampleOrderCreatedEvent(data as SampleOrderCreatedEvent['data'], metadata)
+    });
+
     // Create RetryableMessageHandler instance
     retryableHandler = new RetryableMessageHandler(
       mockLogger,
       mockRetryMechanism,
-      mockBaseHandler
+      mockBaseHandler,
+      serializer
     );
   });
 
@@ -66,7 +81,8 @@ describe('RetryableMessageHandler', () => {
       const customRetryableHandler = new RetryableMessageHandler(
         mockLogger,
         mockRetryMechanism,
-        customBaseHandler
+        customBaseHandler,
+        serializer
       );
 
       // Assert
@@ -101,6 +117,7 @@ describe('RetryableMessageHandler', () => {
       eventId: '550e8400-e29b-41d4-a716-446655440000',
       aggregateId: 'order-456',
       data: {
+        orderId: 'order-456',
         customerId: 'customer-789',
         total: 100.50,
         items: [{ productId: 'product-1', quantity: 2 }]
@@ -110,9 +127,6 @@ describe('RetryableMessageHandler', () => {
     };
 
     it('should handle message successfully', async () => {
-      // Arrange
-      mockRetryMechanism.executeWithRetry.mockResolvedValue(undefined);
-
       // Act
       await retryableHandler.handle(sampleMessage);
 
@@ -125,204 +139,128 @@ describe('RetryableMessageHandler', () => {
           aggregateId: 'order-456'
         }
       );
-
-      expect(mockRetryMechanism.executeWithRetry).toHaveBeenCalledWith(
-        expect.any(Function),
-        'MessageProcessing-OrderCreated',
-        expect.objectContaining({
-          eventType: 'OrderCreated',
-          aggregateId: 'order-456'
-        })
-      );
+      expect(mockRetryMechanism.handleFailure).not.toHaveBeenCalled();
     });
 
-    it('should handle message without eventType', async () => {
+    it('should call the base handler once, without retrying in process', async () => {
       // Arrange
-      const messageWithoutType = {
-        eventId: '550e8400-e29b-41d4-a716-446655440001',
-        aggregateId: 'aggregate-456',
-        data: { some: 'data' }
-      };
-      mockRetryMechanism.executeWithRetry.mockResolvedValue(undefined);
-
-      // Act
-      await retryableHandler.handle(messageWithoutType);
-
-      // Assert
-      expect(mockRetryMechanism.executeWithRetry).toHaveBeenCalledWith(
-        expect.any(Function),
-        'MessageProcessing-Unknown',
-        expect.objectContaining({
-          eventType: 'UnknownEvent'
-        })
-      );
-    });
-
-    it('should handle message without eventId', async () => {
-      // Arrange
-      const messageWithoutId = {
-        eventType: 'SomeEvent',
-        aggregateId: 'aggregate-456',
-        data: { some: 'data' }
-      };
-      mockRetryMechanism.executeWithRetry.mockResolvedValue(undefined);
-
-      // Act
-      await retryableHandler.handle(messageWithoutId);
-
-      // Assert
-      expect(mockRetryMechanism.executeWithRetry).toHaveBeenCalledWith(
-        expect.any(Function),
-        'MessageProcessing-SomeEvent',
-        expect.objectContaining({
-          eventType: 'SomeEvent',
-          eventId: expect.any(EventId)
-        })
-      );
-    });
-
-    it('should handle message without aggregateId', async () => {
-      // Arrange
-      const messageWithoutAggregateId = {
-        eventType: 'SomeEvent',
-        eventId: '550e8400-e29b-41d4-a716-446655440002',
-        data: { some: 'data' }
-      };
-      mockRetryMechanism.executeWithRetry.mockResolvedValue(undefined);
+      mockBaseHandler.handle.mockRejectedValue(new Error('Database unavailable'));
 
       // Act
-      await retryableHandler.handle(messageWithoutAggregateId);
+      await retryableHandler.handle(sampleMessage);
 
       // Assert
-      expect(mockRetryMechanism.executeWithRetry).toHaveBeenCalledWith(
-        expect.any(Function),
-        'MessageProcessing-SomeEvent',
-        expect.objectContaining({
-          eventType: 'SomeEvent',
-          aggregateId: 'unknown'
-        })
-      );
+      expect(mockBaseHandler.handle).toHaveBeenCalledTimes(1);
     });
 
-    it('should call base handler through retry mechanism', async () => {
-      // Arrange
-      mockRetryMechanism.executeWithRetry.mockImplementation(async (fn) => {
-        await fn();
-      });
-
+    it('should pass a detached delivery when acks are not deferred', async () => {
       // Act
       await retryableHandler.handle(sampleMessage);
 
-      // Assert
+      // Assert - it still carries the batch outcome
       expect(mockBaseHandler.handle).toHaveBeenCalledWith(
         expect.objectContaining({
           eventType: 'OrderCreated',
           aggregateId: 'order-456'
-        })
+        }),
+        expect.objectContaining({ deliveryTag: 0, attempt: 1 })
       );
     });
 
     it('should log when calling base handler', async () => {
-      // Arrange
-      mockRetryMechanism.executeWithRetry.mockImplementation(async (fn) => {
-        await fn();
-      });
-
       // Act
       await retryableHandler.handle(sampleMessage);
 
       // Assert
-      expect(mockLogger.info).toHaveBeenCalledWith('🔄 RETRYABLE HANDLER: Calling base handler');
+      expect(mockLogger.info).toHaveBeenCalledWith('🔄 RETRYABLE HANDLER: Calling base handler', { attempt: 1 });
     });
 
-    it('should throw error when retry mechanism fails', async () => {
+    it('should hand a failure while handling to the retry mechanism', async () => {
       // Arrange
-      const retryError = new Error('All retry attempts failed');
-      mockRetryMechanism.executeWithRetry.mockRejectedValue(retryError);
+      const error = new Error('Database unavailable');
+      mockBaseHandler.handle.mockRejectedValue(error);
 
-      // Act & Assert
-      await expect(retryableHandler.handle(sampleMessage)).rejects.toThrow('All retry attempts failed');
+      // Act
+      await retryableHandler.handle(sampleMessage);
 
+      // Assert
+      expect(mockRetryMechanism.handleFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'OrderCreated', aggregateId: 'order-456' }),
+        error,
+        expect.objectContaining({ attempt: 1 }),
+        { source: 'RetryableMessageHandler' }
+      );
       expect(mockLogger.error).toHaveBeenCalledWith(
-        '❌ Message processing failed after all retry attempts',
+        '❌ Message processing failed',
         expect.objectContaining({
           eventType: 'OrderCreated',
           eventId: '550e8400-e29b-41d4-a716-446655440000',
-          error: 'All retry attempts failed'
+          error: 'Database unavailable'
         })
       );
     });
 
     it('should handle non-Error objects in failure', async () => {
       // Arrange
-      mockRetryMechanism.executeWithRetry.mockRejectedValue('String error');
+      mockBaseHandler.handle.mockRejectedValue('String error');
 
-      // Act & Assert
-      await expect(retryableHandler.handle(sampleMessage)).rejects.toBe('String error');
+      // Act
+      await retryableHandler.handle(sampleMessage);
 
-      expect(mockLogger.error).toHaveBeenCalledWith(
-        '❌ Message processing failed after all retry attempts',
-        expect.objectContaining({
-          error: 'Unknown error'
-        })
+      // Assert
+      expect(mockRetryMechanism.handleFailure).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ message: 'String error' }),
+        expect.objectContaining({ attempt: 1 }),
+        expect.any(Object)
       );
     });
   });
 
-  describe('convertToDomainEvent', () => {
-    it('should convert message with all fields to domain event', async () => {
-      // Arrange
-      const completeMessage = {
-        eventType: 'OrderCreated',
-        eventId: '550e8400-e29b-41d4-a716-446655440003',
-        aggregateId: 'order-456',
-        data: { customerId: 'customer-789' },
-        version: 2,
-        occurredOn: '2023-01-01T12:00:00Z'
-      };
-
-      let convertedEvent: DomainEvent | undefined;
-      mockRetryMechanism.executeWithRetry.mockImplementation(async (fn, operationName, event) => {
-        convertedEvent = event;
-        await fn();
-      });
+  describe('deserialization', () => {
+    const completeMessage = {
+      eventType: 'OrderCreated',
+      eventId: '550e8400-e29b-41d4-a716-446655440003',
+      aggregateId: 'order-456',
+      data: { orderId: 'order-456', customerId: 'customer-789' },
+      version: 2,
+      occurredOn: '2023-01-01T12:00:00Z'
+    };
 
+    it('should rebuild the message as an instance of its event class', async () => {
       // Act
       await retryableHandler.handle(completeMessage);
 
       // Assert
+      const convertedEvent: DomainEvent = mockBaseHandler.handle.mock.calls[0]![0];
+      expect(convertedEvent).toBeInstanceOf(SampleOrderCreatedEvent);
       expect(convertedEvent).toMatchObject({
         eventType: 'OrderCreated',
         aggregateId: 'order-456',
-        version: 2
+        version: 2,
+        data: { orderId: 'order-456', customerId: 'customer-789' }
       });
-      expect(convertedEvent!.eventId).toBeInstanceOf(EventId);
-      expect(convertedEvent!.occurredOn).toBeInstanceOf(Date);
+      expect(convertedEvent.eventId.value).toBe('550e8400-e29b-41d4-a716-446655440003');
+      expect(convertedEvent.occurredOn).toEqual(new Date('2023-01-01T12:00:00Z'));
     });
 
-    it('should set default values for missing fields', async () => {
-      // Arrange
-      const incompleteMessage = {
-        eventType: 'IncompleteEvent'
-      };
-
-      let convertedEvent: DomainEvent | undefined;
-      mockRetryMechanism.executeWithRetry.mockImplementation(async (fn, operationName, event) => {
-        convertedEvent = event;
-        await fn();
-      });
-
+    it.each([
+      ['without data', { data: undefined }, 'data must be an object'],
+      ['without a version', { version: undefined }, 'version must be a positive integer'],
+      ['of an unregistered type', { eventType: 'IncompleteEvent' }, 'event type IncompleteEvent is not registered']
+    ])('should reject a message %s as poison', async (_case, override, problem) => {
       // Act
-      await retryableHandler.handle(incompleteMessage);
+      await retryableHandler.handle({ ...completeMessage, ...override });
 
       // Assert
-      expect(convertedEvent).toMatchObject({
-        eventType: 'IncompleteEvent',
-        aggregateId: 'unknown',
-        version: 1
-      });
-      expect(convertedEvent!.eventId).toBeInstanceOf(EventId);
-      expect(convertedEvent!.occurredOn).toBeInstanceOf(Date);
+      expect(mockBaseHandler.handle).not.toHaveBeenCalled();
+      expect(mockRetryMechanism.handleFailure).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ message: `Malformed message: ${problem}` }),
+        expect.objectContaining({ attempt: 1 }),
+        { source: 'RetryableMessageHandler' }
+      );
+      expect(mockRetryMechanism.handleFailure.mock.calls[0]![1]).toBeInstanceOf(PoisonMessageError);
     });
   });
 
@@ -339,4 +277,129 @@ describe('RetryableMessageHandler', () => {
       expect(retryableHandler).toHaveProperty('getHandlerName');
     });
   });
-}); 
\ No newline at end of file
+  describe('failure outcomes', () => {
+    const message = {
+      eventId: '550e8400-e29b-41d4-a716-446655440000',
+      eventType: 'OrderCreated',
+      aggregateId: 'order-456',
+      occurredOn: '2023-01-01T12:00:00Z',
+      version: 1,
+      data: { orderId: 'order-456', customerId: 'customer-789' }
+    };
+    let delivery: jest.Mocked<MessageDelivery>;
+
+    beforeEach(() => {
+      delivery = {
+        deliveryTag: 3,
+        attempt: 2,
+        ack: jest.fn().mockResolvedValue(undefined),
+        reject: jest.fn().mockResolvedValue(undefined),
+        requeue: jest.fn().mockResolvedValue(undefined)
+      };
+    });
+
+    const reportedDelivery = (): MessageDelivery => mockBaseHandler.handle.mock.calls[0]![1]!;
+
+    it('should schedule a retry for a retryable batch failure and settle the message', async () => {
+      // Arrange
+      await retryableHandler.handle(message, delivery);
+      const error = new Error('Database timeout');
+
+      // Act
+      await reportedDelivery().reject(error, true);
+
+      // Assert
+      expect(mockRetryMechanism.handleFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'OrderCreated' }),
+        error,
+        expect.objectContaining({ attempt: 2 }),
+        { source: 'BatchProcessor' }
+      );
+      expect(delivery.reject).toHaveBeenCalledWith(error, true);
+    });
+
+    it('should report permanent batch failures as not retryable', async () => {
+      // Arrange
+      mockRetryMechanism.handleFailure.mockResolvedValue('dead-lettered');
+      await retryableHandler.handle(message, delivery);
+      const error = new Error('No strategy found for event type: OrderCreated');
+
+      // Act
+      await reportedDelivery().reject(error, false);
+
+      // Assert
+      expect(mockRetryMechanism.handleFailure).toHaveBeenCalledWith(
+        expect.anything(), error, expect.objectContaining({ attempt: 2 }), { canRetry: false, source: 'BatchProcessor' }
+      );
+      expect(delivery.reject).toHaveBeenCalledWith(error, false);
+    });
+
+    it('should dead-letter malformed messages as poison without calling the base handler', async () => {
+      // Act
+      await retryableHandler.handle({ eventId: 'not-a-uuid', eventType: 'OrderCreated' }, delivery);
+
+      // Assert
+      expect(mockBaseHandler.handle).not.toHaveBeenCalled();
+      expect(mockRetryMechanism.handleFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'OrderCreated', data: { eventId: 'not-a-uuid', eventType: 'OrderCreated' } }),
+        expect.any(PoisonMessageError),
+        expect.objectContaining({ attempt: 2 }),
+        { source: 'RetryableMessageHandler' }
+      );
+    });
+
+    it('should treat messages that are not objects as poison', async () => {
+      // Act
+      await retryableHandler.handle('garbage', delivery);
+
+      // Assert
+      expect(mockRetryMechanism.handleFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ eventType: 'UnknownEvent', data: { payload: 'garbage' } }),
+        expect.objectContaining({ message: 'Malformed message: message is not an event object' }),
+        expect.objectContaining({ attempt: 2 }),
+        expect.any(Object)
+      );
+    });
+
+    it('should requeue when neither a retry nor the DLQ took the event', async () => {
+      // Arrange
+      mockRetryMechanism.handleFailure.mockResolvedValue('unhandled');
+      await retryableHandler.handle(message, delivery);
+
+      // Act
+      await reportedDelivery().reject(new Error('Invalid order'), false);
+
+      // Assert
+      expect(delivery.requeue).toHaveBeenCalled();
+      expect(delivery.reject).not.toHaveBeenCalled();
+    });
+
+    it('should report batch failures of messages acked on receipt too', async () => {
+      // Arrange
+      await retryableHandler.handle(message);
+      const error = new Error('Invalid order');
+
+      // Act
+      await reportedDelivery().reject(error, false);
+
+      // Assert
+      expect(mockRetryMechanism.handleFailure).toHaveBeenCalledWith(
+        expect.anything(), error, expect.objectContaining({ attempt: 1 }), { canRetry: false, source: 'BatchProcessor' }
+      );
+    });
+
+    it('should pass acks and requeues straight through', async () => {
+      // Arrange
+      await retryableHandler.handle(message, delivery);
+
+      // Act
+      await reportedDelivery().ack();
+      await reportedDelivery().requeue();
+
+      // Assert
+      expect(delivery.ack).toHaveBeenCalled();
+      expect(delivery.requeue).toHaveBeenCalled();
+      expect(mockRetryMechanism.handleFailure).not.toHaveBeenCalled();
+    });
+  });
+});
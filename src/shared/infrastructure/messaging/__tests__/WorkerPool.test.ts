@@ -0,0 +1,74 @@
+import { WorkerPool } from '../WorkerPool';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+describe('WorkerPool', () => {
+  it('should reject a concurrency lower than 1', () => {
+    expect(() => new WorkerPool(0)).toThrow('Worker pool concurrency must be greater than 0');
+  });
+
+  it('should never run more tasks than the concurrency limit', async () => {
+    // Arrange
+    const pool = new WorkerPool(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    // Act
+    const runs = gates.map((gate, i) => pool.run(async () => {
+      started.push(i);
+      await gate.promise;
+      return i;
+    }));
+    await Promise.resolve();
+
+    // Assert
+    expect(started).toEqual([0, 1]);
+    expect(pool.getActiveCount()).toBe(2);
+    expect(pool.getQueuedCount()).toBe(1);
+
+    gates[0]!.resolve();
+    await runs[0];
+    await Promise.resolve();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1]!.resolve();
+    gates[2]!.resolve();
+    await expect(Promise.all(runs)).resolves.toEqual([0, 1, 2]);
+    expect(pool.getActiveCount()).toBe(0);
+  });
+
+  it('should free the slot when a task fails', async () => {
+    // Arrange
+    const pool = new WorkerPool(1);
+
+    // Act
+    await expect(pool.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+
+    // Assert
+    await expect(pool.run(async () => 'next')).resolves.toBe('next');
+    expect(pool.getActiveCount()).toBe(0);
+  });
+
+  it('should resolve whenIdle once every task has finished', async () => {
+    // Arrange
+    const pool = new WorkerPool(1);
+    const gate = deferred();
+    const run = pool.run(() => gate.promise);
+    let idle = false;
+
+    // Act
+    const whenIdle = pool.whenIdle().then(() => { idle = true; });
+    await Promise.resolve();
+    expect(idle).toBe(false);
+    gate.resolve();
+    await run;
+    await whenIdle;
+
+    // Assert
+    expect(idle).toBe(true);
+  });
+});
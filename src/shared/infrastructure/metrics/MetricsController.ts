@@ -0,0 +1,21 @@
+import { HttpServer } from '../http/HttpServer';
+import { MetricsRegistry } from './MetricsRegistry';
+
+/**
+ * Exposes the registry for Prometheus to scrape
+ */
+export class MetricsController {
+  private readonly registry: MetricsRegistry;
+
+  constructor(registry: MetricsRegistry) {
+    this.registry = registry;
+  }
+
+  register(server: HttpServer): void {
+    server.route('GET', '/metrics', () => ({
+      status: 200,
+      body: this.registry.render(),
+      headers: { 'Content-Type': MetricsRegistry.CONTENT_TYPE }
+    }));
+  }
+}
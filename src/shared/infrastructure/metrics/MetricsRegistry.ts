@@ -0,0 +1,214 @@
+export type Labels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/** Bucket upper bounds for durations in seconds */
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  readonly labelNames: string[];
+  abstract readonly type: MetricType;
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    this.name = name;
+    this.help = help;
+    this.labelNames = labelNames;
+  }
+
+  /** Sample lines in the Prometheus text format */
+  abstract collect(): string[];
+
+  protected key(labels: Labels): string {
+    return this.labelNames.map(name => labels[name] ?? '').join('\u0000');
+  }
+
+  protected labelsOf(key: string): Labels {
+    const values = key.split('\u0000');
+    return Object.fromEntries(this.labelNames.map((name, i) => [name, values[i] ?? '']));
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private readonly values: Map<string, number> = new Map();
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot decrease`);
+    }
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(this.key(labels)) ?? 0;
+  }
+
+  collect(): string[] {
+    return Array.from(this.values.entries())
+      .map(([key, value]) => sample(this.name, this.labelsOf(key), value));
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private readonly values: Map<string, number> = new Map();
+  private readonly collector?: () => number;
+
+  /**
+   * @param collector reads the value at scrape time instead of it being set
+   */
+  constructor(name: string, help: string, labelNames: string[], collector?: () => number) {
+    super(name, help, labelNames);
+    this.collector = collector;
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + value);
+  }
+
+  dec(labels: Labels = {}, value: number = 1): void {
+    this.inc(labels, -value);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.collector ? this.collector() : this.values.get(this.key(labels)) ?? 0;
+  }
+
+  collect(): string[] {
+    if (this.collector) {
+      return [sample(this.name, {}, this.collector())];
+    }
+    return Array.from(this.values.entries())
+      .map(([key, value]) => sample(this.name, this.labelsOf(key), value));
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private readonly buckets: number[];
+  private readonly series: Map<string, { counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[] = DEFAULT_DURATION_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series!.counts[i]!++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.series.get(this.key(labels))?.count ?? 0;
+  }
+
+  collect(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      const labels = this.labelsOf(key);
+      this.buckets.forEach((bound, i) => {
+        lines.push(sample(`${this.name}_bucket`, { ...labels, le: String(bound) }, series.counts[i] ?? 0));
+      });
+      lines.push(sample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, series.count));
+      lines.push(sample(`${this.name}_sum`, labels, series.sum));
+      lines.push(sample(`${this.name}_count`, labels, series.count));
+    }
+    return lines;
+  }
+}
+
+/**
+ * Metrics Registry
+ *
+ * Holds the application's metrics and renders them in the Prometheus text
+ * exposition format (version 0.0.4) for scraping.
+ */
+export class MetricsRegistry {
+  static readonly CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private readonly metrics: Map<string, Metric> = new Map();
+  private readonly prefix: string;
+
+  /**
+   * @param prefix prepended to every metric name, e.g. "event_processor_"
+   */
+  constructor(prefix: string = '') {
+    this.prefix = prefix;
+  }
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(this.prefix + name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = [], collector?: () => number): Gauge {
+    return this.register(new Gauge(this.prefix + name, help, labelNames, collector));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(this.prefix + name, help, labelNames, buckets));
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${escapeHelp(metric.help)}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.collect());
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function sample(name: string, labels: Labels, value: number): string {
+  const entries = Object.entries(labels);
+  const labelText = entries.length > 0
+    ? `{${entries.map(([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`).join(',')}}`
+    : '';
+  return `${name}${labelText} ${formatValue(value)}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,58 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from './MetricsRegistry';
+
+/**
+ * Pipeline Metrics
+ *
+ * The metrics of the event pipeline, from the broker to the strategies and
+ * on to retries and the DLQ. Components take it as an optional dependency
+ * and record what they see; /metrics renders the registry behind it.
+ */
+export class PipelineMetrics {
+  readonly registry: MetricsRegistry;
+
+  /** Messages delivered by the broker */
+  readonly messagesReceived: Counter;
+  readonly messagesAcked: Counter;
+  /** Messages rejected (requeue="false") or handed back (requeue="true") */
+  readonly messagesNacked: Counter;
+  /** Redeliveries of events already processed, skipped by their eventId */
+  readonly duplicatesSkipped: Counter;
+  readonly batchSize: Histogram;
+  readonly batchDuration: Histogram;
+  readonly strategyDuration: Histogram;
+  readonly eventsProcessed: Counter;
+  readonly retriesScheduled: Counter;
+  readonly eventsParked: Counter;
+  readonly deadLettered: Counter;
+  readonly deadLetterFailures: Counter;
+  readonly observerFailures: Counter;
+
+  constructor(registry: MetricsRegistry = new MetricsRegistry('event_processor_')) {
+    this.registry = registry;
+
+    this.messagesReceived = registry.counter('messages_received_total', 'Messages received from the broker', ['queue']);
+    this.messagesAcked = registry.counter('messages_acked_total', 'Messages acknowledged to the broker', ['queue']);
+    this.messagesNacked = registry.counter('messages_nacked_total', 'Messages negatively acknowledged to the broker', ['queue', 'requeue']);
+    this.duplicatesSkipped = registry.counter('duplicates_skipped_total', 'Duplicate events skipped by their eventId', ['event_type']);
+    this.batchSize = registry.histogram('batch_size', 'Events per processed batch', [], [1, 2, 5, 10, 25, 50, 100, 250, 500]);
+    this.batchDuration = registry.histogram('batch_duration_seconds', 'Time to process a batch', []);
+    this.strategyDuration = registry.histogram(
+      'strategy_duration_seconds',
+      'Time a strategy took to process an event',
+      ['strategy', 'event_type', 'outcome']
+    );
+    this.eventsProcessed = registry.counter('events_processed_total', 'Events processed by the batch processor', ['event_type', 'outcome']);
+    this.retriesScheduled = registry.counter('retries_scheduled_total', 'Retries scheduled for failed events', ['event_type']);
+    this.eventsParked = registry.counter('events_parked_total', 'Events parked while their circuit was open', ['event_type', 'circuit']);
+    this.deadLettered = registry.counter('dlq_sends_total', 'Events sent to the dead letter queue', ['event_type', 'error_class']);
+    this.deadLetterFailures = registry.counter('dlq_send_failures_total', 'Events that could not be sent to the dead letter queue', ['event_type']);
+    this.observerFailures = registry.counter('observer_failures_total', 'Observers that failed to handle an event', ['observer', 'event_type']);
+  }
+
+  /**
+   * Gauge read at scrape time, e.g. the events waiting in the current batch
+   */
+  gauge(name: string, help: string, collector: () => number): Gauge {
+    return this.registry.gauge(name, help, [], collector);
+  }
+}
@@ -0,0 +1,118 @@
+import { MetricsRegistry } from '../MetricsRegistry';
+import { MetricsController } from '../MetricsController';
+import { HttpServer } from '../../http/HttpServer';
+import { Logger } from '../../../application/logging/logger';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry('app_');
+  });
+
+  it('should render counters per label set', () => {
+    // Arrange
+    const counter = registry.counter('messages_total', 'Messages seen', ['queue']);
+
+    // Act
+    counter.inc({ queue: 'orders' });
+    counter.inc({ queue: 'orders' }, 2);
+    counter.inc({ queue: 'payments' });
+
+    // Assert
+    expect(registry.render()).toBe([
+      '# HELP app_messages_total Messages seen',
+      '# TYPE app_messages_total counter',
+      'app_messages_total{queue="orders"} 3',
+      'app_messages_total{queue="payments"} 1',
+      ''
+    ].join('\n'));
+  });
+
+  it('should not let counters decrease', () => {
+    const counter = registry.counter('messages_total', 'Messages seen');
+    expect(() => counter.inc({}, -1)).toThrow('Counter app_messages_total cannot decrease');
+  });
+
+  it('should render cumulative histogram buckets with sum and count', () => {
+    // Arrange
+    const histogram = registry.histogram('batch_size', 'Events per batch', [], [1, 5, 10]);
+
+    // Act
+    histogram.observe(1);
+    histogram.observe(4);
+    histogram.observe(20);
+
+    // Assert
+    const output = registry.render();
+    expect(output).toContain('# TYPE app_batch_size histogram');
+    expect(output).toContain('app_batch_size_bucket{le="1"} 1');
+    expect(output).toContain('app_batch_size_bucket{le="5"} 2');
+    expect(output).toContain('app_batch_size_bucket{le="10"} 2');
+    expect(output).toContain('app_batch_size_bucket{le="+Inf"} 3');
+    expect(output).toContain('app_batch_size_sum 25');
+    expect(output).toContain('app_batch_size_count 3');
+  });
+
+  it('should read collected gauges at render time', () => {
+    // Arrange
+    let pending = 2;
+    registry.gauge('pending_events', 'Pending events', [], () => pending);
+
+    // Act
+    pending = 7;
+
+    // Assert
+    expect(registry.render()).toContain('app_pending_events 7');
+  });
+
+  it('should escape label values', () => {
+    // Arrange
+    const counter = registry.counter('errors_total', 'Errors', ['message']);
+
+    // Act
+    counter.inc({ message: 'bad "quote"\\path\nline' });
+
+    // Assert
+    expect(registry.render()).toContain('app_errors_total{message="bad \\"quote\\"\\\\path\\nline"} 1');
+  });
+
+  it('should refuse to register a metric twice', () => {
+    registry.counter('messages_total', 'Messages seen');
+    expect(() => registry.gauge('messages_total', 'Messages seen')).toThrow('Metric app_messages_total is already registered');
+  });
+});
+
+describe('MetricsController', () => {
+  let server: HttpServer;
+
+  beforeEach(() => {
+    const mockLogger: jest.Mocked<Logger> = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    server = new HttpServer(mockLogger, 0);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should serve the registry in the Prometheus text format', async () => {
+    // Arrange
+    const registry = new MetricsRegistry();
+    registry.counter('messages_received_total', 'Messages received').inc();
+    new MetricsController(registry).register(server);
+    await server.start();
+
+    // Act
+    const response = await fetch(`http://127.0.0.1:${server.getPort()}/metrics`);
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe(MetricsRegistry.CONTENT_TYPE);
+    expect(await response.text()).toContain('messages_received_total 1');
+  });
+});
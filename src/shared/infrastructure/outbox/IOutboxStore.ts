@@ -0,0 +1,37 @@
+import { Transaction } from 'sequelize';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+/**
+ * An event waiting in the outbox to be published
+ */
+export interface OutboxMessage {
+  /** Position in the outbox; events of an aggregate are published in this order */
+  id: number;
+  event: DomainEvent;
+  attempts: number;
+}
+
+/**
+ * Transactional outbox: events are stored in the same transaction as the
+ * state change that raised them, and published afterwards by the relay.
+ */
+export interface IOutboxStore {
+  /**
+   * Stores the events within the caller's transaction, so they exist only
+   * if the state change that raised them is committed
+   */
+  add(events: readonly DomainEvent[], transaction: Transaction): Promise<void>;
+
+  /**
+   * Runs the work with the oldest pending messages while holding the relay
+   * lock, so a single relay publishes at a time across instances
+   * @returns false when another relay holds the lock and nothing was done
+   */
+  withPending(limit: number, work: (messages: OutboxMessage[]) => Promise<void>): Promise<boolean>;
+
+  markSent(id: number): Promise<void>;
+
+  markFailed(id: number, error: Error): Promise<void>;
+
+  countPending(): Promise<number>;
+}
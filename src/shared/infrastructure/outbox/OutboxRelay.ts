@@ -0,0 +1,150 @@
+import { Logger } from '../../application/logging/logger';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { IOutboxStore, OutboxMessage } from './IOutboxStore';
+
+export interface OutboxConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+/**
+ * Where the relay hands outbox events to, e.g. the order event publisher
+ */
+export interface OutboxPublisher {
+  publish(event: DomainEvent): Promise<void>;
+}
+
+/**
+ * Outbox Relay
+ *
+ * Polls the outbox and publishes pending events in the order they were
+ * stored, marking each one sent once the broker confirmed it. Delivery is
+ * at-least-once: an event published just before a crash is published again.
+ *
+ * Events of an aggregate keep their order: when one fails, the aggregate's
+ * later events wait for the next poll instead of overtaking it. Other
+ * aggregates are not held up.
+ */
+export class OutboxRelay {
+  private readonly logger: Logger;
+  private readonly store: IOutboxStore;
+  private readonly publisher: OutboxPublisher;
+  private readonly config: OutboxConfig;
+  private timer: NodeJS.Timeout | null = null;
+  private running: boolean = false;
+  private currentRun: Promise<void> | null = null;
+
+  constructor(logger: Logger, store: IOutboxStore, publisher: OutboxPublisher, config: OutboxConfig) {
+    this.logger = logger;
+    this.store = store;
+    this.publisher = publisher;
+    this.config = config;
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.schedule(0);
+    this.logger.info('📤 Outbox relay started', {
+      pollIntervalMs: this.config.pollIntervalMs,
+      batchSize: this.config.batchSize
+    });
+  }
+
+  /**
+   * Stops polling and waits for the current run to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.currentRun;
+    this.logger.info('Outbox relay stopped');
+  }
+
+  /**
+   * Publishes one batch of pending events
+   * @returns number of events published
+   */
+  async relayPending(): Promise<number> {
+    let published = 0;
+
+    const acquired = await this.store.withPending(this.config.batchSize, async messages => {
+      const blockedAggregates = new Set<string>();
+
+      for (const message of messages) {
+        if (blockedAggregates.has(message.event.aggregateId)) {
+          continue;
+        }
+
+        if (await this.relay(message)) {
+          published++;
+        } else {
+          blockedAggregates.add(message.event.aggregateId);
+        }
+      }
+    });
+
+    if (!acquired) {
+      this.logger.debug('Outbox relay lock held by another instance - skipping');
+    } else if (published > 0) {
+      this.logger.info(`📤 Relayed ${published} outbox events`);
+    }
+    return published;
+  }
+
+  private async relay(message: OutboxMessage): Promise<boolean> {
+    const { event } = message;
+    try {
+      await this.publisher.publish(event);
+    } catch (caught) {
+      const error = caught instanceof Error ? caught : new Error(String(caught));
+      this.logger.error('❌ Failed to relay outbox event - will retry', {
+        eventType: event.eventType,
+        eventId: event.eventId.value,
+        aggregateId: event.aggregateId,
+        attempts: message.attempts + 1,
+        error: error.message
+      });
+      await this.store.markFailed(message.id, error);
+      return false;
+    }
+
+    await this.store.markSent(message.id);
+    return true;
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.currentRun = this.poll().then(batchFull => {
+        this.currentRun = null;
+        // A full batch likely means more is waiting, so poll again right away
+        this.schedule(batchFull ? 0 : this.config.pollIntervalMs);
+      });
+    }, delayMs);
+  }
+
+  /**
+   * @returns whether the batch was full
+   */
+  private async poll(): Promise<boolean> {
+    try {
+      return await this.relayPending() >= this.config.batchSize;
+    } catch (error) {
+      this.logger.error('❌ Outbox relay poll failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+}
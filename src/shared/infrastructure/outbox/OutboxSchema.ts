@@ -0,0 +1,56 @@
+import { DataTypes, Model, Sequelize } from 'sequelize';
+
+export interface OutboxRecordAttributes {
+  id?: number;
+  eventId: string;
+  eventType: string;
+  aggregateId: string;
+  eventData: Record<string, any>;
+  eventVersion: number;
+  occurredOn: Date;
+  attempts?: number;
+  lastError?: string | null;
+  sentAt?: Date | null;
+  createdAt?: Date;
+}
+
+/**
+ * Row in the `outbox` table created by docker/init-db.sql
+ */
+export class OutboxRecord extends Model<OutboxRecordAttributes> {
+  declare id: number;
+  declare eventId: string;
+  declare eventType: string;
+  declare aggregateId: string;
+  declare eventData: Record<string, any>;
+  declare eventVersion: number;
+  declare occurredOn: Date;
+  declare attempts: number;
+  declare lastError: string | null;
+  declare sentAt: Date | null;
+  declare createdAt: Date;
+}
+
+export function defineOutboxSchema(sequelize: Sequelize): void {
+  OutboxRecord.init(
+    {
+      id: { type: DataTypes.BIGINT, primaryKey: true, autoIncrement: true },
+      eventId: { type: DataTypes.UUID, allowNull: false, unique: true },
+      eventType: { type: DataTypes.STRING, allowNull: false },
+      aggregateId: { type: DataTypes.STRING, allowNull: false },
+      eventData: { type: DataTypes.JSONB, allowNull: false },
+      eventVersion: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 1 },
+      occurredOn: { type: DataTypes.DATE, allowNull: false },
+      attempts: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 0 },
+      lastError: { type: DataTypes.TEXT, allowNull: true },
+      sentAt: { type: DataTypes.DATE, allowNull: true }
+    },
+    {
+      sequelize,
+      tableName: 'outbox',
+      underscored: true,
+      timestamps: true,
+      updatedAt: false
+    }
+  );
+}
@@ -0,0 +1,96 @@
+import { QueryTypes, Transaction } from 'sequelize';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { EventId } from '../../domain/value-objects/EventId';
+import { Database } from '../database/Database';
+import { IOutboxStore, OutboxMessage } from './IOutboxStore';
+import { OutboxRecord, defineOutboxSchema } from './OutboxSchema';
+
+/** Key of the advisory lock held by the active relay */
+export const OUTBOX_RELAY_LOCK_KEY = 7360001;
+
+/**
+ * PostgreSQL Outbox
+ *
+ * Keeps events in the `outbox` table until the relay has published them.
+ * Sent rows are kept (with sent_at) as a record of what left the service.
+ */
+export class PostgresOutboxStore implements IOutboxStore {
+  private readonly database: Database;
+
+  constructor(database: Database) {
+    this.database = database;
+    defineOutboxSchema(database.getSequelize());
+  }
+
+  async add(events: readonly DomainEvent[], transaction: Transaction): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    await OutboxRecord.bulkCreate(
+      events.map(event => ({
+        eventId: event.eventId.value,
+        eventType: event.eventType,
+        aggregateId: event.aggregateId,
+        eventData: event.data,
+        eventVersion: event.version,
+        occurredOn: event.occurredOn
+      })),
+      { transaction }
+    );
+  }
+
+  /**
+   * The lock is a transaction-scoped advisory lock, released when the
+   * transaction ends, even if the relay dies half-way
+   */
+  async withPending(limit: number, work: (messages: OutboxMessage[]) => Promise<void>): Promise<boolean> {
+    return this.database.transaction(async transaction => {
+      const [lock] = await this.database.getSequelize().query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_xact_lock(:key) AS locked',
+        { replacements: { key: OUTBOX_RELAY_LOCK_KEY }, type: QueryTypes.SELECT, transaction }
+      );
+      if (!lock?.locked) {
+        return false;
+      }
+
+      const records = await OutboxRecord.findAll({
+        where: { sentAt: null },
+        order: [['id', 'ASC']],
+        limit,
+        transaction
+      });
+      await work(records.map(record => this.toMessage(record)));
+      return true;
+    });
+  }
+
+  async markSent(id: number): Promise<void> {
+    await OutboxRecord.update({ sentAt: new Date(), lastError: null }, { where: { id } });
+  }
+
+  async markFailed(id: number, error: Error): Promise<void> {
+    await OutboxRecord.increment('attempts', { where: { id } });
+    await OutboxRecord.update({ lastError: error.message }, { where: { id } });
+  }
+
+  async countPending(): Promise<number> {
+    return OutboxRecord.count({ where: { sentAt: null } });
+  }
+
+  private toMessage(record: OutboxRecord): OutboxMessage {
+    return {
+      // BIGINT columns are returned as strings by pg
+      id: Number(record.id),
+      attempts: record.attempts,
+      event: {
+        eventId: new EventId(record.eventId),
+        eventType: record.eventType,
+        aggregateId: record.aggregateId,
+        occurredOn: new Date(record.occurredOn),
+        version: record.eventVersion,
+        data: record.eventData
+      }
+    };
+  }
+}
@@ -0,0 +1,168 @@
+import { OutboxRelay, OutboxPublisher } from '../OutboxRelay';
+import { IOutboxStore, OutboxMessage } from '../IOutboxStore';
+import { Logger } from '../../../application/logging/logger';
+import { EventId } from '../../../domain/value-objects/EventId';
+
+describe('OutboxRelay', () => {
+  let relay: OutboxRelay;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockStore: jest.Mocked<IOutboxStore>;
+  let mockPublisher: jest.Mocked<OutboxPublisher>;
+  let pending: OutboxMessage[];
+
+  const createMessage = (id: number, aggregateId: string = 'order-1'): OutboxMessage => ({
+    id,
+    attempts: 0,
+    event: {
+      eventId: new EventId(),
+      eventType: 'OrderCreated',
+      aggregateId,
+      data: {},
+      version: 1,
+      occurredOn: new Date()
+    }
+  });
+
+  beforeEach(() => {
+    pending = [];
+
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    mockStore = {
+      add: jest.fn(),
+      withPending: jest.fn().mockImplementation(async (limit: number, work: (messages: OutboxMessage[]) => Promise<void>) => {
+        await work(pending.slice(0, limit));
+        return true;
+      }),
+      markSent: jest.fn().mockResolvedValue(undefined),
+      markFailed: jest.fn().mockResolvedValue(undefined),
+      countPending: jest.fn().mockResolvedValue(0)
+    };
+
+    mockPublisher = {
+      publish: jest.fn().mockResolvedValue(undefined)
+    };
+
+    relay = new OutboxRelay(mockLogger, mockStore, mockPublisher, { pollIntervalMs: 1000, batchSize: 10 });
+  });
+
+  describe('relayPending', () => {
+    it('should publish pending events in order and mark them sent', async () => {
+      // Arrange
+      pending = [createMessage(1), createMessage(2, 'order-2')];
+
+      // Act
+      const published = await relay.relayPending();
+
+      // Assert
+      expect(published).toBe(2);
+      expect(mockPublisher.publish.mock.calls.map(([event]) => event)).toEqual(pending.map(m => m.event));
+      expect(mockStore.markSent).toHaveBeenCalledWith(1);
+      expect(mockStore.markSent).toHaveBeenCalledWith(2);
+      expect(mockStore.withPending).toHaveBeenCalledWith(10, expect.any(Function));
+    });
+
+    it('should mark a failed event and hold back later events of the same aggregate', async () => {
+      // Arrange
+      const failing = createMessage(1, 'order-1');
+      const later = createMessage(2, 'order-1');
+      const other = createMessage(3, 'order-2');
+      pending = [failing, later, other];
+      mockPublisher.publish.mockRejectedValueOnce(new Error('Broker unavailable'));
+
+      // Act
+      const published = await relay.relayPending();
+
+      // Assert
+      expect(published).toBe(1);
+      expect(mockStore.markFailed).toHaveBeenCalledWith(1, expect.objectContaining({ message: 'Broker unavailable' }));
+      expect(mockPublisher.publish).not.toHaveBeenCalledWith(later.event);
+      expect(mockPublisher.publish).toHaveBeenCalledWith(other.event);
+      expect(mockStore.markSent).toHaveBeenCalledTimes(1);
+      expect(mockStore.markSent).toHaveBeenCalledWith(3);
+    });
+
+    it('should skip the round when another instance holds the relay lock', async () => {
+      // Arrange
+      pending = [createMessage(1)];
+      mockStore.withPending.mockResolvedValue(false);
+
+      // Act
+      const published = await relay.relayPending();
+
+      // Assert
+      expect(published).toBe(0);
+      expect(mockPublisher.publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('polling', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(async () => {
+      await relay.stop();
+      jest.useRealTimers();
+    });
+
+    it('should poll right away and then every poll interval', async () => {
+      // Act
+      relay.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      // Assert
+      expect(mockStore.withPending).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockStore.withPending).toHaveBeenCalledTimes(2);
+    });
+
+    it('should poll again right away when the batch was full', async () => {
+      // Arrange
+      relay = new OutboxRelay(mockLogger, mockStore, mockPublisher, { pollIntervalMs: 1000, batchSize: 1 });
+      pending = [createMessage(1)];
+      mockStore.markSent.mockImplementation(async () => {
+        pending = [];
+      });
+
+      // Act
+      relay.start();
+      await jest.advanceTimersByTimeAsync(500);
+
+      // Assert
+      expect(mockStore.withPending).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep polling after a failed poll', async () => {
+      // Arrange
+      mockStore.withPending.mockRejectedValueOnce(new Error('Connection terminated'));
+
+      // Act
+      relay.start();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      // Assert
+      expect(mockLogger.error).toHaveBeenCalledWith('❌ Outbox relay poll failed', { error: 'Connection terminated' });
+      expect(mockStore.withPending).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop polling once stopped', async () => {
+      // Arrange
+      relay.start();
+      await jest.advanceTimersByTimeAsync(0);
+
+      // Act
+      await relay.stop();
+      await jest.advanceTimersByTimeAsync(5000);
+
+      // Assert
+      expect(mockStore.withPending).toHaveBeenCalledTimes(1);
+    });
+  });
+});
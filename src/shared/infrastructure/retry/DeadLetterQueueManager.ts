@@ -0,0 +1,333 @@
+import * as amqp from 'amqplib';
+import { v4 as uuidv4 } from 'uuid';
+import { Logger } from '../../application/logging/logger';
+import { RabbitMQConfig } from '../messaging/RabbitMQClient';
+import { MessagingTopology } from '../messaging/MessagingTopology';
+import { DeadLetterMessage, DeadLetterQueueConfig } from './DeadLetterQueueService';
+import { IDeadLetterRepository } from './IDeadLetterRepository';
+
+export interface DeadLetterFilter {
+  eventType?: string;
+  /** Case-insensitive substring of the failure error message */
+  errorContains?: string;
+  failedAfter?: Date;
+  failedBefore?: Date;
+  limit?: number;
+}
+
+export interface DeadLetterEntry extends DeadLetterMessage {
+  /** Headers the message was dead-lettered with */
+  headers: Record<string, any>;
+}
+
+type Disposition = 'keep' | 'remove';
+
+/**
+ * Dead Letter Queue Manager
+ *
+ * Inspection and replay tooling for the dead letter queue. Messages are read
+ * with basic.get; anything not consumed by an operation is nacked with
+ * requeue so the queue content is left as it was found.
+ */
+export class DeadLetterQueueManager {
+  private connection: any = null;
+  private channel: any = null;
+  private readonly logger: Logger;
+  private readonly dlqConfig: DeadLetterQueueConfig;
+  private readonly topology: MessagingTopology;
+  private readonly returnedMessageIds = new Set<string>();
+  private readonly deadLetterRepository?: IDeadLetterRepository;
+
+  constructor(
+    logger: Logger,
+    dlqConfig: DeadLetterQueueConfig,
+    rabbitmqConfig: RabbitMQConfig,
+    deadLetterRepository?: IDeadLetterRepository,
+    topology: MessagingTopology = new MessagingTopology(rabbitmqConfig)
+  ) {
+    this.logger = logger;
+    this.dlqConfig = dlqConfig;
+    this.topology = topology;
+    this.deadLetterRepository = deadLetterRepository;
+  }
+
+  async connect(): Promise<void> {
+    try {
+      this.connection = await amqp.connect(this.dlqConfig.rabbitmqUrl);
+      this.channel = await this.connection.createConfirmChannel();
+      // Replays are mandatory; the broker hands unroutable ones back before the confirm
+      this.channel.on('return', (msg: any) => {
+        const messageId = msg.properties?.messageId;
+        if (messageId) {
+          this.returnedMessageIds.add(messageId);
+        }
+      });
+      await this.channel.checkQueue(this.dlqConfig.dlqQueue);
+      this.logger.info('📮 DLQ manager connected', { queue: this.dlqConfig.dlqQueue });
+    } catch (error) {
+      this.logger.error('❌ Failed to connect DLQ manager', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists dead-lettered events matching the filter, oldest first
+   */
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetterEntry[]> {
+    const entries: DeadLetterEntry[] = [];
+
+    await this.scan((entry) => {
+      if (this.matches(entry, filter) && !this.limitReached(entries.length, filter)) {
+        entries.push(entry);
+      }
+      return 'keep';
+    });
+
+    return entries;
+  }
+
+  async getByEventId(eventId: string): Promise<DeadLetterEntry | null> {
+    let found: DeadLetterEntry | null = null;
+
+    await this.scan((entry) => {
+      if (!found && entry.originalEvent.eventId === eventId) {
+        found = entry;
+      }
+      return 'keep';
+    });
+
+    return found;
+  }
+
+  /**
+   * Re-publishes the given events to the main exchange and removes them from the DLQ
+   * @returns number of events replayed
+   */
+  async replay(eventIds: string[]): Promise<number> {
+    const wanted = new Set(eventIds);
+    return this.replayWhere(entry => wanted.has(entry.originalEvent.eventId));
+  }
+
+  /**
+   * Re-publishes every event matching the filter to the main exchange
+   * @returns number of events replayed
+   */
+  async replayMatching(filter: DeadLetterFilter): Promise<number> {
+    let matched = 0;
+    return this.replayWhere((entry) => {
+      if (this.matches(entry, filter) && !this.limitReached(matched, filter)) {
+        matched++;
+        return true;
+      }
+      return false;
+    });
+  }
+
+  /**
+   * Removes dead-lettered events. Without a filter the whole queue is purged.
+   * @returns number of events removed
+   */
+  async purge(filter?: DeadLetterFilter): Promise<number> {
+    const channel = this.getChannel();
+
+    if (!filter || Object.keys(filter).length === 0) {
+      const { messageCount } = await channel.purgeQueue(this.dlqConfig.dlqQueue);
+      this.logger.warn('🗑️ Dead letter queue purged', { queue: this.dlqConfig.dlqQueue, messageCount });
+      await this.recordResolution(repository => repository.markAllPending('discarded'));
+      return messageCount;
+    }
+
+    const removedIds: string[] = [];
+    await this.scan((entry) => {
+      if (this.matches(entry, filter) && !this.limitReached(removedIds.length, filter)) {
+        removedIds.push(entry.originalEvent.eventId);
+        return 'remove';
+      }
+      return 'keep';
+    });
+
+    this.logger.warn('🗑️ Dead-lettered events purged', { removed: removedIds.length, filter });
+    await this.recordResolution(repository => repository.markResolved(removedIds, 'discarded'));
+    return removedIds.length;
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.channel) {
+      await this.channel.close();
+      this.channel = null;
+    }
+    if (this.connection) {
+      await this.connection.close();
+      this.connection = null;
+    }
+  }
+
+  private async replayWhere(predicate: (entry: DeadLetterEntry) => boolean): Promise<number> {
+    const channel = this.getChannel();
+    const replayedIds: string[] = [];
+
+    try {
+      await this.scan(async (entry) => {
+        if (!predicate(entry)) {
+          return 'keep';
+        }
+
+        // Routed like a first publication, by the routing key of its type
+        const { eventId, eventType } = entry.originalEvent;
+        let routingKey: string;
+        try {
+          routingKey = this.topology.routingKeyFor(eventType);
+        } catch (error) {
+          this.logger.warn('⚠️ DLQ event cannot be replayed, kept in the DLQ', {
+            eventId,
+            eventType,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          return 'keep';
+        }
+
+        const messageId = uuidv4();
+        channel.publish(
+          this.topology.getExchange(),
+          routingKey,
+          Buffer.from(JSON.stringify(entry.originalEvent)),
+          {
+            persistent: true,
+            mandatory: true,
+            messageId,
+            headers: {
+              'x-replayed-from-dlq': true,
+              'x-original-failure-reason': entry.failureInfo.errorMessage,
+              'x-replayed-at': new Date().toISOString()
+            }
+          }
+        );
+        // Only drop the DLQ copy once the broker has the replayed message
+        await channel.waitForConfirms();
+
+        if (this.returnedMessageIds.delete(messageId)) {
+          this.logger.warn('⚠️ DLQ event cannot be replayed, kept in the DLQ', {
+            eventId,
+            eventType,
+            error: `No queue bound to ${this.topology.getExchange()} with routing key ${routingKey}`
+          });
+          return 'keep';
+        }
+
+        replayedIds.push(eventId);
+        this.logger.info('🔁 Event replayed from DLQ', {
+          eventId,
+          eventType,
+          exchange: this.topology.getExchange()
+        });
+        return 'remove';
+      });
+    } finally {
+      await this.recordResolution(repository => repository.markResolved(replayedIds, 'replayed'));
+    }
+
+    return replayedIds.length;
+  }
+
+  /**
+   * Records a resolution in the dead letter history, if one is configured.
+   * History is best-effort: the broker operation has already happened.
+   */
+  private async recordResolution(
+    update: (repository: IDeadLetterRepository) => Promise<number>
+  ): Promise<void> {
+    if (!this.deadLetterRepository) {
+      return;
+    }
+
+    try {
+      await update(this.deadLetterRepository);
+    } catch (error) {
+      this.logger.warn('⚠️ Failed to record DLQ resolution in database', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Reads every message currently in the DLQ once, acking those the visitor
+   * removes and requeueing the rest. Unparseable messages are always kept.
+   */
+  private async scan(
+    visit: (entry: DeadLetterEntry) => Disposition | Promise<Disposition>
+  ): Promise<void> {
+    const channel = this.getChannel();
+    const { messageCount } = await channel.checkQueue(this.dlqConfig.dlqQueue);
+    const held: any[] = [];
+
+    try {
+      for (let i = 0; i < messageCount; i++) {
+        const msg = await channel.get(this.dlqConfig.dlqQueue, { noAck: false });
+        if (!msg) {
+          break;
+        }
+
+        // Hold the message until the visitor decides, so a failure requeues it
+        held.push(msg);
+        const entry = this.parse(msg);
+        if (entry && (await visit(entry)) === 'remove') {
+          held.pop();
+          channel.ack(msg);
+        }
+      }
+    } finally {
+      for (const msg of held) {
+        channel.nack(msg, false, true);
+      }
+    }
+  }
+
+  private parse(msg: any): DeadLetterEntry | null {
+    try {
+      const body = JSON.parse(msg.content.toString()) as DeadLetterMessage;
+      if (!body.originalEvent || !body.failureInfo) {
+        throw new Error('Missing originalEvent or failureInfo');
+      }
+      return { ...body, headers: msg.properties?.headers || {} };
+    } catch (error) {
+      this.logger.warn('⚠️ Skipping unreadable DLQ message', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  }
+
+  private matches(entry: DeadLetterEntry, filter: DeadLetterFilter): boolean {
+    if (filter.eventType && entry.originalEvent.eventType !== filter.eventType) {
+      return false;
+    }
+
+    if (
+      filter.errorContains &&
+      !entry.failureInfo.errorMessage.toLowerCase().includes(filter.errorContains.toLowerCase())
+    ) {
+      return false;
+    }
+
+    const failedAt = new Date(entry.failureInfo.failedAt).getTime();
+    if (filter.failedAfter && failedAt < filter.failedAfter.getTime()) {
+      return false;
+    }
+    if (filter.failedBefore && failedAt > filter.failedBefore.getTime()) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private limitReached(count: number, filter: DeadLetterFilter): boolean {
+    return filter.limit !== undefined && count >= filter.limit;
+  }
+
+  private getChannel(): any {
+    if (!this.channel) {
+      throw new Error('DLQ manager not connected');
+    }
+    return this.channel;
+  }
+}
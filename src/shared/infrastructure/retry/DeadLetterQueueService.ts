@@ -1,57 +1,103 @@
 import { Logger } from '../../application/logging/logger';
 import { DomainEvent } from '../../domain/events/DomainEvent';
-import { DeadLetterQueueService } from './RetryMechanism';
-import * as amqp from 'amqplib';
+import { DeadLetterOptions, DeadLetterQueueService } from './RetryMechanism';
+import { IDeadLetterRepository } from './IDeadLetterRepository';
+import { ErrorClass } from './ErrorClassifier';
+import { PublishConfig, RabbitMQConnection, ReconnectConfig } from '../messaging/RabbitMQConnection';
+import { MessagingTopology } from '../messaging/MessagingTopology';
+import { TopologyDefinition } from '../topology/TopologyDefinition';
+import { applyTopology } from '../topology/applyTopology';
 
 export interface DeadLetterQueueConfig {
   rabbitmqUrl: string;
   dlqExchange: string;
   dlqQueue: string;
   dlqRoutingKey: string;
+  reconnect?: ReconnectConfig;
+  publish?: PublishConfig;
+}
+
+/**
+ * The dead letter exchange and queue, used when no topology file is
+ * configured
+ */
+export function deadLetterTopology(config: DeadLetterQueueConfig): TopologyDefinition {
+  return {
+    exchanges: [{ name: config.dlqExchange, type: 'direct', durable: true, arguments: {} }],
+    queues: [{
+      name: config.dlqQueue,
+      type: 'classic',
+      durable: true,
+      arguments: {
+        'x-message-ttl': 7 * 24 * 60 * 60 * 1000, // 7 days TTL
+        'x-max-length': 10000 // Max 10k messages
+      }
+    }],
+    bindings: [{ exchange: config.dlqExchange, queue: config.dlqQueue, routingKey: config.dlqRoutingKey }]
+  };
+}
+
+/**
+ * Message body published to the dead letter queue
+ */
+export interface DeadLetterMessage {
+  originalEvent: {
+    eventId: string;
+    eventType: string;
+    aggregateId: string;
+    data: Record<string, any>;
+    version: number;
+    occurredOn: Date | string;
+  };
+  failureInfo: {
+    errorMessage: string;
+    errorStack?: string;
+    retryCount: number;
+    failedAt: string;
+    processingAttempts: number;
+  };
+  metadata: {
+    dlqTimestamp: string;
+    source: string;
+    canRetry: boolean;
+    errorClass?: ErrorClass;
+  };
 }
 
 export class RabbitMQDeadLetterQueueService implements DeadLetterQueueService {
-  private connection: any = null;
-  private channel: any = null;
+  private readonly connection: RabbitMQConnection;
+  private initialized: boolean = false;
   private readonly logger: Logger;
   private readonly config: DeadLetterQueueConfig;
-
-  constructor(logger: Logger, config: DeadLetterQueueConfig) {
+  private readonly deadLetterRepository?: IDeadLetterRepository;
+  private readonly topology?: MessagingTopology;
+
+  /**
+   * @param topology shared topology to declare instead of just the dead
+   * letter exchange and queue; it must declare both
+   */
+  constructor(
+    logger: Logger,
+    config: DeadLetterQueueConfig,
+    deadLetterRepository?: IDeadLetterRepository,
+    topology?: MessagingTopology
+  ) {
     this.logger = logger;
     this.config = config;
+    this.deadLetterRepository = deadLetterRepository;
+    this.topology = topology;
+    topology?.requireExchange(config.dlqExchange);
+    topology?.requireQueue(config.dlqQueue);
+    this.connection = new RabbitMQConnection('DLQ service', config.rabbitmqUrl, logger, config.reconnect, config.publish);
+    this.connection.addSetup(channel => this.setupTopology(channel));
   }
 
   async initialize(): Promise<void> {
     try {
       this.logger.info('🔧 Initializing Dead Letter Queue Service...');
 
-      this.connection = await amqp.connect(this.config.rabbitmqUrl);
-      if (!this.connection) {
-        throw new Error('Failed to establish RabbitMQ connection for DLQ');
-      }
-
-      this.channel = await this.connection.createChannel();
-      if (!this.channel) {
-        throw new Error('Failed to create RabbitMQ channel for DLQ');
-      }
-
-      // Setup DLQ exchange
-      await this.channel.assertExchange(this.config.dlqExchange, 'direct', { durable: true });
-      this.logger.info(`📮 DLQ Exchange configured: ${this.config.dlqExchange}`);
-
-      // Setup DLQ queue
-      await this.channel.assertQueue(this.config.dlqQueue, { 
-        durable: true,
-        arguments: {
-          'x-message-ttl': 7 * 24 * 60 * 60 * 1000, // 7 days TTL
-          'x-max-length': 10000 // Max 10k messages
-        }
-      });
-      this.logger.info(`📮 DLQ Queue configured: ${this.config.dlqQueue}`);
-
-      // Bind DLQ queue to exchange
-      await this.channel.bindQueue(this.config.dlqQueue, this.config.dlqExchange, this.config.dlqRoutingKey);
-      this.logger.info(`📮 DLQ Queue bound to exchange`);
+      await this.connection.connect();
+      this.initialized = true;
 
       this.logger.info('✅ Dead Letter Queue Service initialized successfully');
     } catch (error) {
@@ -60,17 +106,35 @@ export class RabbitMQDeadLetterQueueService implements DeadLetterQueueService {
     }
   }
 
-  async sendToDeadLetterQueue(event: DomainEvent, error: Error, retryCount: number): Promise<void> {
-    if (!this.channel) {
-      await this.initialize();
+  private async setupTopology(channel: any): Promise<void> {
+    if (this.topology) {
+      await this.topology.assert(channel);
+    } else {
+      await applyTopology(channel, deadLetterTopology(this.config));
     }
+    this.logger.info(`📮 DLQ configured`, {
+      exchange: this.config.dlqExchange,
+      queue: this.config.dlqQueue,
+      routingKey: this.config.dlqRoutingKey
+    });
+  }
+
+  isConnected(): boolean {
+    return this.connection.isConnected();
+  }
 
-    if (!this.channel) {
-      throw new Error('Failed to initialize DLQ channel');
+  async sendToDeadLetterQueue(
+    event: DomainEvent,
+    error: Error,
+    retryCount: number,
+    options: DeadLetterOptions = {}
+  ): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
     }
 
     try {
-      const dlqMessage = {
+      const dlqMessage: DeadLetterMessage = {
         originalEvent: {
           eventId: event.eventId?.value,
           eventType: event.eventType,
@@ -88,33 +152,33 @@ export class RabbitMQDeadLetterQueueService implements DeadLetterQueueService {
         },
         metadata: {
           dlqTimestamp: new Date().toISOString(),
-          source: 'RetryMechanism',
-          canRetry: false // Mark as non-retryable since it already failed max attempts
+          source: options.source ?? 'RetryMechanism',
+          canRetry: options.canRetry ?? true,
+          errorClass: options.errorClass
         }
       };
 
       const messageBuffer = Buffer.from(JSON.stringify(dlqMessage));
 
-      // Publish to DLQ
-      const published = this.channel.publish(
+      // Publish to DLQ and wait for the broker confirm, so the failed event is
+      // only given up on once the DLQ really holds it
+      await this.connection.publish(
         this.config.dlqExchange,
         this.config.dlqRoutingKey,
         messageBuffer,
         {
           persistent: true,
+          mandatory: true,
           headers: {
             'x-original-event-type': event.eventType,
             'x-failure-reason': error.message,
             'x-retry-count': retryCount,
-            'x-failed-at': new Date().toISOString()
+            'x-failed-at': new Date().toISOString(),
+            ...(options.errorClass && { 'x-error-class': options.errorClass })
           }
         }
       );
 
-      if (!published) {
-        throw new Error('Failed to publish message to DLQ - channel buffer full');
-      }
-
       this.logger.info('📮 Event successfully sent to Dead Letter Queue', {
         eventType: event.eventType,
         eventId: event.eventId?.value,
@@ -126,7 +190,7 @@ export class RabbitMQDeadLetterQueueService implements DeadLetterQueueService {
       });
 
       // Also log to database for persistence (optional)
-      await this.logToDatabaseDLQ(event, error, retryCount);
+      await this.logToDatabaseDLQ(dlqMessage);
 
     } catch (dlqError) {
       this.logger.error('❌ Failed to send event to Dead Letter Queue', {
@@ -139,15 +203,21 @@ export class RabbitMQDeadLetterQueueService implements DeadLetterQueueService {
     }
   }
 
-  private async logToDatabaseDLQ(event: DomainEvent, error: Error, retryCount: number): Promise<void> {
-    try {
-      // TODO: Implement database logging
-      // This would insert into the dead_letter_queue table created in init-db.sql
+  private async logToDatabaseDLQ(dlqMessage: DeadLetterMessage): Promise<void> {
+    if (!this.deadLetterRepository) {
+      return;
+    }
 
+    try {
+      await this.deadLetterRepository.record(dlqMessage);
+      this.logger.info('🗄️ DLQ event logged to database', {
+        eventType: dlqMessage.originalEvent.eventType,
+        eventId: dlqMessage.originalEvent.eventId
+      });
     } catch (dbError) {
       this.logger.warn('⚠️ Failed to log DLQ event to database', {
-        eventType: event.eventType,
-        eventId: event.eventId?.value,
+        eventType: dlqMessage.originalEvent.eventType,
+        eventId: dlqMessage.originalEvent.eventId,
         dbError: dbError instanceof Error ? dbError.message : 'Unknown DB error'
       });
       // Don't throw - DLQ to RabbitMQ is more important than DB logging
@@ -158,17 +228,9 @@ export class RabbitMQDeadLetterQueueService implements DeadLetterQueueService {
     try {
       this.logger.info('🔌 Disconnecting Dead Letter Queue Service...');
 
-      if (this.channel) {
-        await this.channel.close();
-        this.channel = null;
-        this.logger.info('📮 DLQ channel closed');
-      }
-
-      if (this.connection) {
-        await this.connection.close();
-        this.connection = null;
-        this.logger.info('📮 DLQ connection closed');
-      }
+      await this.connection.close();
+      this.initialized = false;
+      this.logger.info('📮 DLQ connection closed');
 
       this.logger.info('✅ Dead Letter Queue Service disconnected');
     } catch (error) {
@@ -0,0 +1,72 @@
+import { DataTypes, Model, Sequelize } from 'sequelize';
+import { DeadLetterStatus } from './IDeadLetterRepository';
+import { ErrorClass } from './ErrorClassifier';
+
+export interface DeadLetterRecordAttributes {
+  id?: number;
+  eventId: string;
+  eventType: string;
+  aggregateId: string;
+  eventData: Record<string, any>;
+  eventVersion: number;
+  occurredOn: Date;
+  errorMessage: string;
+  errorStack: string | null;
+  retryCount: number;
+  failedAt: Date;
+  source: string;
+  canRetry: boolean;
+  errorClass: ErrorClass | null;
+  status: DeadLetterStatus;
+  resolvedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Row in the `dead_letter_queue` table
+ */
+export class DeadLetterRecord extends Model<DeadLetterRecordAttributes> {
+  declare id: number;
+  declare eventId: string;
+  declare eventType: string;
+  declare aggregateId: string;
+  declare eventData: Record<string, any>;
+  declare eventVersion: number;
+  declare occurredOn: Date;
+  declare errorMessage: string;
+  declare errorStack: string | null;
+  declare retryCount: number;
+  declare failedAt: Date;
+  declare source: string;
+  declare canRetry: boolean;
+  declare errorClass: ErrorClass | null;
+  declare status: DeadLetterStatus;
+  declare resolvedAt: Date | null;
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export function defineDeadLetterSchema(sequelize: Sequelize): void {
+  DeadLetterRecord.init(
+    {
+      id: { type: DataTypes.INTEGER, primaryKey: true, autoIncrement: true },
+      eventId: { type: DataTypes.UUID, allowNull: false },
+      eventType: { type: DataTypes.STRING, allowNull: false },
+      aggregateId: { type: DataTypes.STRING, allowNull: false },
+      eventData: { type: DataTypes.JSONB, allowNull: false },
+      eventVersion: { type: DataTypes.INTEGER, allowNull: false, defaultValue: 1 },
+      occurredOn: { type: DataTypes.DATE, allowNull: false },
+      errorMessage: { type: DataTypes.TEXT, allowNull: false },
+      errorStack: { type: DataTypes.TEXT, allowNull: true },
+      retryCount: { type: DataTypes.INTEGER, allowNull: false },
+      failedAt: { type: DataTypes.DATE, allowNull: false },
+      source: { type: DataTypes.STRING, allowNull: false },
+      canRetry: { type: DataTypes.BOOLEAN, allowNull: false },
+      errorClass: { type: DataTypes.STRING(20), allowNull: true },
+      status: { type: DataTypes.STRING(20), allowNull: false, defaultValue: 'pending' },
+      resolvedAt: { type: DataTypes.DATE, allowNull: true }
+    },
+    { sequelize, tableName: 'dead_letter_queue', underscored: true, timestamps: true }
+  );
+}
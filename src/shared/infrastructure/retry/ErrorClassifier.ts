@@ -0,0 +1,32 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { DomainError } from '../../domain/errors/DomainError';
+import { PoisonMessageError } from '../messaging/PoisonMessageError';
+
+/**
+ * - retryable: transient (broker, database, network); worth the backoff schedule
+ * - non-retryable: deterministic (validation, business rules); fails again every time
+ * - poison: the message itself is malformed and cannot be processed at all
+ */
+export type ErrorClass = 'retryable' | 'non-retryable' | 'poison';
+
+export interface ErrorClassifier {
+  classify(error: Error, event?: DomainEvent): ErrorClass;
+}
+
+/**
+ * Domain errors are deterministic and malformed messages are poison;
+ * anything else is assumed to be a transient infrastructure failure.
+ */
+export class DefaultErrorClassifier implements ErrorClassifier {
+  classify(error: Error): ErrorClass {
+    if (error instanceof PoisonMessageError) {
+      return 'poison';
+    }
+
+    if (error instanceof DomainError) {
+      return 'non-retryable';
+    }
+
+    return 'retryable';
+  }
+}
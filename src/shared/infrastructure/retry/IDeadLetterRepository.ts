@@ -0,0 +1,16 @@
+import { DeadLetterMessage } from './DeadLetterQueueService';
+
+export type DeadLetterStatus = 'pending' | 'replayed' | 'discarded' | 'resolved';
+
+/**
+ * Interface for the durable dead letter history (survives broker TTL and length limits)
+ */
+export interface IDeadLetterRepository {
+  record(message: DeadLetterMessage): Promise<void>;
+  /**
+   * Moves pending entries for the given events to a resolution status
+   * @returns number of entries updated
+   */
+  markResolved(eventIds: string[], status: DeadLetterStatus): Promise<number>;
+  markAllPending(status: DeadLetterStatus): Promise<number>;
+}
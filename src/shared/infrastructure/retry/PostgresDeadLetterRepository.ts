@@ -0,0 +1,58 @@
+import { Op } from 'sequelize';
+import { Database } from '../database/Database';
+import { DeadLetterMessage } from './DeadLetterQueueService';
+import { DeadLetterRecord, defineDeadLetterSchema } from './DeadLetterSchema';
+import { DeadLetterStatus, IDeadLetterRepository } from './IDeadLetterRepository';
+
+/**
+ * PostgreSQL dead letter history
+ *
+ * Keeps one row per dead-lettering (an event that fails again after a
+ * replay gets a new row) together with its resolution status.
+ */
+export class PostgresDeadLetterRepository implements IDeadLetterRepository {
+  constructor(database: Database) {
+    defineDeadLetterSchema(database.getSequelize());
+  }
+
+  async record(message: DeadLetterMessage): Promise<void> {
+    const { originalEvent, failureInfo, metadata } = message;
+
+    await DeadLetterRecord.create({
+      eventId: originalEvent.eventId,
+      eventType: originalEvent.eventType,
+      aggregateId: originalEvent.aggregateId,
+      eventData: originalEvent.data,
+      eventVersion: originalEvent.version,
+      occurredOn: new Date(originalEvent.occurredOn),
+      errorMessage: failureInfo.errorMessage,
+      errorStack: failureInfo.errorStack ?? null,
+      retryCount: failureInfo.retryCount,
+      failedAt: new Date(failureInfo.failedAt),
+      source: metadata.source,
+      canRetry: metadata.canRetry,
+      errorClass: metadata.errorClass ?? null,
+      status: 'pending'
+    });
+  }
+
+  async markResolved(eventIds: string[], status: DeadLetterStatus): Promise<number> {
+    if (eventIds.length === 0) {
+      return 0;
+    }
+
+    const [affectedRows] = await DeadLetterRecord.update(
+      { status, resolvedAt: new Date() },
+      { where: { eventId: { [Op.in]: eventIds }, status: 'pending' } }
+    );
+    return affectedRows;
+  }
+
+  async markAllPending(status: DeadLetterStatus): Promise<number> {
+    const [affectedRows] = await DeadLetterRecord.update(
+      { status, resolvedAt: new Date() },
+      { where: { status: 'pending' } }
+    );
+    return affectedRows;
+  }
+}
@@ -2,101 +2,348 @@
 
 import { Logger } from '../../application/logging/logger';
 import { DomainEvent } from '../../domain/events/DomainEvent';
+import { DefaultErrorClassifier, ErrorClass, ErrorClassifier } from './ErrorClassifier';
+import { CircuitOpenError } from '../circuit-breaker/CircuitOpenError';
+import { PipelineMetrics } from '../metrics/PipelineMetrics';
 
-export interface RetryConfig {
+/**
+ * - none: the plain exponential backoff
+ * - full: anywhere between 0 and the backoff delay
+ * - equal: half the backoff delay plus up to the other half
+ * - decorrelated: between the initial delay and three times the previous delay
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal' | 'decorrelated';
+
+export interface RetryPolicy {
   maxAttempts: number;
   initialDelayMs: number;
   maxDelayMs: number;
   backoffFactor: number;
+  /** Spreads retries of events that failed together; defaults to 'none' */
+  jitter?: JitterStrategy;
+  /** No retry is scheduled past this long after the first failure */
+  deadlineMs?: number;
+}
+
+export interface RetryConfig extends RetryPolicy {
+  /** Per event type overrides of the policy above */
+  eventTypes?: Record<string, Partial<RetryPolicy>>;
+}
+
+/**
+ * Where an event stands in its retries; travels with every redelivery
+ */
+export interface RetryState {
+  /** 1 for the first delivery, counted up by every scheduled retry */
+  readonly attempt: number;
+  /** When the first attempt failed (epoch ms); unset before any failure */
+  readonly firstFailureAt?: number;
+  /** Delay waited before this attempt; unset for the first one */
+  readonly lastRetryDelayMs?: number;
+}
+
+export interface DeadLetterOptions {
+  /**
+   * Whether the event may be replayed from the DLQ once the cause is fixed.
+   * Defaults to true.
+   */
+  canRetry?: boolean;
+  source?: string;
+  /** How the failure was classified; recorded with the dead-lettered event */
+  errorClass?: ErrorClass;
 }
 
 export interface DeadLetterQueueService {
-  sendToDeadLetterQueue(event: DomainEvent, error: Error, retryCount: number): Promise<void>;
+  sendToDeadLetterQueue(
+    event: DomainEvent,
+    error: Error,
+    retryCount: number,
+    options?: DeadLetterOptions
+  ): Promise<void>;
+}
+
+/**
+ * Hands a failed event back to the broker to be redelivered after delayMs,
+ * carrying the retry state along
+ */
+export interface RetryScheduler {
+  scheduleRetry(event: DomainEvent, retry: RetryState, delayMs: number): Promise<void>;
+}
+
+/**
+ * Where a failed event ended up: redelivered later, parked until its open
+ * circuit lets calls through again, in the DLQ, or nowhere (the caller must
+ * keep the message so it is not lost)
+ */
+export type FailureDisposition = 'retry-scheduled' | 'parked' | 'dead-lettered' | 'unhandled';
+
+/**
+ * The policy for an event type: the defaults with the type's overrides
+ */
+export function retryPolicy(config: RetryConfig, eventType?: string): RetryPolicy {
+  const { eventTypes, ...defaults } = config;
+  return { ...defaults, ...(eventType ? eventTypes?.[eventType] : undefined) };
+}
+
+/**
+ * Backoff delay before the attempt following the given one, without jitter
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(
+    policy.initialDelayMs * Math.pow(policy.backoffFactor, attempt - 1),
+    policy.maxDelayMs
+  );
+}
+
+/**
+ * Backoff delay with the policy's jitter applied
+ * @param lastDelayMs delay waited before the failed attempt, for decorrelated jitter
+ */
+export function jitteredRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  lastDelayMs?: number,
+  random: () => number = Math.random
+): number {
+  const delay = retryDelay(policy, attempt);
+
+  switch (policy.jitter ?? 'none') {
+    case 'full':
+      return Math.round(random() * delay);
+    case 'equal':
+      return Math.round(delay / 2 + random() * (delay / 2));
+    case 'decorrelated': {
+      const upper = Math.max(policy.initialDelayMs, (lastDelayMs ?? policy.initialDelayMs) * 3);
+      return Math.min(
+        Math.round(policy.initialDelayMs + random() * (upper - policy.initialDelayMs)),
+        policy.maxDelayMs
+      );
+    }
+    default:
+      return delay;
+  }
+}
+
+/**
+ * Longest delay each retry may wait under any of the configured policies,
+ * ascending. Jittered delays never exceed them: 'full' and 'equal' stay
+ * within the backoff delay, 'decorrelated' within maxDelayMs.
+ */
+export function retryDelays(config: RetryConfig): number[] {
+  const policies = [
+    retryPolicy(config),
+    ...Object.keys(config.eventTypes ?? {}).map(eventType => retryPolicy(config, eventType))
+  ];
+
+  const delays = new Set<number>();
+  for (const policy of policies) {
+    for (let attempt = 1; attempt < policy.maxAttempts; attempt++) {
+      delays.add(retryDelay(policy, attempt));
+    }
+    if (policy.jitter === 'decorrelated' && policy.maxAttempts > 1) {
+      delays.add(policy.maxDelayMs);
+    }
+  }
+  return Array.from(delays).sort((a, b) => a - b);
 }
 
 export class RetryMechanism {
   private readonly logger: Logger;
   private readonly config: RetryConfig;
   private readonly dlqService?: DeadLetterQueueService;
+  private readonly retryScheduler?: RetryScheduler;
+  private readonly errorClassifier: ErrorClassifier;
+  private readonly metrics?: PipelineMetrics;
+  private readonly random: () => number;
 
-  constructor(logger: Logger, config: RetryConfig, dlqService?: DeadLetterQueueService) {
+  constructor(
+    logger: Logger,
+    config: RetryConfig,
+    dlqService?: DeadLetterQueueService,
+    retryScheduler?: RetryScheduler,
+    errorClassifier: ErrorClassifier = new DefaultErrorClassifier(),
+    metrics?: PipelineMetrics,
+    random: () => number = Math.random
+  ) {
     this.logger = logger;
     this.config = config;
     this.dlqService = dlqService;
+    this.retryScheduler = retryScheduler;
+    this.errorClassifier = errorClassifier;
+    this.metrics = metrics;
+    this.random = random;
   }
 
-  async executeWithRetry<T>(
-    operation: () => Promise<T>,
-    context: string,
-    event?: DomainEvent
-  ): Promise<T> {
-    let lastError: Error | null = null;
-    let delay = this.config.initialDelayMs;
+  getPolicy(eventType?: string): RetryPolicy {
+    return retryPolicy(this.config, eventType);
+  }
 
-    for (let attempt = 1; attempt <= this.config.maxAttempts; attempt++) {
-      try {
+  getMaxAttempts(eventType?: string): number {
+    return this.getPolicy(eventType).maxAttempts;
+  }
 
+  /**
+   * Backoff delay after the given attempt, without jitter
+   */
+  getRetryDelay(attempt: number, eventType?: string): number {
+    return retryDelay(this.getPolicy(eventType), attempt);
+  }
 
-        return await operation();
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        
-        this.logger.warn(`⚠️ Operation failed on attempt ${attempt}`, {
-          context,
-          attempt,
-          maxAttempts: this.config.maxAttempts,
-          error: lastError.message,
-          eventType: event?.eventType,
-          eventId: event?.eventId?.value
-        });
+  /**
+   * Classifies an error; canRetry: false marks it non-retryable whatever its type
+   */
+  classify(error: Error, event?: DomainEvent, options: DeadLetterOptions = {}): ErrorClass {
+    const errorClass = this.errorClassifier.classify(error, event);
+    return errorClass === 'retryable' && options.canRetry === false ? 'non-retryable' : errorClass;
+  }
 
-        if (attempt === this.config.maxAttempts) {
-          this.logger.error(`❌ Operation failed after ${attempt} attempts - sending to DLQ`, {
-            context,
-            error: lastError.message,
-            eventType: event?.eventType,
-            eventId: event?.eventId?.value
-          });
-
-          // Send to Dead Letter Queue if available
-          if (event && this.dlqService) {
-            try {
-              await this.dlqService.sendToDeadLetterQueue(event, lastError, attempt);
-              this.logger.info(`📮 Event sent to Dead Letter Queue`, {
-                eventType: event.eventType,
-                eventId: event.eventId?.value,
-                retryCount: attempt
-              });
-            } catch (dlqError) {
-              this.logger.error(`❌ Failed to send event to DLQ`, {
-                eventType: event.eventType,
-                eventId: event.eventId?.value,
-                dlqError: dlqError instanceof Error ? dlqError.message : 'Unknown DLQ error'
-              });
-            }
-          }
-
-          throw lastError;
-        }
-
-        this.logger.info(`⏳ Waiting ${delay}ms before retry ${attempt + 1}`, {
-          context,
-          delayMs: delay,
-          nextAttempt: attempt + 1
-        });
+  /**
+   * Decides what happens to an event whose delivery failed, following the
+   * retry policy of its event type. Retryable failures are handed to the
+   * retry scheduler, so the broker redelivers them after the (jittered)
+   * backoff delay without holding the consumer; non-retryable and poison
+   * failures, exhausted attempts, a passed deadline and failed scheduling go
+   * to the DLQ. Events refused by an open circuit are parked instead: they
+   * wait in the retry queues until the circuit lets calls through again,
+   * without using up an attempt.
+   */
+  async handleFailure(
+    event: DomainEvent,
+    error: Error,
+    retry: RetryState,
+    options: DeadLetterOptions = {}
+  ): Promise<FailureDisposition> {
+    if (error instanceof CircuitOpenError && await this.park(event, error, retry)) {
+      return 'parked';
+    }
 
-        await this.delay(delay);
-        delay = Math.min(
-          delay * this.config.backoffFactor,
-          this.config.maxDelayMs
-        );
+    const { attempt } = retry;
+    const policy = this.getPolicy(event.eventType);
+    const errorClass = this.classify(error, event, options);
+    const retryable = errorClass === 'retryable';
+    const firstFailureAt = retry.firstFailureAt ?? Date.now();
+    const delayMs = jitteredRetryDelay(policy, attempt, retry.lastRetryDelayMs, this.random);
+    const pastDeadline = this.isPastDeadline(policy, firstFailureAt, delayMs);
+
+    if (retryable && attempt < policy.maxAttempts && !pastDeadline && this.retryScheduler) {
+      try {
+        await this.retryScheduler.scheduleRetry(event, {
+          attempt: attempt + 1,
+          firstFailureAt,
+          lastRetryDelayMs: delayMs
+        }, delayMs);
+        this.metrics?.retriesScheduled.inc({ event_type: event.eventType });
+        this.logger.warn(`⏳ Attempt ${attempt} failed - retry scheduled in ${delayMs}ms`, {
+          eventType: event.eventType,
+          eventId: event.eventId?.value,
+          nextAttempt: attempt + 1,
+          maxAttempts: policy.maxAttempts,
+          error: error.message
+        });
+        return 'retry-scheduled';
+      } catch (scheduleError) {
+        this.logger.error(`❌ Failed to schedule retry - sending to DLQ`, {
+          eventType: event.eventType,
+          eventId: event.eventId?.value,
+          scheduleError: scheduleError instanceof Error ? scheduleError.message : 'Unknown error'
+        });
       }
+    } else {
+      const reason = !retryable
+        ? `with a ${errorClass} error`
+        : pastDeadline && attempt < policy.maxAttempts ? `past its retry deadline` : `after ${attempt} attempts`;
+      this.logger.error(`❌ Event failed ${reason} - sending to DLQ`, {
+        eventType: event.eventType,
+        eventId: event.eventId?.value,
+        error: error.message
+      });
+    }
+
+    const deadLettered = await this.sendToDeadLetterQueue(event, error, attempt, {
+      ...options,
+      canRetry: retryable,
+      errorClass
+    });
+    return deadLettered ? 'dead-lettered' : 'unhandled';
+  }
+
+  /**
+   * Hands a failed event to the DLQ, if one is configured. DLQ failures are
+   * logged only: the caller is already handling the original error.
+   * @returns whether the event reached the DLQ
+   */
+  async sendToDeadLetterQueue(
+    event: DomainEvent,
+    error: Error,
+    attempts: number,
+    options?: DeadLetterOptions
+  ): Promise<boolean> {
+    if (!this.dlqService) {
+      return false;
     }
 
-    throw lastError;
+    try {
+      await this.dlqService.sendToDeadLetterQueue(event, error, attempts, options);
+      this.metrics?.deadLettered.inc({
+        event_type: event.eventType,
+        error_class: options?.errorClass ?? this.classify(error, event, options ?? {})
+      });
+      this.logger.info(`📮 Event sent to Dead Letter Queue`, {
+        eventType: event.eventType,
+        eventId: event.eventId?.value,
+        retryCount: attempts
+      });
+      return true;
+    } catch (dlqError) {
+      this.metrics?.deadLetterFailures.inc({ event_type: event.eventType });
+      this.logger.error(`❌ Failed to send event to DLQ`, {
+        eventType: event.eventType,
+        eventId: event.eventId?.value,
+        dlqError: dlqError instanceof Error ? dlqError.message : 'Unknown DLQ error'
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Reschedules the event, retry state untouched, for when its circuit
+   * lets calls through again (capped at the longest retry queue delay)
+   * @returns whether the event was parked
+   */
+  private async park(event: DomainEvent, error: CircuitOpenError, retry: RetryState): Promise<boolean> {
+    const delays = retryDelays(this.config);
+    if (!this.retryScheduler || delays.length === 0) {
+      return false;
+    }
+
+    const delayMs = Math.min(Math.max(error.retryAfterMs, Math.min(...delays)), Math.max(...delays));
+    try {
+      await this.retryScheduler.scheduleRetry(event, {
+        attempt: retry.attempt,
+        firstFailureAt: retry.firstFailureAt,
+        lastRetryDelayMs: retry.lastRetryDelayMs
+      }, delayMs);
+      this.metrics?.eventsParked.inc({ event_type: event.eventType, circuit: error.circuit });
+      this.logger.warn(`⚡ Circuit "${error.circuit}" is open - event parked for ${delayMs}ms`, {
+        eventType: event.eventType,
+        eventId: event.eventId?.value,
+        attempt: retry.attempt
+      });
+      return true;
+    } catch (scheduleError) {
+      this.logger.error(`❌ Failed to park event`, {
+        eventType: event.eventType,
+        eventId: event.eventId?.value,
+        scheduleError: scheduleError instanceof Error ? scheduleError.message : 'Unknown error'
+      });
+      return false;
+    }
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  /**
+   * Whether waiting another delayMs would end past the policy's deadline
+   */
+  private isPastDeadline(policy: RetryPolicy, firstFailureAt: number, delayMs: number): boolean {
+    return policy.deadlineMs !== undefined && Date.now() + delayMs - firstFailureAt > policy.deadlineMs;
   }
 } 
\ No newline at end of file
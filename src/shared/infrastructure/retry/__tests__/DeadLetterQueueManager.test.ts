@@ -0,0 +1,259 @@
+import * as amqp from 'amqplib';
+import { DeadLetterQueueManager } from '../DeadLetterQueueManager';
+import { DeadLetterMessage } from '../DeadLetterQueueService';
+import { IDeadLetterRepository } from '../IDeadLetterRepository';
+import { Logger } from '../../../application/logging/logger';
+
+// Mock amqplib
+jest.mock('amqplib');
+const mockAmqp = amqp as jest.Mocked<typeof amqp>;
+
+function dlqMessage(eventId: string, eventType: string, errorMessage: string, failedAt: string) {
+  const body: DeadLetterMessage = {
+    originalEvent: {
+      eventId,
+      eventType,
+      aggregateId: `order-${eventId}`,
+      data: { orderId: `order-${eventId}` },
+      version: 1,
+      occurredOn: failedAt
+    },
+    failureInfo: {
+      errorMessage,
+      retryCount: 3,
+      failedAt,
+      processingAttempts: 3
+    },
+    metadata: {
+      dlqTimestamp: failedAt,
+      source: 'RetryMechanism',
+      canRetry: true
+    }
+  };
+  return { content: Buffer.from(JSON.stringify(body)), properties: { headers: { 'x-retry-count': 3 } } };
+}
+
+describe('DeadLetterQueueManager', () => {
+  let manager: DeadLetterQueueManager;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockChannel: any;
+  let mockRepository: jest.Mocked<IDeadLetterRepository>;
+  let queue: any[];
+  let listeners: Record<string, (msg: any) => void>;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    queue = [
+      dlqMessage('e1', 'OrderCreated', 'Invalid order: customerId is required', '2024-01-01T10:00:00.000Z'),
+      dlqMessage('e2', 'OrderCancelled', 'Connection timeout', '2024-01-02T10:00:00.000Z'),
+      { content: Buffer.from('not json'), properties: {} },
+      dlqMessage('e3', 'OrderCreated', 'Connection timeout', '2024-01-03T10:00:00.000Z')
+    ];
+
+    let cursor = 0;
+    listeners = {};
+    mockChannel = {
+      checkQueue: jest.fn(async () => ({ messageCount: queue.length })),
+      get: jest.fn(async () => queue[cursor++] ?? false),
+      ack: jest.fn(),
+      nack: jest.fn(),
+      publish: jest.fn().mockReturnValue(true),
+      on: jest.fn((event: string, listener: (msg: any) => void) => {
+        listeners[event] = listener;
+      }),
+      waitForConfirms: jest.fn().mockResolvedValue(undefined),
+      purgeQueue: jest.fn().mockResolvedValue({ messageCount: 4 }),
+      close: jest.fn().mockResolvedValue(undefined)
+    };
+    // Every scan re-reads the queue from the start
+    mockChannel.checkQueue.mockImplementation(async () => {
+      cursor = 0;
+      return { messageCount: queue.length };
+    });
+
+    mockAmqp.connect.mockResolvedValue({
+      createConfirmChannel: jest.fn().mockResolvedValue(mockChannel),
+      close: jest.fn().mockResolvedValue(undefined)
+    } as any);
+
+    mockRepository = {
+      record: jest.fn().mockResolvedValue(undefined),
+      markResolved: jest.fn().mockResolvedValue(1),
+      markAllPending: jest.fn().mockResolvedValue(4)
+    };
+
+    manager = new DeadLetterQueueManager(
+      mockLogger,
+      {
+        rabbitmqUrl: 'amqp://localhost:5672',
+        dlqExchange: 'dlx_exchange',
+        dlqQueue: 'dead_letter_queue',
+        dlqRoutingKey: 'failed'
+      },
+      {
+        url: 'amqp://localhost:5672',
+        exchange: 'orders_exchange',
+        queue: 'order_events',
+        routingKey: 'order.*'
+      },
+      mockRepository
+    );
+    await manager.connect();
+  });
+
+  describe('list', () => {
+    it('should list every readable message and requeue all of them', async () => {
+      // Act
+      const entries = await manager.list();
+
+      // Assert
+      expect(entries.map(entry => entry.originalEvent.eventId)).toEqual(['e1', 'e2', 'e3']);
+      expect(entries[0]!.headers).toEqual({ 'x-retry-count': 3 });
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+      expect(mockChannel.nack).toHaveBeenCalledTimes(4);
+      expect(mockChannel.nack).toHaveBeenCalledWith(expect.anything(), false, true);
+    });
+
+    it('should filter by event type, error and time window', async () => {
+      // Act
+      const byType = await manager.list({ eventType: 'OrderCreated' });
+      const byError = await manager.list({ errorContains: 'TIMEOUT' });
+      const byTime = await manager.list({
+        failedAfter: new Date('2024-01-02T00:00:00Z'),
+        failedBefore: new Date('2024-01-02T23:59:59Z')
+      });
+
+      // Assert
+      expect(byType.map(entry => entry.originalEvent.eventId)).toEqual(['e1', 'e3']);
+      expect(byError.map(entry => entry.originalEvent.eventId)).toEqual(['e2', 'e3']);
+      expect(byTime.map(entry => entry.originalEvent.eventId)).toEqual(['e2']);
+    });
+
+    it('should honour the limit', async () => {
+      const entries = await manager.list({ limit: 1 });
+      expect(entries).toHaveLength(1);
+    });
+  });
+
+  describe('getByEventId', () => {
+    it('should return the matching entry', async () => {
+      const entry = await manager.getByEventId('e2');
+      expect(entry?.originalEvent.eventType).toBe('OrderCancelled');
+    });
+
+    it('should return null when the event is not in the DLQ', async () => {
+      await expect(manager.getByEventId('missing')).resolves.toBeNull();
+    });
+  });
+
+  describe('replay', () => {
+    it('should republish the original event to the main exchange and ack it after confirmation', async () => {
+      // Act
+      const replayed = await manager.replay(['e2']);
+
+      // Assert
+      expect(replayed).toBe(1);
+      expect(mockChannel.publish).toHaveBeenCalledWith(
+        'orders_exchange',
+        'order.cancelled',
+        expect.any(Buffer),
+        expect.objectContaining({ persistent: true, mandatory: true })
+      );
+      const published = JSON.parse(mockChannel.publish.mock.calls[0][2].toString());
+      expect(published).toEqual(expect.objectContaining({ eventId: 'e2', eventType: 'OrderCancelled' }));
+      expect(mockChannel.waitForConfirms).toHaveBeenCalled();
+      expect(mockChannel.ack).toHaveBeenCalledWith(queue[1]);
+      expect(mockChannel.nack).toHaveBeenCalledTimes(3);
+      expect(mockRepository.markResolved).toHaveBeenCalledWith(['e2'], 'replayed');
+    });
+
+    it('should still replay when the history cannot be updated', async () => {
+      // Arrange
+      mockRepository.markResolved.mockRejectedValue(new Error('DB down'));
+
+      // Act & Assert
+      await expect(manager.replay(['e2'])).resolves.toBe(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith('⚠️ Failed to record DLQ resolution in database', expect.any(Object));
+    });
+
+    it('should replay every event matching a filter', async () => {
+      const replayed = await manager.replayMatching({ errorContains: 'timeout' });
+      expect(replayed).toBe(2);
+      expect(mockChannel.ack).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the DLQ copy when the broker does not confirm', async () => {
+      // Arrange
+      mockChannel.waitForConfirms.mockRejectedValue(new Error('nack'));
+
+      // Act & Assert
+      await expect(manager.replay(['e1'])).rejects.toThrow('nack');
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+      expect(mockChannel.nack).toHaveBeenCalledWith(queue[0], false, true);
+    });
+  });
+
+  describe('unreplayable events', () => {
+    it('should keep an event in the DLQ when the broker returns it as unroutable', async () => {
+      // Arrange
+      mockChannel.publish.mockImplementation((_exchange: string, _routingKey: string, _content: Buffer, options: any) => {
+        listeners['return']!({ properties: { messageId: options.messageId } });
+        return true;
+      });
+
+      // Act
+      const replayed = await manager.replay(['e2']);
+
+      // Assert
+      expect(replayed).toBe(0);
+      expect(mockChannel.ack).not.toHaveBeenCalled();
+      expect(mockChannel.nack).toHaveBeenCalledWith(queue[1], false, true);
+      expect(mockRepository.markResolved).toHaveBeenCalledWith([], 'replayed');
+      expect(mockLogger.warn).toHaveBeenCalledWith('⚠️ DLQ event cannot be replayed, kept in the DLQ', expect.objectContaining({
+        eventId: 'e2',
+        error: 'No queue bound to orders_exchange with routing key order.cancelled'
+      }));
+    });
+
+    it('should keep an event whose type has no routing key and replay the others', async () => {
+      // Arrange
+      queue[0] = dlqMessage('e1', 'Unknown', 'Malformed message', '2024-01-01T10:00:00.000Z');
+
+      // Act
+      const replayed = await manager.replayMatching({});
+
+      // Assert
+      expect(replayed).toBe(2);
+      expect(mockChannel.nack).toHaveBeenCalledWith(queue[0], false, true);
+      expect(mockLogger.warn).toHaveBeenCalledWith('⚠️ DLQ event cannot be replayed, kept in the DLQ', expect.objectContaining({
+        eventId: 'e1',
+        eventType: 'Unknown'
+      }));
+    });
+  });
+
+  describe('purge', () => {
+    it('should purge the whole queue without a filter', async () => {
+      const removed = await manager.purge();
+      expect(removed).toBe(4);
+      expect(mockChannel.purgeQueue).toHaveBeenCalledWith('dead_letter_queue');
+      expect(mockRepository.markAllPending).toHaveBeenCalledWith('discarded');
+    });
+
+    it('should only remove matching events with a filter', async () => {
+      const removed = await manager.purge({ eventType: 'OrderCancelled' });
+      expect(removed).toBe(1);
+      expect(mockChannel.purgeQueue).not.toHaveBeenCalled();
+      expect(mockChannel.ack).toHaveBeenCalledWith(queue[1]);
+      expect(mockRepository.markResolved).toHaveBeenCalledWith(['e2'], 'discarded');
+    });
+  });
+});
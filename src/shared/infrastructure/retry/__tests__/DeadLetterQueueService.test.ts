@@ -0,0 +1,132 @@
+import * as amqp from 'amqplib';
+import { RabbitMQDeadLetterQueueService } from '../DeadLetterQueueService';
+import { IDeadLetterRepository } from '../IDeadLetterRepository';
+import { Logger } from '../../../application/logging/logger';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { EventId } from '../../../domain/value-objects/EventId';
+
+// Mock amqplib
+jest.mock('amqplib');
+const mockAmqp = amqp as jest.Mocked<typeof amqp>;
+
+describe('RabbitMQDeadLetterQueueService', () => {
+  let service: RabbitMQDeadLetterQueueService;
+  let mockLogger: jest.Mocked<Logger>;
+  let mockRepository: jest.Mocked<IDeadLetterRepository>;
+  let mockChannel: any;
+  let sampleEvent: DomainEvent;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    mockRepository = {
+      record: jest.fn().mockResolvedValue(undefined),
+      markResolved: jest.fn().mockResolvedValue(0),
+      markAllPending: jest.fn().mockResolvedValue(0)
+    };
+
+    mockChannel = {
+      assertExchange: jest.fn().mockResolvedValue({}),
+      assertQueue: jest.fn().mockResolvedValue({}),
+      bindQueue: jest.fn().mockResolvedValue({}),
+      publish: jest.fn((_exchange, _routingKey, _content, _options, onConfirm) => {
+        onConfirm(null);
+        return true;
+      }),
+      close: jest.fn().mockResolvedValue({}),
+      on: jest.fn()
+    };
+
+    mockAmqp.connect.mockResolvedValue({
+      createConfirmChannel: jest.fn().mockResolvedValue(mockChannel),
+      close: jest.fn().mockResolvedValue({}),
+      on: jest.fn()
+    } as any);
+
+    service = new RabbitMQDeadLetterQueueService(
+      mockLogger,
+      {
+        rabbitmqUrl: 'amqp://localhost:5672',
+        dlqExchange: 'dlx_exchange',
+        dlqQueue: 'dead_letter_queue',
+        dlqRoutingKey: 'failed'
+      },
+      mockRepository
+    );
+
+    sampleEvent = {
+      eventId: new EventId('550e8400-e29b-41d4-a716-446655440000'),
+      eventType: 'OrderCreated',
+      aggregateId: 'order-123',
+      data: { orderId: 'order-123' },
+      version: 1,
+      occurredOn: new Date('2024-01-01T10:00:00Z')
+    };
+  });
+
+  it('should publish the failure to the DLQ and record it in the database', async () => {
+    // Arrange
+    const error = new Error('Payment gateway timeout');
+
+    // Act
+    await service.sendToDeadLetterQueue(sampleEvent, error, 3);
+
+    // Assert
+    expect(mockChannel.publish).toHaveBeenCalledWith(
+      'dlx_exchange',
+      'failed',
+      expect.any(Buffer),
+      expect.objectContaining({ persistent: true, mandatory: true }),
+      expect.any(Function)
+    );
+    expect(mockRepository.record).toHaveBeenCalledWith(expect.objectContaining({
+      originalEvent: expect.objectContaining({ eventId: '550e8400-e29b-41d4-a716-446655440000' }),
+      failureInfo: expect.objectContaining({
+        errorMessage: 'Payment gateway timeout',
+        errorStack: error.stack,
+        retryCount: 3
+      }),
+      metadata: expect.objectContaining({ source: 'RetryMechanism', canRetry: true })
+    }));
+  });
+
+  it('should honour canRetry and source options', async () => {
+    // Act
+    await service.sendToDeadLetterQueue(sampleEvent, new Error('bad'), 1, { canRetry: false, source: 'Test' });
+
+    // Assert
+    const published = JSON.parse(mockChannel.publish.mock.calls[0][2].toString());
+    expect(published.metadata).toEqual(expect.objectContaining({ canRetry: false, source: 'Test' }));
+  });
+
+  it('should not fail when the database write fails', async () => {
+    // Arrange
+    mockRepository.record.mockRejectedValue(new Error('DB down'));
+
+    // Act & Assert
+    await expect(service.sendToDeadLetterQueue(sampleEvent, new Error('boom'), 3)).resolves.toBeUndefined();
+    expect(mockLogger.warn).toHaveBeenCalledWith('⚠️ Failed to log DLQ event to database', expect.objectContaining({
+      dbError: 'DB down'
+    }));
+  });
+
+  it('should not record to the database when the broker nacks the message', async () => {
+    // Arrange
+    mockChannel.publish.mockImplementation((...args: any[]) => {
+      args[4](new Error('message nacked'));
+      return true;
+    });
+
+    // Act & Assert
+    await expect(service.sendToDeadLetterQueue(sampleEvent, new Error('boom'), 3))
+      .rejects.toThrow('message nacked');
+    expect(mockRepository.record).not.toHaveBeenCalled();
+  });
+});
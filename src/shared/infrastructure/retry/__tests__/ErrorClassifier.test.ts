@@ -0,0 +1,25 @@
+import { DefaultErrorClassifier } from '../ErrorClassifier';
+import { PoisonMessageError } from '../../messaging/PoisonMessageError';
+import { ValidationError } from '../../../domain/errors/ValidationError';
+import { NotFoundError } from '../../../domain/errors/NotFoundError';
+import { BusinessRuleError } from '../../../domain/errors/BusinessRuleError';
+
+describe('DefaultErrorClassifier', () => {
+  const classifier = new DefaultErrorClassifier();
+
+  it('should classify malformed messages as poison', () => {
+    expect(classifier.classify(new PoisonMessageError('Malformed message', 'garbage'))).toBe('poison');
+  });
+
+  it.each([
+    ['validation', new ValidationError('Quantity must be positive')],
+    ['not found', new NotFoundError('Order not found')],
+    ['business rule', new BusinessRuleError('Cannot cancel completed order')]
+  ])('should classify %s errors as non-retryable', (_, error) => {
+    expect(classifier.classify(error)).toBe('non-retryable');
+  });
+
+  it('should classify any other error as retryable', () => {
+    expect(classifier.classify(new Error('Connection refused'))).toBe('retryable');
+  });
+});
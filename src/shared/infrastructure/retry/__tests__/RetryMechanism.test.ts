@@ -0,0 +1,375 @@
+import {
+  RetryMechanism,
+  RetryScheduler,
+  DeadLetterQueueService,
+  jitteredRetryDelay,
+  retryDelays,
+  retryPolicy
+} from '../RetryMechanism';
+import { Logger } from '../../../application/logging/logger';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { EventId } from '../../../domain/value-objects/EventId';
+import { ValidationError } from '../../../domain/errors/ValidationError';
+import { PoisonMessageError } from '../../messaging/PoisonMessageError';
+import { CircuitOpenError } from '../../circuit-breaker/CircuitOpenError';
+import { PipelineMetrics } from '../../metrics/PipelineMetrics';
+
+describe('RetryMechanism', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let mockDlqService: jest.Mocked<DeadLetterQueueService>;
+  let mockScheduler: jest.Mocked<RetryScheduler>;
+  let retryMechanism: RetryMechanism;
+  let sampleEvent: DomainEvent;
+
+  const retryConfig = { maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 30000, backoffFactor: 2 };
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+
+    mockDlqService = {
+      sendToDeadLetterQueue: jest.fn().mockResolvedValue(undefined)
+    };
+
+    mockScheduler = {
+      scheduleRetry: jest.fn().mockResolvedValue(undefined)
+    };
+
+    retryMechanism = new RetryMechanism(mockLogger, retryConfig, mockDlqService, mockScheduler);
+
+    sampleEvent = {
+      eventId: new EventId(),
+      eventType: 'OrderCreated',
+      aggregateId: 'order-123',
+      data: {},
+      version: 1,
+      occurredOn: new Date()
+    };
+  });
+
+  describe('handleFailure', () => {
+    it('should schedule the next attempt with the backoff delay', async () => {
+      // Act
+      const disposition = await retryMechanism.handleFailure(sampleEvent, new Error('Database timeout'), { attempt: 2 });
+
+      // Assert
+      expect(disposition).toBe('retry-scheduled');
+      expect(mockScheduler.scheduleRetry).toHaveBeenCalledWith(sampleEvent, {
+        attempt: 3,
+        firstFailureAt: expect.any(Number),
+        lastRetryDelayMs: 2000
+      }, 2000);
+      expect(mockDlqService.sendToDeadLetterQueue).not.toHaveBeenCalled();
+    });
+
+    it('should dead-letter once the last attempt failed', async () => {
+      // Arrange
+      const error = new Error('Database timeout');
+
+      // Act
+      const disposition = await retryMechanism.handleFailure(sampleEvent, error, { attempt: 3 });
+
+      // Assert
+      expect(disposition).toBe('dead-lettered');
+      expect(mockScheduler.scheduleRetry).not.toHaveBeenCalled();
+      expect(mockDlqService.sendToDeadLetterQueue).toHaveBeenCalledWith(
+        sampleEvent, error, 3, { canRetry: true, errorClass: 'retryable' }
+      );
+    });
+
+    it('should dead-letter permanent failures without retrying', async () => {
+      // Act
+      await retryMechanism.handleFailure(sampleEvent, new Error('Invalid order'), { attempt: 1 }, { canRetry: false });
+
+      // Assert
+      expect(mockScheduler.scheduleRetry).not.toHaveBeenCalled();
+      expect(mockDlqService.sendToDeadLetterQueue).toHaveBeenCalledWith(
+        sampleEvent, expect.any(Error), 1, { canRetry: false, errorClass: 'non-retryable' }
+      );
+    });
+
+    it('should dead-letter validation errors straight away', async () => {
+      // Arrange
+      const error = new ValidationError('Invalid order: customerId is required');
+
+      // Act
+      const disposition = await retryMechanism.handleFailure(sampleEvent, error, { attempt: 1 }, { source: 'RetryableMessageHandler' });
+
+      // Assert
+      expect(disposition).toBe('dead-lettered');
+      expect(mockScheduler.scheduleRetry).not.toHaveBeenCalled();
+      expect(mockDlqService.sendToDeadLetterQueue).toHaveBeenCalledWith(sampleEvent, error, 1, {
+        source: 'RetryableMessageHandler',
+        canRetry: false,
+        errorClass: 'non-retryable'
+      });
+    });
+
+    it('should dead-letter poison messages as such', async () => {
+      // Act
+      await retryMechanism.handleFailure(sampleEvent, new PoisonMessageError('Malformed message', 'garbage'), { attempt: 1 });
+
+      // Assert
+      expect(mockDlqService.sendToDeadLetterQueue).toHaveBeenCalledWith(
+        sampleEvent, expect.any(PoisonMessageError), 1, { canRetry: false, errorClass: 'poison' }
+      );
+    });
+
+    it('should use a custom error classifier', async () => {
+      // Arrange
+      const classifier = { classify: jest.fn().mockReturnValue('non-retryable') };
+      retryMechanism = new RetryMechanism(mockLogger, retryConfig, mockDlqService, mockScheduler, classifier);
+      const error = new Error('Card declined');
+
+      // Act
+      await retryMechanism.handleFailure(sampleEvent, error, { attempt: 1 });
+
+      // Assert
+      expect(classifier.classify).toHaveBeenCalledWith(error, sampleEvent);
+      expect(mockScheduler.scheduleRetry).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the DLQ when the retry cannot be scheduled', async () => {
+      // Arrange
+      mockScheduler.scheduleRetry.mockRejectedValue(new Error('RabbitMQ client is not connected'));
+
+      // Act
+      const disposition = await retryMechanism.handleFailure(sampleEvent, new Error('Database timeout'), { attempt: 1 });
+
+      // Assert
+      expect(disposition).toBe('dead-lettered');
+      expect(mockDlqService.sendToDeadLetterQueue).toHaveBeenCalled();
+    });
+
+    it('should report the event as unhandled when the DLQ fails too', async () => {
+      // Arrange
+      mockDlqService.sendToDeadLetterQueue.mockRejectedValue(new Error('DLQ unavailable'));
+
+      // Act
+      const disposition = await retryMechanism.handleFailure(sampleEvent, new Error('Database timeout'), { attempt: 3 });
+
+      // Assert
+      expect(disposition).toBe('unhandled');
+    });
+
+    it('should dead-letter right away without a retry scheduler', async () => {
+      // Arrange
+      retryMechanism = new RetryMechanism(mockLogger, retryConfig, mockDlqService);
+
+      // Act
+      const disposition = await retryMechanism.handleFailure(sampleEvent, new Error('Database timeout'), { attempt: 1 });
+
+      // Assert
+      expect(disposition).toBe('dead-lettered');
+    });
+
+    it('should follow the retry policy of the event type', async () => {
+      // Arrange
+      retryMechanism = new RetryMechanism(
+        mockLogger,
+        { ...retryConfig, eventTypes: { OrderCreated: { maxAttempts: 5, initialDelayMs: 500 } } },
+        mockDlqService,
+        mockScheduler
+      );
+
+      // Act
+      const disposition = await retryMechanism.handleFailure(sampleEvent, new Error('Database timeout'), { attempt: 3 });
+
+      // Assert
+      expect(disposition).toBe('retry-scheduled');
+      expect(mockScheduler.scheduleRetry).toHaveBeenCalledWith(
+        sampleEvent, expect.objectContaining({ attempt: 4, lastRetryDelayMs: 2000 }), 2000
+      );
+    });
+
+    it('should apply the jitter of the policy', async () => {
+      // Arrange
+      retryMechanism = new RetryMechanism(
+        mockLogger, { ...retryConfig, jitter: 'full' }, mockDlqService, mockScheduler, undefined, undefined, () => 0.25
+      );
+
+      // Act
+      await retryMechanism.handleFailure(sampleEvent, new Error('Database timeout'), { attempt: 2 });
+
+      // Assert
+      expect(mockScheduler.scheduleRetry).toHaveBeenCalledWith(
+        sampleEvent, expect.objectContaining({ lastRetryDelayMs: 500 }), 500
+      );
+    });
+
+    it('should keep the time of the first failure across retries', async () => {
+      // Act
+      await retryMechanism.handleFailure(
+        sampleEvent, new Error('Database timeout'), { attempt: 2, firstFailureAt: 1700000000000, lastRetryDelayMs: 1000 }
+      );
+
+      // Assert
+      expect(mockScheduler.scheduleRetry).toHaveBeenCalledWith(sampleEvent, {
+        attempt: 3,
+        firstFailureAt: 1700000000000,
+        lastRetryDelayMs: 2000
+      }, 2000);
+    });
+
+    it('should dead-letter instead of retrying past the retry deadline', async () => {
+      // Arrange
+      retryMechanism = new RetryMechanism(mockLogger, { ...retryConfig, deadlineMs: 60000 }, mockDlqService, mockScheduler);
+      const error = new Error('Database timeout');
+
+      // Act
+      const disposition = await retryMechanism.handleFailure(
+        sampleEvent, error, { attempt: 2, firstFailureAt: Date.now() - 59000, lastRetryDelayMs: 1000 }
+      );
+
+      // Assert
+      expect(disposition).toBe('dead-lettered');
+      expect(mockScheduler.scheduleRetry).not.toHaveBeenCalled();
+      expect(mockDlqService.sendToDeadLetterQueue).toHaveBeenCalledWith(
+        sampleEvent, error, 2, { canRetry: true, errorClass: 'retryable' }
+      );
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        '❌ Event failed past its retry deadline - sending to DLQ', expect.any(Object)
+      );
+    });
+  });
+
+  describe('open circuits', () => {
+    it('should park the event until the circuit lets calls through, keeping its attempt', async () => {
+      // Act
+      const disposition = await retryMechanism.handleFailure(
+        sampleEvent, new CircuitOpenError('payment', 1500), { attempt: 2, firstFailureAt: 1700000000000, lastRetryDelayMs: 1000 }
+      );
+
+      // Assert
+      expect(disposition).toBe('parked');
+      expect(mockScheduler.scheduleRetry).toHaveBeenCalledWith(
+        sampleEvent, { attempt: 2, firstFailureAt: 1700000000000, lastRetryDelayMs: 1000 }, 1500
+      );
+      expect(mockDlqService.sendToDeadLetterQueue).not.toHaveBeenCalled();
+    });
+
+    it('should park even on the last attempt', async () => {
+      // Act
+      const disposition = await retryMechanism.handleFailure(sampleEvent, new CircuitOpenError('payment', 1500), { attempt: 3 });
+
+      // Assert
+      expect(disposition).toBe('parked');
+    });
+
+    it('should keep the parking delay within the retry queue delays', async () => {
+      // Act
+      await retryMechanism.handleFailure(sampleEvent, new CircuitOpenError('payment', 60000), { attempt: 1 });
+      await retryMechanism.handleFailure(sampleEvent, new CircuitOpenError('payment', 0), { attempt: 1 });
+
+      // Assert
+      expect(mockScheduler.scheduleRetry).toHaveBeenNthCalledWith(1, sampleEvent, expect.any(Object), 2000);
+      expect(mockScheduler.scheduleRetry).toHaveBeenNthCalledWith(2, sampleEvent, expect.any(Object), 1000);
+    });
+
+    it('should fall back to the regular handling when the event cannot be parked', async () => {
+      // Arrange
+      mockScheduler.scheduleRetry.mockRejectedValue(new Error('RabbitMQ client is not connected'));
+
+      // Act
+      const disposition = await retryMechanism.handleFailure(sampleEvent, new CircuitOpenError('payment', 1500), { attempt: 1 });
+
+      // Assert
+      expect(disposition).toBe('dead-lettered');
+    });
+  });
+
+  describe('metrics', () => {
+    let metrics: PipelineMetrics;
+
+    beforeEach(() => {
+      metrics = new PipelineMetrics();
+      retryMechanism = new RetryMechanism(
+        mockLogger, retryConfig, mockDlqService, mockScheduler, undefined, metrics
+      );
+    });
+
+    it('should count scheduled retries, parked events and DLQ sends per event type', async () => {
+      // Act
+      await retryMechanism.handleFailure(sampleEvent, new Error('Database timeout'), { attempt: 1 });
+      await retryMechanism.handleFailure(sampleEvent, new CircuitOpenError('payment', 1500), { attempt: 1 });
+      await retryMechanism.handleFailure(sampleEvent, new ValidationError('customerId is required'), { attempt: 1 });
+
+      // Assert
+      expect(metrics.retriesScheduled.get({ event_type: 'OrderCreated' })).toBe(1);
+      expect(metrics.eventsParked.get({ event_type: 'OrderCreated', circuit: 'payment' })).toBe(1);
+      expect(metrics.deadLettered.get({ event_type: 'OrderCreated', error_class: 'non-retryable' })).toBe(1);
+    });
+
+    it('should count DLQ sends that failed', async () => {
+      // Arrange
+      mockDlqService.sendToDeadLetterQueue.mockRejectedValue(new Error('DLQ unavailable'));
+
+      // Act
+      await retryMechanism.handleFailure(sampleEvent, new Error('Database timeout'), { attempt: 3 });
+
+      // Assert
+      expect(metrics.deadLetterFailures.get({ event_type: 'OrderCreated' })).toBe(1);
+      expect(metrics.deadLettered.get({ event_type: 'OrderCreated', error_class: 'retryable' })).toBe(0);
+    });
+  });
+
+  describe('retryDelays', () => {
+    it('should list each distinct delay up to the last retry', () => {
+      expect(retryDelays({ maxAttempts: 5, initialDelayMs: 1000, maxDelayMs: 3000, backoffFactor: 2 }))
+        .toEqual([1000, 2000, 3000]);
+    });
+
+    it('should have no delays when events are never retried', () => {
+      expect(retryDelays({ ...retryConfig, maxAttempts: 1 })).toEqual([]);
+    });
+    it('should include the delays of every event type policy', () => {
+      expect(retryDelays({
+        ...retryConfig,
+        eventTypes: {
+          OrderCreated: { maxAttempts: 4 },
+          OrderCancelled: { initialDelayMs: 500, maxAttempts: 2 }
+        }
+      })).toEqual([500, 1000, 2000, 4000]);
+    });
+
+    it('should include the maximum delay for decorrelated jitter', () => {
+      expect(retryDelays({ ...retryConfig, jitter: 'decorrelated' })).toEqual([1000, 2000, 30000]);
+    });
+  });
+
+  describe('retryPolicy', () => {
+    it('should apply the overrides of the event type over the defaults', () => {
+      const config = { ...retryConfig, jitter: 'full' as const, eventTypes: { OrderCancelled: { maxAttempts: 10 } } };
+
+      expect(retryPolicy(config, 'OrderCancelled')).toEqual({ ...retryConfig, jitter: 'full', maxAttempts: 10 });
+      expect(retryPolicy(config, 'OrderCreated')).toEqual({ ...retryConfig, jitter: 'full' });
+    });
+  });
+
+  describe('jitteredRetryDelay', () => {
+    const policy = { ...retryConfig, maxDelayMs: 10000 };
+
+    it('should use the plain backoff without jitter', () => {
+      expect(jitteredRetryDelay(policy, 3, undefined, () => 0.5)).toBe(4000);
+    });
+
+    it('should pick full jitter between 0 and the backoff delay', () => {
+      expect(jitteredRetryDelay({ ...policy, jitter: 'full' }, 3, undefined, () => 0)).toBe(0);
+      expect(jitteredRetryDelay({ ...policy, jitter: 'full' }, 3, undefined, () => 0.5)).toBe(2000);
+    });
+
+    it('should keep at least half the backoff delay with equal jitter', () => {
+      expect(jitteredRetryDelay({ ...policy, jitter: 'equal' }, 3, undefined, () => 0)).toBe(2000);
+      expect(jitteredRetryDelay({ ...policy, jitter: 'equal' }, 3, undefined, () => 0.5)).toBe(3000);
+    });
+
+    it('should grow decorrelated jitter from the last delay up to the maximum', () => {
+      expect(jitteredRetryDelay({ ...policy, jitter: 'decorrelated' }, 2, 2000, () => 0.5)).toBe(3500);
+      expect(jitteredRetryDelay({ ...policy, jitter: 'decorrelated' }, 4, 8000, () => 1)).toBe(10000);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Logger } from '../../application/logging/logger';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { ValidationError } from '../../domain/errors/ValidationError';
+import { JsonSchema, validateJsonSchema } from './JsonSchema';
+import { EventSchemaViolationError } from './EventSchemaViolationError';
+
+/**
+ * - strict: events without a schema for their type and version are rejected
+ * - lenient: they are accepted unvalidated, with a warning
+ *
+ * Events that do have a schema are always rejected when they violate it.
+ */
+export type SchemaValidationMode = 'strict' | 'lenient';
+
+export interface EventSchemaConfig {
+  mode: SchemaValidationMode;
+}
+
+/**
+ * JSON Schema of the data of one version of an event type
+ */
+export interface EventSchema {
+  eventType: string;
+  version: number;
+  schema: JsonSchema;
+}
+
+/**
+ * Event Schema Registry
+ *
+ * Holds the schema of every event type and version the consumer accepts and
+ * validates incoming events against it before they are stored or processed.
+ */
+export class EventSchemaRegistry {
+  private readonly logger: Logger;
+  private readonly config: EventSchemaConfig;
+  private readonly schemas = new Map<string, JsonSchema>();
+  private readonly unvalidated = new Set<string>();
+
+  constructor(logger: Logger, config: EventSchemaConfig) {
+    this.logger = logger;
+    this.config = config;
+  }
+
+  register(...schemas: EventSchema[]): this {
+    for (const { eventType, version, schema } of schemas) {
+      const key = this.keyOf(eventType, version);
+      if (this.schemas.has(key)) {
+        throw new Error(`A schema is already registered for ${eventType} version ${version}`);
+      }
+      this.schemas.set(key, schema);
+    }
+    return this;
+  }
+
+  getSchema(eventType: string, version: number): JsonSchema | undefined {
+    return this.schemas.get(this.keyOf(eventType, version));
+  }
+
+  /**
+   * @throws EventSchemaViolationError listing every violation of the schema
+   * @throws ValidationError in strict mode, when no schema is registered for the event
+   */
+  validate(event: DomainEvent): void {
+    const schema = this.getSchema(event.eventType, event.version);
+
+    if (!schema) {
+      if (this.config.mode === 'strict') {
+        throw new ValidationError(`No schema registered for ${event.eventType} version ${event.version}`);
+      }
+      this.warnUnvalidated(event);
+      return;
+    }
+
+    const violations = validateJsonSchema(schema, event.data);
+    if (violations.length > 0) {
+      throw new EventSchemaViolationError(event.eventType, event.version, violations);
+    }
+  }
+
+  /**
+   * Once per event type and version, so a stream of them does not flood the log
+   */
+  private warnUnvalidated(event: DomainEvent): void {
+    const key = this.keyOf(event.eventType, event.version);
+    if (this.unvalidated.has(key)) {
+      return;
+    }
+    this.unvalidated.add(key);
+    this.logger.warn('No schema registered for event, accepting it unvalidated', {
+      eventType: event.eventType,
+      version: event.version
+    });
+  }
+
+  private keyOf(eventType: string, version: number): string {
+    return `${eventType}@${version}`;
+  }
+}
@@ -0,0 +1,18 @@
+import { ValidationError } from '../../domain/errors/ValidationError';
+
+/**
+ * An event's data does not match the schema registered for its type and
+ * version. Like any validation error it is never retried.
+ */
+export class EventSchemaViolationError extends ValidationError {
+  readonly eventType: string;
+  readonly version: number;
+  readonly violations: string[];
+
+  constructor(eventType: string, version: number, violations: string[]) {
+    super(`Invalid ${eventType} event (version ${version}): ${violations.join('; ')}`);
+    this.eventType = eventType;
+    this.version = version;
+    this.violations = violations;
+  }
+}
@@ -0,0 +1,120 @@
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) event payloads are described
+ * with. Unknown properties are allowed unless `additionalProperties` is false.
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  format?: 'date-time';
+}
+
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+/**
+ * Validates a value against a schema
+ *
+ * @param path how the value is named in the violations, e.g. `data`
+ * @returns every violation found, e.g. `data.items[0].quantity must be greater than 0`;
+ * empty when the value is valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, path: string = 'data'): string[] {
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      // Nothing else can be checked on a value of the wrong type
+      return [`${path} must be of type ${types.join(' or ')}`];
+    }
+  }
+
+  const violations: string[] = [];
+
+  if (schema.enum && !schema.enum.some(allowed => allowed === value)) {
+    violations.push(`${path} must be one of ${schema.enum.map(allowed => JSON.stringify(allowed)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push(schema.minLength === 1
+        ? `${path} must not be empty`
+        : `${path} must be at least ${schema.minLength} characters long`);
+    }
+    if (schema.format === 'date-time' && !(DATE_TIME.test(value) && !Number.isNaN(Date.parse(value)))) {
+      violations.push(`${path} must be an ISO 8601 date-time`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push(`${path} must be greater than or equal to ${schema.minimum}`);
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      violations.push(`${path} must be greater than ${schema.exclusiveMinimum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push(schema.minItems === 1
+        ? `${path} must not be empty`
+        : `${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => violations.push(...validateJsonSchema(itemSchema, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    for (const property of schema.required ?? []) {
+      if (value[property] === undefined) {
+        violations.push(`${path}.${property} is required`);
+      }
+    }
+    for (const [property, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (value[property] !== undefined) {
+        violations.push(...validateJsonSchema(propertySchema, value[property], `${path}.${property}`));
+      }
+    }
+    if (schema.additionalProperties === false) {
+      for (const property of Object.keys(value)) {
+        if (!schema.properties || !(property in schema.properties)) {
+          violations.push(`${path}.${property} is not allowed`);
+        }
+      }
+    }
+  }
+
+  return violations;
+}
+
+function hasType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,174 @@
+import { EventSchemaRegistry } from '../EventSchemaRegistry';
+import { EventSchemaViolationError } from '../EventSchemaViolationError';
+import { JsonSchema, validateJsonSchema } from '../JsonSchema';
+import { Logger } from '../../../application/logging/logger';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { EventId } from '../../../domain/value-objects/EventId';
+import { ValidationError } from '../../../domain/errors/ValidationError';
+
+describe('EventSchemaRegistry', () => {
+  let mockLogger: jest.Mocked<Logger>;
+
+  const paymentSchema: JsonSchema = {
+    type: 'object',
+    required: ['paymentId', 'amount'],
+    properties: {
+      paymentId: { type: 'string', minLength: 1 },
+      amount: { type: 'number', exclusiveMinimum: 0 }
+    }
+  };
+
+  const event = (data: Record<string, any>, version: number = 1): DomainEvent => ({
+    eventId: new EventId(),
+    eventType: 'PaymentAuthorized',
+    aggregateId: 'payment-1',
+    occurredOn: new Date(),
+    version,
+    data
+  });
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+  });
+
+  describe('validate', () => {
+    it('should accept an event matching the schema of its type and version', () => {
+      // Arrange
+      const registry = new EventSchemaRegistry(mockLogger, { mode: 'strict' })
+        .register({ eventType: 'PaymentAuthorized', version: 1, schema: paymentSchema });
+
+      // Act & Assert
+      expect(() => registry.validate(event({ paymentId: 'payment-1', amount: 10 }))).not.toThrow();
+    });
+
+    it('should report every violation of the schema in one error', () => {
+      // Arrange
+      const registry = new EventSchemaRegistry(mockLogger, { mode: 'lenient' })
+        .register({ eventType: 'PaymentAuthorized', version: 1, schema: paymentSchema });
+
+      // Act
+      let error: unknown;
+      try {
+        registry.validate(event({ amount: 0 }));
+      } catch (thrown) {
+        error = thrown;
+      }
+
+      // Assert
+      expect(error).toBeInstanceOf(EventSchemaViolationError);
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as EventSchemaViolationError).violations).toEqual([
+        'data.paymentId is required',
+        'data.amount must be greater than 0'
+      ]);
+      expect((error as Error).message).toBe(
+        'Invalid PaymentAuthorized event (version 1): data.paymentId is required; data.amount must be greater than 0'
+      );
+    });
+
+    it('should validate each version against its own schema', () => {
+      // Arrange
+      const registry = new EventSchemaRegistry(mockLogger, { mode: 'strict' }).register(
+        { eventType: 'PaymentAuthorized', version: 1, schema: paymentSchema },
+        {
+          eventType: 'PaymentAuthorized',
+          version: 2,
+          schema: { ...paymentSchema, required: ['paymentId', 'amount', 'currency'] }
+        }
+      );
+
+      // Act & Assert
+      expect(() => registry.validate(event({ paymentId: 'payment-1', amount: 10 }, 1))).not.toThrow();
+      expect(() => registry.validate(event({ paymentId: 'payment-1', amount: 10 }, 2)))
+        .toThrow('data.currency is required');
+    });
+
+    it('should reject events without a schema in strict mode', () => {
+      // Arrange
+      const registry = new EventSchemaRegistry(mockLogger, { mode: 'strict' })
+        .register({ eventType: 'PaymentAuthorized', version: 1, schema: paymentSchema });
+
+      // Act & Assert
+      expect(() => registry.validate(event({}, 3)))
+        .toThrow(new ValidationError('No schema registered for PaymentAuthorized version 3'));
+    });
+
+    it('should accept events without a schema in lenient mode and warn once per type and version', () => {
+      // Arrange
+      const registry = new EventSchemaRegistry(mockLogger, { mode: 'lenient' });
+
+      // Act
+      registry.validate(event({}));
+      registry.validate(event({}));
+
+      // Assert
+      expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith('No schema registered for event, accepting it unvalidated', {
+        eventType: 'PaymentAuthorized',
+        version: 1
+      });
+    });
+  });
+
+  describe('register', () => {
+    it('should refuse a second schema for the same type and version', () => {
+      // Arrange
+      const registry = new EventSchemaRegistry(mockLogger, { mode: 'strict' })
+        .register({ eventType: 'PaymentAuthorized', version: 1, schema: paymentSchema });
+
+      // Act & Assert
+      expect(() => registry.register({ eventType: 'PaymentAuthorized', version: 1, schema: {} }))
+        .toThrow('A schema is already registered for PaymentAuthorized version 1');
+    });
+  });
+});
+
+describe('validateJsonSchema', () => {
+  it('should stop at a value of the wrong type', () => {
+    expect(validateJsonSchema({ type: 'string', minLength: 1 }, null, 'data.customerId'))
+      .toEqual(['data.customerId must be of type string']);
+    expect(validateJsonSchema({ type: ['string', 'null'] }, null)).toEqual([]);
+    expect(validateJsonSchema({ type: 'integer' }, 1.5)).toEqual(['data must be of type integer']);
+  });
+
+  it('should point at the offending array item', () => {
+    // Arrange
+    const schema: JsonSchema = {
+      type: 'array',
+      minItems: 1,
+      items: { type: 'object', required: ['sku'], properties: { quantity: { type: 'integer', minimum: 1 } } }
+    };
+
+    // Act & Assert
+    expect(validateJsonSchema(schema, [])).toEqual(['data must not be empty']);
+    expect(validateJsonSchema(schema, [{ sku: 'a', quantity: 1 }, { quantity: 0 }])).toEqual([
+      'data[1].sku is required',
+      'data[1].quantity must be greater than or equal to 1'
+    ]);
+  });
+
+  it('should check enums, date-times and undeclared properties', () => {
+    // Arrange
+    const schema: JsonSchema = {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        status: { enum: ['pending', 'shipped'] },
+        shippedAt: { type: 'string', format: 'date-time' }
+      }
+    };
+
+    // Act & Assert
+    expect(validateJsonSchema(schema, { status: 'pending', shippedAt: '2024-01-15T10:30:00.000Z' })).toEqual([]);
+    expect(validateJsonSchema(schema, { status: 'lost', shippedAt: 'yesterday', carrier: 'ups' })).toEqual([
+      'data.status must be one of "pending", "shipped"',
+      'data.shippedAt must be an ISO 8601 date-time',
+      'data.carrier is not allowed'
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { DomainEvent, DomainEventMetadata } from '../../domain/events/DomainEvent';
+import { EventId } from '../../domain/value-objects/EventId';
+
+/**
+ * An event as it travels through the broker, in JSON
+ */
+export interface EventEnvelope<TData extends Record<string, any> = Record<string, any>> {
+  eventId: string;
+  eventType: string;
+  aggregateId: string;
+  occurredOn: string;
+  version: number;
+  data: TData;
+}
+
+/**
+ * How to rebuild the events of one type from their data
+ */
+export interface EventTypeRegistration<TEvent extends DomainEvent = DomainEvent> {
+  eventType: string;
+  restore(data: TEvent['data'], metadata: DomainEventMetadata): TEvent;
+}
+
+/**
+ * Event Serializer
+ *
+ * Turns events into envelopes for the broker and consumed messages back
+ * into instances of their event class, registered by event type. A message
+ * that is not a complete envelope, or whose type is not registered, cannot
+ * be mapped and is rejected.
+ */
+export class EventSerializer {
+  private readonly registrations = new Map<string, EventTypeRegistration>();
+
+  register(...registrations: EventTypeRegistration[]): this {
+    for (const registration of registrations) {
+      if (this.registrations.has(registration.eventType)) {
+        throw new Error(`Event type ${registration.eventType} is already registered`);
+      }
+      this.registrations.set(registration.eventType, registration);
+    }
+    return this;
+  }
+
+  serialize<TData extends Record<string, any>>(event: DomainEvent<TData>): EventEnvelope<TData> {
+    return {
+      eventId: event.eventId.value,
+      eventType: event.eventType,
+      aggregateId: event.aggregateId,
+      occurredOn: event.occurredOn.toISOString(),
+      version: event.version,
+      data: event.data
+    };
+  }
+
+  /**
+   * @throws Error listing everything that keeps the message from being mapped
+   */
+  deserialize(message: unknown): DomainEvent {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      throw new Error('message is not an event object');
+    }
+
+    const envelope = message as Record<string, unknown>;
+    const { eventId, eventType, aggregateId, occurredOn, version, data } = envelope;
+    const id = this.parseEventId(eventId);
+    const problems: string[] = [];
+
+    if (!id) {
+      problems.push('eventId must be a UUID');
+    }
+    if (typeof eventType !== 'string' || !eventType) {
+      problems.push('eventType is required');
+    } else if (!this.registrations.has(eventType)) {
+      problems.push(`event type ${eventType} is not registered`);
+    }
+    if (typeof aggregateId !== 'string' || !aggregateId) {
+      problems.push('aggregateId is required');
+    }
+    if (typeof occurredOn !== 'string' || Number.isNaN(Date.parse(occurredOn))) {
+      problems.push('occurredOn must be a date');
+    }
+    if (!Number.isInteger(version) || (version as number) < 1) {
+      problems.push('version must be a positive integer');
+    }
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      problems.push('data must be an object');
+    }
+
+    if (!id || problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+
+    const event = this.registrations.get(eventType as string)!.restore(data as Record<string, unknown>, {
+      eventId: id,
+      occurredOn: new Date(occurredOn as string),
+      version: version as number
+    });
+
+    if (event.aggregateId !== aggregateId) {
+      throw new Error(`aggregateId ${aggregateId} does not match the one of the event data (${event.aggregateId})`);
+    }
+    return event;
+  }
+
+  private parseEventId(value: unknown): EventId | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+    try {
+      return new EventId(value);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { EventSerializer } from '../EventSerializer';
+import { BaseDomainEvent, DomainEventMetadata } from '../../../domain/events/DomainEvent';
+import { EventId } from '../../../domain/value-objects/EventId';
+
+interface PaymentAuthorizedData {
+  paymentId: string;
+  amount: number;
+}
+
+class PaymentAuthorizedEvent extends BaseDomainEvent<PaymentAuthorizedData> {
+  constructor(data: PaymentAuthorizedData, metadata?: DomainEventMetadata) {
+    super('PaymentAuthorized', data.paymentId, data, metadata?.version, metadata?.eventId, metadata?.occurredOn);
+  }
+}
+
+describe('EventSerializer', () => {
+  let serializer: EventSerializer;
+
+  const envelope = {
+    eventId: '550e8400-e29b-41d4-a716-446655440000',
+    eventType: 'PaymentAuthorized',
+    aggregateId: 'payment-1',
+    occurredOn: '2024-01-15T10:30:00.000Z',
+    version: 1,
+    data: { paymentId: 'payment-1', amount: 10 }
+  };
+
+  beforeEach(() => {
+    serializer = new EventSerializer().register({
+      eventType: 'PaymentAuthorized',
+      restore: (data, metadata) => new PaymentAuthorizedEvent(data as PaymentAuthorizedData, metadata)
+    });
+  });
+
+  it('should rebuild a message as an instance of its event class', () => {
+    // Act
+    const event = serializer.deserialize(envelope);
+
+    // Assert
+    expect(event).toBeInstanceOf(PaymentAuthorizedEvent);
+    expect(event.eventId).toEqual(new EventId('550e8400-e29b-41d4-a716-446655440000'));
+    expect(event.occurredOn).toEqual(new Date('2024-01-15T10:30:00.000Z'));
+    expect(event).toMatchObject({ eventType: 'PaymentAuthorized', aggregateId: 'payment-1', version: 1 });
+    expect(event.data).toEqual({ paymentId: 'payment-1', amount: 10 });
+  });
+
+  it('should serialize an event into the envelope it deserializes from', () => {
+    // Arrange
+    const event = new PaymentAuthorizedEvent({ paymentId: 'payment-1', amount: 10 });
+
+    // Act
+    const serialized = JSON.parse(JSON.stringify(serializer.serialize(event)));
+
+    // Assert
+    expect(serialized.occurredOn).toBe(event.occurredOn.toISOString());
+    expect(serializer.deserialize(serialized)).toEqual(event);
+  });
+
+  it('should report everything that keeps a message from being mapped', () => {
+    // Arrange
+    const message = { eventId: 'not-a-uuid', eventType: 'PaymentRefunded', occurredOn: 'yesterday', version: 0 };
+
+    // Act & Assert
+    expect(() => serializer.deserialize(message)).toThrow(
+      'eventId must be a UUID; event type PaymentRefunded is not registered; aggregateId is required; ' +
+      'occurredOn must be a date; version must be a positive integer; data must be an object'
+    );
+  });
+
+  it.each([null, 'garbage', [envelope]])('should reject %p as not an event', message => {
+    // Act & Assert
+    expect(() => serializer.deserialize(message)).toThrow('message is not an event object');
+  });
+
+  it('should reject a message whose aggregateId is not the one of its data', () => {
+    // Arrange
+    const message = { ...envelope, aggregateId: 'payment-2' };
+
+    // Act & Assert
+    expect(() => serializer.deserialize(message)).toThrow(
+      'aggregateId payment-2 does not match the one of the event data (payment-1)'
+    );
+  });
+
+  it('should refuse to register an event type twice', () => {
+    // Act & Assert
+    expect(() => serializer.register({
+      eventType: 'PaymentAuthorized',
+      restore: (data, metadata) => new PaymentAuthorizedEvent(data as PaymentAuthorizedData, metadata)
+    })).toThrow('Event type PaymentAuthorized is already registered');
+  });
+});
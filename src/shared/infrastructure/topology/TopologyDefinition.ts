@@ -0,0 +1,315 @@
+import { readFileSync } from 'fs';
+
+export type ExchangeType = 'direct' | 'topic' | 'fanout' | 'headers';
+export type QueueType = 'classic' | 'quorum';
+
+const EXCHANGE_TYPES: ExchangeType[] = ['direct', 'topic', 'fanout', 'headers'];
+const QUEUE_TYPES: QueueType[] = ['classic', 'quorum'];
+
+/** Arguments set through a queue's type and deadLetter instead */
+const RESERVED_QUEUE_ARGUMENTS = ['x-queue-type', 'x-dead-letter-exchange', 'x-dead-letter-routing-key'];
+
+export interface ExchangeDefinition {
+  name: string;
+  type: ExchangeType;
+  durable: boolean;
+  arguments: Record<string, unknown>;
+}
+
+export interface DeadLetterLink {
+  exchange: string;
+  /** Defaults to the routing key the message was published with */
+  routingKey?: string;
+}
+
+export interface QueueDefinition {
+  name: string;
+  type: QueueType;
+  durable: boolean;
+  /** Broker arguments such as x-message-ttl or x-max-length */
+  arguments: Record<string, unknown>;
+  /** Where rejected and expired messages are dead-lettered to */
+  deadLetter?: DeadLetterLink;
+}
+
+export interface BindingDefinition {
+  exchange: string;
+  queue: string;
+  routingKey: string;
+}
+
+/**
+ * The exchanges, queues and bindings the services expect on the broker
+ */
+export interface TopologyDefinition {
+  exchanges: ExchangeDefinition[];
+  queues: QueueDefinition[];
+  bindings: BindingDefinition[];
+}
+
+/**
+ * Arguments a queue is declared with, including those derived from its
+ * type and dead-letter link
+ */
+export function queueArguments(queue: QueueDefinition): Record<string, unknown> {
+  return {
+    ...queue.arguments,
+    ...(queue.type === 'quorum' && { 'x-queue-type': 'quorum' }),
+    ...(queue.deadLetter && { 'x-dead-letter-exchange': queue.deadLetter.exchange }),
+    ...(queue.deadLetter?.routingKey !== undefined && { 'x-dead-letter-routing-key': queue.deadLetter.routingKey })
+  };
+}
+
+export function bindingKey(binding: BindingDefinition): string {
+  return `${binding.exchange} -> ${binding.queue} (${binding.routingKey})`;
+}
+
+/**
+ * Combines definitions; an exchange, queue or binding declared more than
+ * once keeps its first declaration
+ */
+export function mergeTopologyDefinitions(...definitions: Array<TopologyDefinition | null | undefined>): TopologyDefinition {
+  const merged: TopologyDefinition = { exchanges: [], queues: [], bindings: [] };
+
+  for (const definition of definitions) {
+    if (!definition) {
+      continue;
+    }
+    for (const exchange of definition.exchanges) {
+      if (!merged.exchanges.some(existing => existing.name === exchange.name)) {
+        merged.exchanges.push(exchange);
+      }
+    }
+    for (const queue of definition.queues) {
+      if (!merged.queues.some(existing => existing.name === queue.name)) {
+        merged.queues.push(queue);
+      }
+    }
+    for (const binding of definition.bindings) {
+      if (!merged.bindings.some(existing => bindingKey(existing) === bindingKey(binding))) {
+        merged.bindings.push(binding);
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Reads a topology definition from a JSON file
+ */
+export function loadTopologyDefinition(path: string): TopologyDefinition {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read topology file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Topology file ${path} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  return parseTopologyDefinition(raw, path);
+}
+
+/**
+ * Validates a topology as written in a topology file and fills in the
+ * defaults (durable, classic queues, no arguments). Every problem is
+ * reported at once.
+ */
+export function parseTopologyDefinition(raw: unknown, source: string = 'topology'): TopologyDefinition {
+  const errors: string[] = [];
+
+  if (!isObject(raw)) {
+    throw new Error(`Invalid topology in ${source}:\nthe topology must be a JSON object`);
+  }
+
+  const exchanges = listOf(raw, 'exchanges', errors).map((entry, index) =>
+    parseExchange(entry, `exchanges[${index}]`, errors));
+  const queues = listOf(raw, 'queues', errors).map((entry, index) =>
+    parseQueue(entry, `queues[${index}]`, errors));
+  const bindings = listOf(raw, 'bindings', errors).map((entry, index) =>
+    parseBinding(entry, `bindings[${index}]`, errors));
+
+  const exchangeNames = new Set<string>();
+  for (const exchange of exchanges) {
+    if (exchangeNames.has(exchange.name)) {
+      errors.push(`exchange ${exchange.name} is declared more than once`);
+    }
+    exchangeNames.add(exchange.name);
+  }
+
+  const queueNames = new Set<string>();
+  for (const queue of queues) {
+    if (queueNames.has(queue.name)) {
+      errors.push(`queue ${queue.name} is declared more than once`);
+    }
+    queueNames.add(queue.name);
+
+    if (queue.deadLetter && !exchangeNames.has(queue.deadLetter.exchange)) {
+      errors.push(`queue ${queue.name} dead-letters to undeclared exchange ${queue.deadLetter.exchange}`);
+    }
+  }
+
+  for (const binding of bindings) {
+    if (binding.exchange && !exchangeNames.has(binding.exchange)) {
+      errors.push(`binding ${bindingKey(binding)} uses undeclared exchange ${binding.exchange}`);
+    }
+    if (binding.queue && !queueNames.has(binding.queue)) {
+      errors.push(`binding ${bindingKey(binding)} uses undeclared queue ${binding.queue}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid topology in ${source}:\n${errors.join('\n')}`);
+  }
+
+  return { exchanges, queues, bindings };
+}
+
+function parseExchange(raw: unknown, path: string, errors: string[]): ExchangeDefinition {
+  const entry = isObject(raw) ? raw : {};
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+  }
+
+  const name = stringField(entry, 'name', path, errors);
+  const type = entry['type'];
+  if (!EXCHANGE_TYPES.includes(type as ExchangeType)) {
+    errors.push(`${path}.type must be one of ${EXCHANGE_TYPES.map(t => `"${t}"`).join(', ')}`);
+  }
+
+  return {
+    name,
+    type: type as ExchangeType,
+    durable: booleanField(entry, 'durable', true, path, errors),
+    arguments: argumentsField(entry, path, errors)
+  };
+}
+
+function parseQueue(raw: unknown, path: string, errors: string[]): QueueDefinition {
+  const entry = isObject(raw) ? raw : {};
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+  }
+
+  const name = stringField(entry, 'name', path, errors);
+  const type = entry['type'] ?? 'classic';
+  if (!QUEUE_TYPES.includes(type as QueueType)) {
+    errors.push(`${path}.type must be "classic" or "quorum"`);
+  }
+
+  const durable = booleanField(entry, 'durable', true, path, errors);
+  if (type === 'quorum' && !durable) {
+    errors.push(`${path}: quorum queues must be durable`);
+  }
+
+  const args = argumentsField(entry, path, errors);
+  for (const reserved of RESERVED_QUEUE_ARGUMENTS) {
+    if (reserved in args) {
+      errors.push(`${path}.arguments.${reserved} is set through "type" and "deadLetter" instead`);
+    }
+  }
+
+  let deadLetter: DeadLetterLink | undefined;
+  const rawDeadLetter = entry['deadLetter'];
+  if (rawDeadLetter !== undefined) {
+    if (!isObject(rawDeadLetter)) {
+      errors.push(`${path}.deadLetter must be an object`);
+    } else {
+      deadLetter = { exchange: stringField(rawDeadLetter, 'exchange', `${path}.deadLetter`, errors) };
+      if (rawDeadLetter['routingKey'] !== undefined) {
+        if (typeof rawDeadLetter['routingKey'] !== 'string') {
+          errors.push(`${path}.deadLetter.routingKey must be a string`);
+        } else {
+          deadLetter.routingKey = rawDeadLetter['routingKey'];
+        }
+      }
+    }
+  }
+
+  return {
+    name,
+    type: type as QueueType,
+    durable,
+    arguments: args,
+    ...(deadLetter && { deadLetter })
+  };
+}
+
+function parseBinding(raw: unknown, path: string, errors: string[]): BindingDefinition {
+  const entry = isObject(raw) ? raw : {};
+  if (!isObject(raw)) {
+    errors.push(`${path} must be an object`);
+  }
+
+  const routingKey = entry['routingKey'] ?? '';
+  if (typeof routingKey !== 'string') {
+    errors.push(`${path}.routingKey must be a string`);
+  }
+
+  return {
+    exchange: stringField(entry, 'exchange', path, errors),
+    queue: stringField(entry, 'queue', path, errors),
+    routingKey: typeof routingKey === 'string' ? routingKey : ''
+  };
+}
+
+function listOf(raw: Record<string, unknown>, field: string, errors: string[]): unknown[] {
+  const value = raw[field];
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return [];
+  }
+  return value;
+}
+
+function stringField(entry: Record<string, unknown>, field: string, path: string, errors: string[]): string {
+  const value = entry[field];
+  if (typeof value !== 'string' || value.length === 0) {
+    errors.push(`${path}.${field} is required`);
+    return '';
+  }
+  return value;
+}
+
+function booleanField(
+  entry: Record<string, unknown>,
+  field: string,
+  defaultValue: boolean,
+  path: string,
+  errors: string[]
+): boolean {
+  const value = entry[field];
+  if (value === undefined) {
+    return defaultValue;
+  }
+  if (typeof value !== 'boolean') {
+    errors.push(`${path}.${field} must be true or false`);
+    return defaultValue;
+  }
+  return value;
+}
+
+function argumentsField(entry: Record<string, unknown>, path: string, errors: string[]): Record<string, unknown> {
+  const value = entry['arguments'];
+  if (value === undefined) {
+    return {};
+  }
+  if (!isObject(value)) {
+    errors.push(`${path}.arguments must be an object`);
+    return {};
+  }
+  return value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
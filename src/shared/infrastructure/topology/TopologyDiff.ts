@@ -0,0 +1,146 @@
+import {
+  ExchangeDefinition,
+  QueueDefinition,
+  TopologyDefinition,
+  bindingKey,
+  queueArguments
+} from './TopologyDefinition';
+
+/**
+ * - create: missing on the broker, declared when the topology is applied
+ * - conflict: exists with other properties; applying fails until it is
+ *   deleted so it can be re-created
+ * - unmanaged: on the broker but not in the topology, left as is
+ */
+export type TopologyChangeKind = 'create' | 'conflict' | 'unmanaged';
+
+export interface TopologyChange {
+  kind: TopologyChangeKind;
+  resource: 'exchange' | 'queue' | 'binding';
+  name: string;
+  /** What differs, for conflicts */
+  differences?: string[];
+}
+
+const CHANGE_SYMBOLS: Record<TopologyChangeKind, string> = {
+  create: '+',
+  conflict: '!',
+  unmanaged: '?'
+};
+
+/**
+ * Compares the topology with what the broker has
+ */
+export function diffTopology(desired: TopologyDefinition, actual: TopologyDefinition): TopologyChange[] {
+  const changes: TopologyChange[] = [];
+
+  for (const exchange of desired.exchanges) {
+    const existing = actual.exchanges.find(candidate => candidate.name === exchange.name);
+    if (!existing) {
+      changes.push({ kind: 'create', resource: 'exchange', name: exchange.name });
+      continue;
+    }
+    const differences = compareExchanges(exchange, existing);
+    if (differences.length > 0) {
+      changes.push({ kind: 'conflict', resource: 'exchange', name: exchange.name, differences });
+    }
+  }
+
+  for (const queue of desired.queues) {
+    const existing = actual.queues.find(candidate => candidate.name === queue.name);
+    if (!existing) {
+      changes.push({ kind: 'create', resource: 'queue', name: queue.name });
+      continue;
+    }
+    const differences = compareQueues(queue, existing);
+    if (differences.length > 0) {
+      changes.push({ kind: 'conflict', resource: 'queue', name: queue.name, differences });
+    }
+  }
+
+  const actualBindings = new Set(actual.bindings.map(bindingKey));
+  for (const binding of desired.bindings) {
+    if (!actualBindings.has(bindingKey(binding))) {
+      changes.push({ kind: 'create', resource: 'binding', name: bindingKey(binding) });
+    }
+  }
+
+  for (const exchange of actual.exchanges) {
+    if (!desired.exchanges.some(candidate => candidate.name === exchange.name)) {
+      changes.push({ kind: 'unmanaged', resource: 'exchange', name: exchange.name });
+    }
+  }
+  for (const queue of actual.queues) {
+    if (!desired.queues.some(candidate => candidate.name === queue.name)) {
+      changes.push({ kind: 'unmanaged', resource: 'queue', name: queue.name });
+    }
+  }
+  const desiredBindings = new Set(desired.bindings.map(bindingKey));
+  for (const binding of actual.bindings) {
+    if (!desiredBindings.has(bindingKey(binding))) {
+      changes.push({ kind: 'unmanaged', resource: 'binding', name: bindingKey(binding) });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * One line per change, e.g. `+ queue order_events`
+ */
+export function formatTopologyChanges(changes: TopologyChange[]): string {
+  if (!changes.some(change => change.kind !== 'unmanaged')) {
+    const unmanaged = changes.length > 0 ? `\n${changes.map(formatChange).join('\n')}` : '';
+    return `No changes: the broker matches the topology${unmanaged}`;
+  }
+  return changes.map(formatChange).join('\n');
+}
+
+function formatChange(change: TopologyChange): string {
+  const line = `${CHANGE_SYMBOLS[change.kind]} ${change.resource} ${change.name}`;
+  switch (change.kind) {
+    case 'conflict':
+      return `${line} (delete it to re-create)\n${(change.differences ?? []).map(d => `    ${d}`).join('\n')}`;
+    case 'unmanaged':
+      return `${line} (not in the topology, left as is)`;
+    default:
+      return line;
+  }
+}
+
+function compareExchanges(desired: ExchangeDefinition, actual: ExchangeDefinition): string[] {
+  const differences: string[] = [];
+  if (desired.type !== actual.type) {
+    differences.push(`type: ${actual.type} -> ${desired.type}`);
+  }
+  if (desired.durable !== actual.durable) {
+    differences.push(`durable: ${actual.durable} -> ${desired.durable}`);
+  }
+  differences.push(...compareArguments(desired.arguments, actual.arguments));
+  return differences;
+}
+
+function compareQueues(desired: QueueDefinition, actual: QueueDefinition): string[] {
+  const differences: string[] = [];
+  if (desired.type !== actual.type) {
+    differences.push(`type: ${actual.type} -> ${desired.type}`);
+  }
+  if (desired.durable !== actual.durable) {
+    differences.push(`durable: ${actual.durable} -> ${desired.durable}`);
+  }
+  differences.push(...compareArguments(withoutQueueType(desired), withoutQueueType(actual)));
+  return differences;
+}
+
+/** The queue type is compared on its own */
+function withoutQueueType(queue: QueueDefinition): Record<string, unknown> {
+  const { 'x-queue-type': _type, ...args } = queueArguments(queue);
+  return args;
+}
+
+function compareArguments(desired: Record<string, unknown>, actual: Record<string, unknown>): string[] {
+  const names = [...new Set([...Object.keys(actual), ...Object.keys(desired)])].sort();
+  return names
+    .filter(name => JSON.stringify(desired[name]) !== JSON.stringify(actual[name]))
+    .map(name => `${name}: ${JSON.stringify(actual[name]) ?? 'unset'} -> ${JSON.stringify(desired[name]) ?? 'unset'}`);
+}
@@ -0,0 +1,226 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadTopologyDefinition,
+  mergeTopologyDefinitions,
+  parseTopologyDefinition,
+  queueArguments
+} from '../TopologyDefinition';
+import { applyTopology } from '../applyTopology';
+import { loadMessagingTopology } from '../loadMessagingTopology';
+
+describe('TopologyDefinition', () => {
+  const topologyFile = {
+    exchanges: [
+      { name: 'orders_exchange', type: 'topic' },
+      { name: 'dlx_exchange', type: 'direct' }
+    ],
+    queues: [
+      { name: 'order_events', type: 'quorum', deadLetter: { exchange: 'dlx_exchange', routingKey: 'failed' } },
+      { name: 'dead_letter_queue', arguments: { 'x-max-length': 10000 } }
+    ],
+    bindings: [
+      { exchange: 'orders_exchange', queue: 'order_events', routingKey: 'order.*' },
+      { exchange: 'dlx_exchange', queue: 'dead_letter_queue', routingKey: 'failed' }
+    ]
+  };
+
+  describe('parseTopologyDefinition', () => {
+    it('should fill in durable classic queues and empty arguments by default', () => {
+      // Act
+      const definition = parseTopologyDefinition(topologyFile);
+
+      // Assert
+      expect(definition.exchanges[0]).toEqual({ name: 'orders_exchange', type: 'topic', durable: true, arguments: {} });
+      expect(definition.queues[1]).toEqual({
+        name: 'dead_letter_queue',
+        type: 'classic',
+        durable: true,
+        arguments: { 'x-max-length': 10000 }
+      });
+      expect(definition.bindings).toHaveLength(2);
+    });
+
+    it('should report every problem at once', () => {
+      // Arrange
+      const invalid = {
+        exchanges: [{ name: 'orders_exchange', type: 'fanin' }],
+        queues: [
+          { name: 'order_events', type: 'quorum', durable: false },
+          { name: 'retry', arguments: { 'x-dead-letter-exchange': 'orders_exchange' } },
+          { name: 'parked', deadLetter: { exchange: 'parking_exchange' } }
+        ],
+        bindings: [{ exchange: 'orders_exchange', queue: 'payment_events', routingKey: 'payment.*' }]
+      };
+
+      // Act & Assert
+      expect(() => parseTopologyDefinition(invalid, 'topology.json')).toThrow(
+        'Invalid topology in topology.json:\n' +
+        'exchanges[0].type must be one of "direct", "topic", "fanout", "headers"\n' +
+        'queues[0]: quorum queues must be durable\n' +
+        'queues[1].arguments.x-dead-letter-exchange is set through "type" and "deadLetter" instead\n' +
+        'queue parked dead-letters to undeclared exchange parking_exchange\n' +
+        'binding orders_exchange -> payment_events (payment.*) uses undeclared queue payment_events'
+      );
+    });
+
+    it('should reject duplicate names and missing fields', () => {
+      // Arrange
+      const invalid = {
+        exchanges: [{ name: 'orders_exchange', type: 'topic' }, { name: 'orders_exchange', type: 'topic' }],
+        queues: [{ type: 'classic' }]
+      };
+
+      // Act & Assert
+      expect(() => parseTopologyDefinition(invalid)).toThrow(
+        'Invalid topology in topology:\n' +
+        'queues[0].name is required\n' +
+        'exchange orders_exchange is declared more than once'
+      );
+    });
+  });
+
+  describe('queueArguments', () => {
+    it('should add the queue type and dead-letter link to the arguments', () => {
+      // Arrange
+      const [queue] = parseTopologyDefinition(topologyFile).queues;
+
+      // Act & Assert
+      expect(queueArguments(queue!)).toEqual({
+        'x-queue-type': 'quorum',
+        'x-dead-letter-exchange': 'dlx_exchange',
+        'x-dead-letter-routing-key': 'failed'
+      });
+    });
+  });
+
+  describe('mergeTopologyDefinitions', () => {
+    it('should keep the first declaration of everything declared twice', () => {
+      // Arrange
+      const definition = parseTopologyDefinition(topologyFile);
+      const other = parseTopologyDefinition({
+        exchanges: [{ name: 'orders_exchange', type: 'direct' }],
+        queues: [{ name: 'payment_events' }],
+        bindings: [{ exchange: 'orders_exchange', queue: 'payment_events', routingKey: 'payment.*' }]
+      });
+
+      // Act
+      const merged = mergeTopologyDefinitions(definition, other, null);
+
+      // Assert
+      expect(merged.exchanges.map(exchange => `${exchange.name}:${exchange.type}`))
+        .toEqual(['orders_exchange:topic', 'dlx_exchange:direct']);
+      expect(merged.queues.map(queue => queue.name)).toEqual(['order_events', 'dead_letter_queue', 'payment_events']);
+      expect(merged.bindings).toHaveLength(3);
+    });
+  });
+
+  describe('applyTopology', () => {
+    it('should declare exchanges, then queues, then bindings', async () => {
+      // Arrange
+      const calls: string[] = [];
+      const channel = {
+        assertExchange: jest.fn(async (name: string) => { calls.push(`exchange ${name}`); }),
+        assertQueue: jest.fn(async (name: string) => { calls.push(`queue ${name}`); }),
+        bindQueue: jest.fn(async (queue: string) => { calls.push(`binding ${queue}`); })
+      };
+
+      // Act
+      await applyTopology(channel, parseTopologyDefinition(topologyFile));
+
+      // Assert
+      expect(calls).toEqual([
+        'exchange orders_exchange',
+        'exchange dlx_exchange',
+        'queue order_events',
+        'queue dead_letter_queue',
+        'binding order_events',
+        'binding dead_letter_queue'
+      ]);
+      expect(channel.assertExchange).toHaveBeenCalledWith('orders_exchange', 'topic', { durable: true });
+      expect(channel.assertQueue).toHaveBeenCalledWith('order_events', {
+        durable: true,
+        arguments: {
+          'x-queue-type': 'quorum',
+          'x-dead-letter-exchange': 'dlx_exchange',
+          'x-dead-letter-routing-key': 'failed'
+        }
+      });
+      expect(channel.bindQueue).toHaveBeenCalledWith('order_events', 'orders_exchange', 'order.*');
+    });
+  });
+
+  describe('loading a topology file', () => {
+    let directory: string;
+
+    const config = (topologyFile?: string) => ({
+      rabbitmq: {
+        url: 'amqp://localhost:5672',
+        exchange: 'orders_exchange',
+        queue: 'order_events',
+        routingKey: 'order.*',
+        topologyFile,
+        retry: { maxAttempts: 2, initialDelayMs: 1000, maxDelayMs: 1000, backoffFactor: 2 }
+      },
+      dlq: {
+        rabbitmqUrl: 'amqp://localhost:5672',
+        dlqExchange: 'dlx_exchange',
+        dlqQueue: 'dead_letter_queue',
+        dlqRoutingKey: 'failed'
+      }
+    });
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'topology-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should declare the file with the retry queues derived from the config', () => {
+      // Arrange
+      const path = join(directory, 'topology.json');
+      writeFileSync(path, JSON.stringify(topologyFile));
+
+      // Act
+      const topology = loadMessagingTopology(config(path));
+
+      // Assert
+      expect(topology.getDefinition().queues.map(queue => queue.name))
+        .toEqual(['order_events', 'dead_letter_queue', 'order_events.retry.1000ms']);
+      expect(topology.getDefinition().queues[0]!.type).toBe('quorum');
+    });
+
+    it('should derive the consumer and dead letter layout when no file is configured', () => {
+      // Act
+      const topology = loadMessagingTopology(config());
+
+      // Assert
+      expect(topology.getDefinition().exchanges.map(exchange => exchange.name)).toEqual(['orders_exchange', 'dlx_exchange']);
+      expect(topology.getDefinition().queues[1]).toEqual(expect.objectContaining({
+        name: 'dead_letter_queue',
+        arguments: { 'x-message-ttl': 604800000, 'x-max-length': 10000 }
+      }));
+    });
+
+    it('should refuse a file that does not declare the configured queues', () => {
+      // Arrange
+      const path = join(directory, 'topology.json');
+      writeFileSync(path, JSON.stringify({ ...topologyFile, queues: [topologyFile.queues[0]], bindings: [] }));
+
+      // Act & Assert
+      expect(() => loadMessagingTopology(config(path))).toThrow('Messaging topology does not declare queue dead_letter_queue');
+    });
+
+    it('should report a file that is not valid JSON', () => {
+      // Arrange
+      const path = join(directory, 'topology.json');
+      writeFileSync(path, '{ "exchanges": [');
+
+      // Act & Assert
+      expect(() => loadTopologyDefinition(path)).toThrow(`Topology file ${path} is not valid JSON`);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { Logger } from '../../application/logging/logger';
+import { TopologyDefinition, queueArguments } from './TopologyDefinition';
+
+/**
+ * Declares the topology on the broker: exchanges, then queues, then
+ * bindings. Declaring is idempotent; something that already exists with
+ * other properties is rejected by the broker (PRECONDITION_FAILED) rather
+ * than changed, as queues and exchanges cannot be altered in place.
+ */
+export async function applyTopology(channel: any, definition: TopologyDefinition, logger?: Logger): Promise<void> {
+  for (const exchange of definition.exchanges) {
+    await channel.assertExchange(exchange.name, exchange.type, {
+      durable: exchange.durable,
+      ...(Object.keys(exchange.arguments).length > 0 && { arguments: exchange.arguments })
+    });
+  }
+
+  for (const queue of definition.queues) {
+    const args = queueArguments(queue);
+    await channel.assertQueue(queue.name, {
+      durable: queue.durable,
+      ...(Object.keys(args).length > 0 && { arguments: args })
+    });
+  }
+
+  for (const binding of definition.bindings) {
+    await channel.bindQueue(binding.queue, binding.exchange, binding.routingKey);
+  }
+
+  logger?.info('Messaging topology configured', {
+    exchanges: definition.exchanges.map(exchange => exchange.name),
+    queues: definition.queues.map(queue => queue.name),
+    bindings: definition.bindings.length
+  });
+}
@@ -0,0 +1,20 @@
+import { AppConfig } from '../config/AppConfig';
+import { MessagingTopology } from '../messaging/MessagingTopology';
+import { deadLetterTopology } from '../retry/DeadLetterQueueService';
+import { loadTopologyDefinition, mergeTopologyDefinitions } from './TopologyDefinition';
+
+/**
+ * The topology every connection declares: the topology file when
+ * RABBITMQ_TOPOLOGY_FILE is set, otherwise the consumer's and the dead
+ * letter queue's layout derived from the config
+ */
+export function loadMessagingTopology(config: Pick<AppConfig, 'rabbitmq' | 'dlq'>): MessagingTopology {
+  const definition = config.rabbitmq.topologyFile
+    ? loadTopologyDefinition(config.rabbitmq.topologyFile)
+    : mergeTopologyDefinitions(MessagingTopology.defaultDefinition(config.rabbitmq), deadLetterTopology(config.dlq));
+
+  const topology = new MessagingTopology(config.rabbitmq, definition);
+  topology.requireExchange(config.dlq.dlqExchange);
+  topology.requireQueue(config.dlq.dlqQueue);
+  return topology;
+}
@@ -0,0 +1,93 @@
+import { Logger } from '../../application/logging/logger';
+import { DomainEvent } from '../../domain/events/DomainEvent';
+import { ValidationError } from '../../domain/errors/ValidationError';
+
+/**
+ * Turns the data of one version of an event type into the shape of the next
+ * version, e.g. OrderCreated version 1 into version 2
+ */
+export interface EventUpcaster {
+  readonly eventType: string;
+  /** Version of the data it takes; it returns version fromVersion + 1 */
+  readonly fromVersion: number;
+  upcast(data: Record<string, any>): Record<string, any>;
+}
+
+/**
+ * Event Upcaster Chain
+ *
+ * Brings events published by older producers up to the current version of
+ * their type, one version at a time, so strategies and observers only ever
+ * see the current shape. Event types without upcasters pass through as is.
+ */
+export class EventUpcasterChain {
+  private readonly logger: Logger;
+  private readonly upcasters = new Map<string, EventUpcaster>();
+  private readonly currentVersions = new Map<string, number>();
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  register(...upcasters: EventUpcaster[]): this {
+    for (const upcaster of upcasters) {
+      const key = this.keyOf(upcaster.eventType, upcaster.fromVersion);
+      if (this.upcasters.has(key)) {
+        throw new Error(
+          `An upcaster is already registered for ${upcaster.eventType} version ${upcaster.fromVersion}`
+        );
+      }
+      this.upcasters.set(key, upcaster);
+      this.currentVersions.set(
+        upcaster.eventType,
+        Math.max(this.currentVersions.get(upcaster.eventType) ?? 0, upcaster.fromVersion + 1)
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Latest version of the event type the chain upcasts to, if it has any
+   * upcaster for it
+   */
+  getCurrentVersion(eventType: string): number | undefined {
+    return this.currentVersions.get(eventType);
+  }
+
+  /**
+   * @returns the event in the current version of its type; the same event
+   * when it already is, or when its type has no upcasters
+   * @throws ValidationError when a version on the way has no upcaster
+   */
+  upcast(event: DomainEvent): DomainEvent {
+    const currentVersion = this.currentVersions.get(event.eventType);
+    if (currentVersion === undefined || event.version >= currentVersion) {
+      return event;
+    }
+
+    let data = event.data;
+    for (let version = event.version; version < currentVersion; version++) {
+      const upcaster = this.upcasters.get(this.keyOf(event.eventType, version));
+      if (!upcaster) {
+        throw new ValidationError(
+          `Cannot upcast ${event.eventType} from version ${version} to ${currentVersion}: no upcaster registered`
+        );
+      }
+      data = upcaster.upcast(data);
+    }
+
+    this.logger.debug(`Upcasted ${event.eventType} event`, {
+      eventId: event.eventId.value,
+      fromVersion: event.version,
+      toVersion: currentVersion
+    });
+
+    // Keep the event's class, so a deserialized event stays an instance of it
+    const upcast: DomainEvent = Object.create(Object.getPrototypeOf(event));
+    return Object.assign(upcast, event, { version: currentVersion, data });
+  }
+
+  private keyOf(eventType: string, version: number): string {
+    return `${eventType}@${version}`;
+  }
+}
@@ -0,0 +1,98 @@
+import { EventUpcaster, EventUpcasterChain } from '../EventUpcasterChain';
+import { Logger } from '../../../application/logging/logger';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { EventId } from '../../../domain/value-objects/EventId';
+import { ValidationError } from '../../../domain/errors/ValidationError';
+
+describe('EventUpcasterChain', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let chain: EventUpcasterChain;
+
+  // v1 { amount } -> v2 { amount, currency } -> v3 { money: { amount, currency } }
+  const v1ToV2: EventUpcaster = {
+    eventType: 'PaymentAuthorized',
+    fromVersion: 1,
+    upcast: data => ({ ...data, currency: 'BRL' })
+  };
+  const v2ToV3: EventUpcaster = {
+    eventType: 'PaymentAuthorized',
+    fromVersion: 2,
+    upcast: ({ amount, currency, ...data }) => ({ ...data, money: { amount, currency } })
+  };
+
+  const event = (version: number, data: Record<string, any>): DomainEvent => ({
+    eventId: new EventId('550e8400-e29b-41d4-a716-446655440000'),
+    eventType: 'PaymentAuthorized',
+    aggregateId: 'payment-1',
+    occurredOn: new Date('2024-01-15T10:30:00.000Z'),
+    version,
+    data
+  });
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    // Registration order does not matter
+    chain = new EventUpcasterChain(mockLogger).register(v2ToV3, v1ToV2);
+  });
+
+  it('should upcast an event through every version up to the current one', () => {
+    // Arrange
+    const original = event(1, { paymentId: 'payment-1', amount: 10 });
+
+    // Act
+    const upcast = chain.upcast(original);
+
+    // Assert
+    expect(chain.getCurrentVersion('PaymentAuthorized')).toBe(3);
+    expect(upcast).toEqual({
+      ...original,
+      version: 3,
+      data: { paymentId: 'payment-1', money: { amount: 10, currency: 'BRL' } }
+    });
+    expect(original.data).toEqual({ paymentId: 'payment-1', amount: 10 });
+    expect(mockLogger.debug).toHaveBeenCalledWith('Upcasted PaymentAuthorized event', {
+      eventId: '550e8400-e29b-41d4-a716-446655440000',
+      fromVersion: 1,
+      toVersion: 3
+    });
+  });
+
+  it('should start from the version the event has', () => {
+    // Act
+    const upcast = chain.upcast(event(2, { amount: 10, currency: 'USD' }));
+
+    // Assert
+    expect(upcast.data).toEqual({ money: { amount: 10, currency: 'USD' } });
+  });
+
+  it('should pass events already current, or of types without upcasters, through as is', () => {
+    // Arrange
+    const current = event(3, { money: { amount: 10, currency: 'BRL' } });
+    const other = { ...event(1, {}), eventType: 'OrderCompleted' };
+
+    // Act & Assert
+    expect(chain.upcast(current)).toBe(current);
+    expect(chain.upcast(other)).toBe(other);
+    expect(mockLogger.debug).not.toHaveBeenCalled();
+  });
+
+  it('should reject an event whose version has no upcaster on the way', () => {
+    // Arrange
+    chain = new EventUpcasterChain(mockLogger).register(v2ToV3);
+
+    // Act & Assert
+    expect(() => chain.upcast(event(1, { amount: 10 }))).toThrow(new ValidationError(
+      'Cannot upcast PaymentAuthorized from version 1 to 3: no upcaster registered'
+    ));
+  });
+
+  it('should refuse a second upcaster from the same version', () => {
+    expect(() => chain.register({ ...v1ToV2 }))
+      .toThrow('An upcaster is already registered for PaymentAuthorized version 1');
+  });
+});